@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "LineWebhookEvent" (
+    "id" TEXT NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "lineUserId" TEXT,
+    "isRedelivery" BOOLEAN NOT NULL DEFAULT false,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LineWebhookEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LineWebhookEvent_receivedAt_idx" ON "LineWebhookEvent"("receivedAt");
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "WebhookJobStatus" AS ENUM ('PENDING', 'PROCESSING', 'SUCCEEDED', 'DEAD');
+
+-- CreateTable
+CREATE TABLE "WebhookJob" (
+    "id" TEXT NOT NULL,
+    "webhookEventId" TEXT,
+    "lineUserId" TEXT,
+    "eventType" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" "WebhookJobStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+    "nextRunAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "errors" JSONB NOT NULL DEFAULT '[]',
+    "deliveries" JSONB NOT NULL DEFAULT '[]',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "WebhookJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WebhookJob_webhookEventId_key" ON "WebhookJob"("webhookEventId");
+
+-- CreateIndex
+CREATE INDEX "WebhookJob_status_nextRunAt_idx" ON "WebhookJob"("status", "nextRunAt");
+
+-- CreateIndex
+CREATE INDEX "WebhookJob_lineUserId_idx" ON "WebhookJob"("lineUserId");
@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "UserRole" AS ENUM ('USER', 'ADMIN');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "role" "UserRole" NOT NULL DEFAULT 'USER';
+
+-- CreateIndex
+CREATE INDEX "Session_userId_idx" ON "Session"("userId");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Organization" ADD COLUMN     "externalId" TEXT,
+ADD COLUMN     "source" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Organization_source_externalId_key" ON "Organization"("source", "externalId");
@@ -0,0 +1,12 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "searchText" TEXT,
+ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (to_tsvector('simple', coalesce("searchText", ''))) STORED;
+
+-- CreateIndex
+CREATE INDEX "Event_searchVector_idx" ON "Event" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Event_searchText_idx" ON "Event" USING GIN ("searchText" gin_trgm_ops);
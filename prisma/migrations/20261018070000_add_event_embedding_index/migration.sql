@@ -0,0 +1,13 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "vector";
+
+-- AlterTable
+-- embedding は以前から schema にあったが、DB によっては列が存在しない・次元が未指定のため揃える
+ALTER TABLE "Event" ADD COLUMN IF NOT EXISTS "embedding" vector;
+ALTER TABLE "Event" ALTER COLUMN "embedding" TYPE vector(1536);
+ALTER TABLE "Event" ADD COLUMN     "embeddingHash" TEXT,
+ADD COLUMN     "embeddingModel" TEXT;
+
+-- CreateIndex
+-- HNSW インデックスは Prisma の schema で表現できないため SQL のみで作成する
+CREATE INDEX "Event_embedding_idx" ON "Event" USING hnsw ("embedding" vector_cosine_ops);
@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "RecommendationSource" AS ENUM ('API_USER', 'API_MESSAGE', 'LINE_COMMAND', 'LINE_TEXT');
+
+-- CreateEnum
+CREATE TYPE "RecommendationFeedback" AS ENUM ('INTERESTED', 'NOT_INTERESTED');
+
+-- CreateTable
+CREATE TABLE "Recommendation" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "source" "RecommendationSource" NOT NULL,
+    "query" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Recommendation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RecommendationItem" (
+    "id" TEXT NOT NULL,
+    "recommendationId" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "rank" INTEGER NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "label" TEXT NOT NULL,
+    "reason" TEXT,
+    "shown" BOOLEAN NOT NULL DEFAULT false,
+    "feedback" "RecommendationFeedback",
+    "feedbackAt" TIMESTAMP(3),
+
+    CONSTRAINT "RecommendationItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Recommendation_userId_createdAt_idx" ON "Recommendation"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "RecommendationItem_eventId_idx" ON "RecommendationItem"("eventId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecommendationItem_recommendationId_eventId_key" ON "RecommendationItem"("recommendationId", "eventId");
+
+-- AddForeignKey
+ALTER TABLE "Recommendation" ADD CONSTRAINT "Recommendation_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecommendationItem" ADD CONSTRAINT "RecommendationItem_recommendationId_fkey" FOREIGN KEY ("recommendationId") REFERENCES "Recommendation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecommendationItem" ADD CONSTRAINT "RecommendationItem_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "descriptionHash" TEXT,
+ADD COLUMN     "sourceUpdatedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "SyncCursor" (
+    "id" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "scope" TEXT NOT NULL DEFAULT '',
+    "lastUpdatedAt" TIMESTAMP(3),
+    "coveredUntil" TIMESTAMP(3),
+    "lastSyncedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SyncCursor_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SyncCursor_source_scope_key" ON "SyncCursor"("source", "scope");
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "SyncRunStatus" AS ENUM ('RUNNING', 'SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "SyncRun" (
+    "id" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "params" JSONB NOT NULL DEFAULT '{}',
+    "status" "SyncRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "fetched" INTEGER NOT NULL DEFAULT 0,
+    "created" INTEGER NOT NULL DEFAULT 0,
+    "updated" INTEGER NOT NULL DEFAULT 0,
+    "unchanged" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "errors" JSONB NOT NULL DEFAULT '[]',
+    "lastError" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "heartbeatAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SyncRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SyncRun_source_startedAt_idx" ON "SyncRun"("source", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "SyncRun_status_idx" ON "SyncRun"("status");
+
+-- 同じ取り込み元の同期が同時に実行されないよう、実行中（RUNNING）の同期は取り込み元ごとに1件までにする
+CREATE UNIQUE INDEX "SyncRun_source_running_key" ON "SyncRun"("source") WHERE "status" = 'RUNNING';
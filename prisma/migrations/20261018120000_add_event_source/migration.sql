@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "externalId" TEXT,
+ADD COLUMN     "rawPayload" JSONB,
+ADD COLUMN     "source" TEXT;
+
+-- Connpass から取り込んだイベント（ID が connpass_<イベントID>）の取り込み元を設定する
+UPDATE "Event"
+SET "source" = 'connpass', "externalId" = substring("id" from 10)
+WHERE "id" LIKE 'connpass\_%';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Event_source_externalId_key" ON "Event"("source", "externalId");
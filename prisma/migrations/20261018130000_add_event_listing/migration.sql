@@ -0,0 +1,40 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "mergedIntoId" TEXT;
+
+-- AlterTable
+ALTER TABLE "SyncRun" ADD COLUMN     "merged" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "EventListing" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "externalId" TEXT NOT NULL,
+    "detailUrl" TEXT,
+    "title" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EventListing_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Event_mergedIntoId_idx" ON "Event"("mergedIntoId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EventListing_source_externalId_key" ON "EventListing"("source", "externalId");
+
+-- CreateIndex
+CREATE INDEX "EventListing_eventId_idx" ON "EventListing"("eventId");
+
+-- AddForeignKey
+ALTER TABLE "Event" ADD CONSTRAINT "Event_mergedIntoId_fkey" FOREIGN KEY ("mergedIntoId") REFERENCES "Event"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EventListing" ADD CONSTRAINT "EventListing_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- 取り込み元を記録済みのイベントの掲載を作成する
+INSERT INTO "EventListing" ("id", "eventId", "source", "externalId", "detailUrl", "title", "updatedAt")
+SELECT gen_random_uuid()::text, "id", "source", "externalId", "detailUrl", "title", CURRENT_TIMESTAMP
+FROM "Event"
+WHERE "source" IS NOT NULL AND "externalId" IS NOT NULL;
@@ -0,0 +1,23 @@
+import prisma from "../src/config/prisma";
+import { backfillEventSearchText } from "../src/services/eventSearchService";
+import { backfillEventEmbeddings } from "../src/services/eventEmbeddingService";
+
+// 全文検索用テキスト・埋め込みベクトルが未作成のイベントに作成する
+async function main() {
+  try {
+    console.log("Starting search text backfill...");
+    const updated = await backfillEventSearchText();
+    console.log(`Search text backfill completed: ${updated} events updated`);
+
+    console.log("Starting embedding backfill...");
+    const embedded = await backfillEventEmbeddings();
+    console.log(`Embedding backfill completed: ${embedded} events updated`);
+  } catch (error) {
+    console.error("Error during search backfill:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
@@ -0,0 +1,284 @@
+import "dotenv/config";
+import fs from "fs";
+import prisma from "../src/config/prisma";
+import { runKeyDataRecommendation } from "../src/utils/keyDataRecommendation";
+import { FuseMethod, InterestWeightMode } from "../src/utils/ragUtils";
+import {
+  averageRankingMetrics,
+  evaluateRanking,
+  RankingMetrics,
+} from "../src/utils/rankingMetrics";
+import {
+  buildBookmarkDataset,
+  buildMockDataset,
+  EvaluationDataset,
+} from "./evaluationDataset";
+
+/**
+ * レコメンドのオフライン評価
+ * ラベル付きのデータセット（興味タグ → 関連イベント）に対して
+ * InterestWeightMode × FuseMethod の全組み合わせでレコメンドを実行し、
+ * precision@k / recall@k / nDCG@k / MRR を JSON または Markdown で出力する
+ *
+ * 使い方:
+ *   npm run recommend:evaluate -- --dataset=all --k=5 --format=markdown --out=report.md
+ *
+ * オプション:
+ *   --dataset=mock|bookmarks|all  評価するデータセット（デフォルト: mock）
+ *   --k=5                         評価する件数（デフォルト: 5）
+ *   --threshold=0.35              類似度の閾値（デフォルト: 0.35）
+ *   --format=markdown|json        出力形式（デフォルト: markdown）
+ *   --out=path                    出力先のファイル（省略時は標準出力）
+ *   --llm                         LLM による絞り込みも含めて評価する（デフォルトは類似度のみ）
+ *   --verbose                     レコメンド処理のログを表示する
+ */
+
+const INTEREST_MODES: InterestWeightMode[] = ["concat", "per_keyword"];
+const FUSE_METHODS: FuseMethod[] = ["rrf", "weighted", "hybrid"];
+
+interface EvaluationOptions {
+  dataset: "mock" | "bookmarks" | "all";
+  k: number;
+  threshold: number;
+  format: "markdown" | "json";
+  out?: string;
+  useLLMFilter: boolean;
+  verbose: boolean;
+}
+
+interface QueryResult {
+  tag: string;
+  userId?: string;
+  rankedEventIds: string[];
+  relevantEventIds: string[];
+  metrics: RankingMetrics;
+}
+
+interface CombinationResult {
+  mode: InterestWeightMode;
+  fuse: FuseMethod;
+  metrics: RankingMetrics;
+  queries: QueryResult[];
+}
+
+interface DatasetResult {
+  name: string;
+  eventCount: number;
+  queryCount: number;
+  results: CombinationResult[];
+}
+
+/**
+ * コマンドライン引数を解析する
+ * @param argv 引数（--key=value または --flag）
+ * @returns 評価の設定
+ * @throws 不正な値が指定された場合
+ */
+const parseOptions = (argv: string[]): EvaluationOptions => {
+  const args = new Map<string, string>();
+  for (const arg of argv) {
+    const match = arg.match(/^--([^=]+)(?:=(.*))?$/);
+    if (match) args.set(match[1], match[2] ?? "true");
+  }
+
+  const dataset = args.get("dataset") ?? "mock";
+  if (!["mock", "bookmarks", "all"].includes(dataset)) {
+    throw new Error(
+      `--dataset は mock, bookmarks, all のいずれかを指定してください（指定値: ${dataset}）`
+    );
+  }
+  const format = args.get("format") ?? "markdown";
+  if (!["markdown", "json"].includes(format)) {
+    throw new Error(
+      `--format は markdown, json のいずれかを指定してください（指定値: ${format}）`
+    );
+  }
+  const k = Number(args.get("k") ?? 5);
+  if (!Number.isInteger(k) || k < 1) {
+    throw new Error("--k は1以上の整数で指定してください");
+  }
+  const threshold = Number(args.get("threshold") ?? 0.35);
+  if (Number.isNaN(threshold)) {
+    throw new Error("--threshold は数値で指定してください");
+  }
+
+  return {
+    dataset: dataset as EvaluationOptions["dataset"],
+    k,
+    threshold,
+    format: format as EvaluationOptions["format"],
+    out: args.get("out"),
+    useLLMFilter: args.has("llm"),
+    verbose: args.has("verbose"),
+  };
+};
+
+/**
+ * レコメンド処理のログを出さずに実行する（評価結果の出力と混ざらないようにする）
+ * @param verbose true の場合はログを出す
+ * @param fn 実行する処理
+ * @returns 処理の結果
+ */
+const runQuietly = async <T>(verbose: boolean, fn: () => Promise<T>) => {
+  if (verbose) return fn();
+  const log = console.log;
+  console.log = () => {};
+  try {
+    return await fn();
+  } finally {
+    console.log = log;
+  }
+};
+
+/**
+ * データセットを全組み合わせで評価する
+ * @param dataset データセット
+ * @param options 評価の設定
+ * @returns 組み合わせごとの評価結果
+ */
+const evaluateDataset = async (
+  dataset: EvaluationDataset,
+  options: EvaluationOptions
+): Promise<DatasetResult> => {
+  const results: CombinationResult[] = [];
+
+  for (const mode of INTEREST_MODES) {
+    for (const fuse of FUSE_METHODS) {
+      console.error(`[${dataset.name}] mode:${mode} fuse:${fuse} を評価中...`);
+      const queries: QueryResult[] = [];
+
+      for (const query of dataset.queries) {
+        const { recommendations } = await runQuietly(options.verbose, () =>
+          runKeyDataRecommendation(query.tag, dataset.events, {
+            interestModes: [mode],
+            fuseMethods: [fuse],
+            similarityThreshold: options.threshold,
+            topN: options.k,
+            useLLMFilter: options.useLLMFilter,
+          })
+        );
+        const rankedEventIds = recommendations.map((rec) => rec.event.id);
+
+        queries.push({
+          tag: query.tag,
+          userId: query.userId,
+          rankedEventIds,
+          relevantEventIds: query.relevantEventIds,
+          metrics: evaluateRanking(
+            rankedEventIds,
+            new Set(query.relevantEventIds),
+            options.k
+          ),
+        });
+      }
+
+      results.push({
+        mode,
+        fuse,
+        metrics: averageRankingMetrics(queries.map((q) => q.metrics)),
+        queries,
+      });
+    }
+  }
+
+  return {
+    name: dataset.name,
+    eventCount: dataset.events.length,
+    queryCount: dataset.queries.length,
+    results,
+  };
+};
+
+/**
+ * 評価結果を Markdown の表にする（データセットごとに nDCG の高い順）
+ * @param datasets データセットごとの評価結果
+ * @param options 評価の設定
+ * @returns Markdown
+ */
+const toMarkdown = (datasets: DatasetResult[], options: EvaluationOptions) => {
+  const k = options.k;
+  const lines = [
+    "# レコメンド評価結果",
+    "",
+    `- k: ${k}`,
+    `- 類似度の閾値: ${options.threshold}`,
+    `- LLM による絞り込み: ${options.useLLMFilter ? "あり" : "なし"}`,
+  ];
+
+  for (const dataset of datasets) {
+    lines.push(
+      "",
+      `## ${dataset.name}（イベント ${dataset.eventCount}件、クエリ ${dataset.queryCount}件）`,
+      ""
+    );
+    if (dataset.queryCount === 0) {
+      lines.push("評価できるクエリがありません。");
+      continue;
+    }
+
+    lines.push(
+      `| mode | fuse | precision@${k} | recall@${k} | nDCG@${k} | MRR |`,
+      "| --- | --- | ---: | ---: | ---: | ---: |"
+    );
+    [...dataset.results]
+      .sort((a, b) => b.metrics.ndcg - a.metrics.ndcg)
+      .forEach(({ mode, fuse, metrics }) => {
+        lines.push(
+          `| ${mode} | ${fuse} | ${[
+            metrics.precision,
+            metrics.recall,
+            metrics.ndcg,
+            metrics.mrr,
+          ]
+            .map((value) => value.toFixed(4))
+            .join(" | ")} |`
+        );
+      });
+  }
+
+  return lines.join("\n") + "\n";
+};
+
+async function main() {
+  try {
+    const options = parseOptions(process.argv.slice(2));
+
+    const datasets: EvaluationDataset[] = [];
+    if (options.dataset !== "bookmarks") datasets.push(buildMockDataset());
+    if (options.dataset !== "mock") datasets.push(await buildBookmarkDataset());
+
+    const results: DatasetResult[] = [];
+    for (const dataset of datasets) {
+      results.push(await evaluateDataset(dataset, options));
+    }
+
+    const report =
+      options.format === "json"
+        ? JSON.stringify(
+            {
+              generatedAt: new Date().toISOString(),
+              k: options.k,
+              similarityThreshold: options.threshold,
+              useLLMFilter: options.useLLMFilter,
+              datasets: results,
+            },
+            null,
+            2
+          ) + "\n"
+        : toMarkdown(results, options);
+
+    if (options.out) {
+      fs.writeFileSync(options.out, report);
+      console.error(`評価結果を ${options.out} に出力しました`);
+    } else {
+      process.stdout.write(report);
+    }
+  } catch (error) {
+    console.error("Error during recommendation evaluation:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
@@ -0,0 +1,127 @@
+import prisma from "../src/config/prisma";
+import { EventKeyData } from "../src/utils/keyDataRecommendation";
+import { detailedEvents } from "./mockEventData";
+
+// 評価用のクエリ（ユーザーの興味タグと、関連ありとするイベント）
+export interface LabeledQuery {
+  tag: string;
+  relevantEventIds: string[];
+  userId?: string; // ブックマークから作成した場合のユーザー
+}
+
+// 評価用のデータセット（候補のイベントとクエリ）
+export interface EvaluationDataset {
+  name: string;
+  events: EventKeyData[];
+  queries: LabeledQuery[];
+}
+
+// mockEventData のイベントに対して手動でラベル付けしたクエリ
+const mockLabeledQueries: LabeledQuery[] = [
+  {
+    tag: "Webアプリのバックエンドを勉強したい",
+    relevantEventIds: ["7", "8", "10", "14", "39", "43", "44"],
+  },
+  {
+    tag: "モダンなフロントエンド開発を学びたい",
+    relevantEventIds: ["1", "3", "9", "13", "42"],
+  },
+  {
+    tag: "スマホアプリを作ってみたい",
+    relevantEventIds: ["5", "15", "21", "22"],
+  },
+  {
+    tag: "生成AIや機械学習を業務に活かしたい",
+    relevantEventIds: ["2", "11", "34"],
+  },
+  {
+    tag: "クラウドとコンテナでインフラを構築したい",
+    relevantEventIds: ["4", "25", "26", "31", "32", "35"],
+  },
+  {
+    tag: "セキュリティの知識を身につけたい",
+    relevantEventIds: ["17", "33", "38"],
+  },
+  {
+    tag: "データ分析と可視化のスキルを伸ばしたい",
+    relevantEventIds: ["24", "27", "30", "42", "48"],
+  },
+  {
+    tag: "データベースの性能改善を学びたい",
+    relevantEventIds: ["16", "28"],
+  },
+  {
+    tag: "ゲームやXRのコンテンツを開発したい",
+    relevantEventIds: ["12", "23"],
+  },
+  {
+    tag: "CMSでWebサイトを構築したい",
+    relevantEventIds: ["49", "50"],
+  },
+];
+
+/**
+ * mockEventData とラベル付けしたクエリからデータセットを作成する
+ * モックのイベントにはタイトルがないため、キーワードをタイトルの代わりにする
+ * @returns データセット
+ */
+export const buildMockDataset = (): EvaluationDataset => ({
+  name: "mock",
+  events: detailedEvents.map((ev) => ({
+    id: ev.id,
+    title: ev.keywords.join(" / "),
+    detail: ev.keySentences.join("\n"),
+    keyPhrases: ev.keywords,
+    keySentences: ev.keySentences,
+  })),
+  queries: mockLabeledQueries,
+});
+
+/**
+ * DBのイベントとユーザーのブックマークからデータセットを作成する
+ * ユーザーの興味タグごとに、そのユーザーがブックマークしたイベントを関連ありとする
+ * @returns データセット（keyPhrases / keySentences のあるイベントのみ候補にする）
+ */
+export const buildBookmarkDataset = async (): Promise<EvaluationDataset> => {
+  const events = await prisma.event.findMany({
+    where: {
+      OR: [
+        { keyPhrases: { isEmpty: false } },
+        { keySentences: { isEmpty: false } },
+      ],
+    },
+    select: {
+      id: true,
+      title: true,
+      description: true,
+      keyPhrases: true,
+      keySentences: true,
+    },
+  });
+  const candidateIds = new Set(events.map((ev) => ev.id));
+
+  const users = await prisma.user.findMany({
+    where: { tag: { isEmpty: false }, Bookmark: { some: {} } },
+    select: { id: true, tag: true, Bookmark: { select: { eventId: true } } },
+  });
+
+  const queries: LabeledQuery[] = users.flatMap((user) => {
+    const relevantEventIds = user.Bookmark.map((b) => b.eventId).filter((id) =>
+      candidateIds.has(id)
+    );
+    if (relevantEventIds.length === 0) return [];
+    return user.tag.map((tag) => ({ tag, relevantEventIds, userId: user.id }));
+  });
+
+  return {
+    name: "bookmarks",
+    events: events.map((ev) => ({
+      id: ev.id,
+      title: ev.title,
+      detail: ev.description || "",
+      keyPhrases: ev.keyPhrases,
+      keySentences: ev.keySentences,
+    })),
+    queries,
+  };
+};
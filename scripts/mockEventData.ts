@@ -1,4 +1,4 @@
-import { EventWithDetails } from "../src/utils/similarityUtils";
+import { EventWithDetails } from "../src/utils/ragUtils";
 
 // 実在しそうなテックイベント 50 件（概要は 1 文で要約調）
 export const detailedEvents: EventWithDetails[] = [
@@ -5,7 +5,7 @@ import {
   EventElement,
   InterestWeightMode,
   FuseMethod,
-} from "../src/utils/similarityUtils";
+} from "../src/utils/ragUtils";
 import { detailedEvents } from "./mockEventData";
 
 (async () => {
@@ -9,8 +9,13 @@ import lineRoutes from "./routes/lineRoutes";
 import categoryRoutes from "./routes/categoryRoutes";
 import bookmarkRoutes from "./routes/bookmarkRoutes";
 import connpassRoutes from "./routes/connpassRoutes";
+import syncRoutes from "./routes/syncRoutes";
 import recommendRoutes from "./routes/recommendRoutes";
+import organizationRoutes from "./routes/organizationRoutes";
 import { errorHandler } from "./middleware/errorHandler";
+import { startWebhookWorker } from "./services/webhookJobService";
+import { processLineWebhookEvent } from "./controllers/webhookController";
+import { startReminderScheduler } from "./services/reminderService";
 import { PrismaClient } from "@prisma/client";
 
 dotenv.config({
@@ -50,7 +55,14 @@ app.use(
   })
 );
 
-app.use(express.json());
+// LINE Webhook の署名検証のため、パース前の生のボディを保持する
+app.use(
+  express.json({
+    verify: (req, res, buf) => {
+      (req as express.Request).rawBody = buf;
+    },
+  })
+);
 
 // Health check endpoint
 app.get("/health", (req, res) => {
@@ -86,10 +98,28 @@ app.use("/api/bookmarks", bookmarkRoutes);
 app.use("/api/recommend", recommendRoutes);
 app.use("/api/users", userRoutes);
 app.use("/api/connpass", connpassRoutes);
+app.use("/api/organizations", organizationRoutes);
+app.use("/api/sync", syncRoutes);
 
 // Error handling
 app.use(errorHandler);
 
 app.listen(port, () => {
   console.log(`Server is running on port ${port}`);
+
+  // LINE Webhook のジョブを処理するワーカーを起動
+  if (process.env.WEBHOOK_WORKER_ENABLED !== "false") {
+    startWebhookWorker(
+      processLineWebhookEvent,
+      Number(process.env.WEBHOOK_WORKER_INTERVAL_MS) || 1000
+    );
+  }
+
+  // ブックマークしたイベントのリマインドを定期的に送信するスケジューラーを起動
+  if (process.env.REMINDER_SCHEDULER_ENABLED !== "false") {
+    startReminderScheduler(
+      process.env.REMINDER_CRON || "*/15 * * * *",
+      process.env.REMINDER_TIMEZONE
+    );
+  }
 });
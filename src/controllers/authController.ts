@@ -1,15 +1,40 @@
 import { PrismaClient } from "@prisma/client";
 import { Request, Response } from "express";
 import crypto from "crypto";
+import { createSession, deleteSession } from "../services/sessionService";
+import { getBearerToken } from "../middleware/auth";
 
 const prisma = new PrismaClient();
 
+/**
+ * syncUser の呼び出し元（フロントエンドのサーバー）を検証する
+ * AUTH_SYNC_SECRET が設定されている場合は X-Auth-Sync-Secret ヘッダーと一致する必要がある
+ * 未設定の場合は本番環境以外でのみ許可する
+ */
+const isTrustedSyncRequest = (req: Request) => {
+  const secret = process.env.AUTH_SYNC_SECRET;
+  if (!secret) return process.env.NODE_ENV !== "production";
+
+  const provided = req.get("x-auth-sync-secret") || "";
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(provided);
+  return (
+    actual.length === expected.length &&
+    crypto.timingSafeEqual(actual, expected)
+  );
+};
+
 export const syncUser = async (req: Request, res: Response) => {
   console.log("--- Starting user sync ---");
   console.log("Received user:", JSON.stringify(req.body.user, null, 2));
   console.log("Received account:", JSON.stringify(req.body.account, null, 2));
 
   try {
+    if (!isTrustedSyncRequest(req)) {
+      console.error("Sync failed: Invalid or missing sync secret.");
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
     const { user, account } = req.body;
 
     if (
@@ -172,7 +197,15 @@ export const syncUser = async (req: Request, res: Response) => {
     console.log(
       `--- User sync completed successfully for user email: ${user.email} ---`
     );
-    res.status(200).json({ success: true, userId: dbUser.id });
+    // APIの認証に使うセッションを発行する
+    const session = await createSession(dbUser.id);
+
+    res.status(200).json({
+      success: true,
+      userId: dbUser.id,
+      sessionToken: session.sessionToken,
+      expires: session.expires,
+    });
   } catch (error) {
     console.error("--- Error during user sync ---");
     console.error("Request body:", JSON.stringify(req.body, null, 2));
@@ -184,8 +217,12 @@ export const syncUser = async (req: Request, res: Response) => {
   }
 };
 
-// テストユーザー用の簡単なログイン機能
+// テストユーザー用の簡単なログイン機能（固定のパスワードでセッションを発行するため、本番環境では使えない）
 export const testLogin = async (req: Request, res: Response) => {
+  if (process.env.NODE_ENV === "production") {
+    return res.status(404).json({ error: "Not Found" });
+  }
+
   console.log("--- Starting test user login ---");
   console.log("Received credentials:", { email: req.body.email });
 
@@ -227,6 +264,7 @@ export const testLogin = async (req: Request, res: Response) => {
         tag: true,
         goal: true,
         affiliation: true,
+        role: true,
       },
     });
 
@@ -235,6 +273,8 @@ export const testLogin = async (req: Request, res: Response) => {
       return res.status(401).json({ error: "User not found" });
     }
 
+    const session = await createSession(user.id);
+
     console.log(`--- Test user login successful for: ${user.email} ---`);
     res.status(200).json({
       success: true,
@@ -243,7 +283,10 @@ export const testLogin = async (req: Request, res: Response) => {
         email: user.email,
         name: user.name,
         image: user.image,
+        role: user.role,
       },
+      sessionToken: session.sessionToken,
+      expires: session.expires,
     });
   } catch (error) {
     console.error("--- Error during test user login ---");
@@ -254,3 +297,50 @@ export const testLogin = async (req: Request, res: Response) => {
     });
   }
 };
+
+// ログイン中のユーザー情報を取得する（authenticate ミドルウェアの後に使う）
+export const getCurrentUser = async (req: Request, res: Response) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        image: true,
+        lineId: true,
+        role: true,
+      },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    res.status(200).json({ success: true, user });
+  } catch (error) {
+    console.error("Error fetching current user:", error);
+    res.status(500).json({
+      error: "Failed to fetch current user",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+// ログアウト（セッションを削除する）
+export const logout = async (req: Request, res: Response) => {
+  try {
+    const token = getBearerToken(req);
+    if (token) {
+      await deleteSession(token);
+    }
+
+    res.status(200).json({ success: true });
+  } catch (error) {
+    console.error("Error during logout:", error);
+    res.status(500).json({
+      error: "Failed to logout",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
@@ -1,13 +1,17 @@
 import { Request, Response, RequestHandler } from "express";
 import prisma from "../config/prisma";
 import crypto from "crypto";
+import { resolveCanonicalEventId } from "../services/eventDedupService";
+import { removeBookmarkForEvent } from "../services/bookmarkService";
 
 // ブックマークの追加
 export const addBookmark: RequestHandler = async (req, res) => {
   try {
     // デバッグ用: リクエストbodyを出力
     console.log("addBookmark req.body:", req.body);
-    const { userId, eventId } = req.body;
+    const { userId } = req.body;
+    // 重複として統合されたイベントは代表のイベントをブックマークする
+    const eventId = await resolveCanonicalEventId(req.body.eventId);
 
     // すでに存在するか確認
     const existing = await prisma.bookmark.findUnique({
@@ -66,14 +70,11 @@ export const removeBookmark: RequestHandler = async (req, res) => {
   try {
     const { userId, eventId } = req.params;
 
-    await prisma.bookmark.delete({
-      where: {
-        userId_eventId: {
-          userId,
-          eventId,
-        },
-      },
-    });
+    const count = await removeBookmarkForEvent(userId, eventId);
+    if (count === 0) {
+      res.status(404).json({ error: "Bookmark not found" });
+      return;
+    }
 
     res.status(200).json({ message: "Bookmark removed successfully" });
     return;
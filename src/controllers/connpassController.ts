@@ -3,8 +3,8 @@ import { RequestHandler } from "express";
 import {
   fetchConnpassEventsV2,
   ConnpassSearchParamsV2,
-  fetchAndSaveLatestEvents,
 } from "../services/connpassService";
+import { getRunningSyncRun, startSyncRun } from "../services/syncRunService";
 import dotenv from "dotenv";
 
 // 環境変数の読み込み
@@ -260,6 +260,7 @@ export const getUpcomingConnpassEvents: RequestHandler = async (
 
 /**
  * 今後開催されるConnpassイベントを同期する
+ * 同期はバックグラウンドで実行し、結果は GET /api/sync/runs/:id で確認する
  * @param req リクエスト
  * @param res レスポンス
  */
@@ -271,8 +272,16 @@ export const syncUpcomingConnpassEvents: RequestHandler = async (req, res) => {
         .json({ success: false, message: "CONNPASS_API_KEY not set" });
       return;
     }
-    const { fetched, saved } = await fetchAndSaveLatestEvents(CONNPASS_API_KEY);
-    res.json({ success: true, fetched, saved });
+    const run = await startSyncRun("connpass", { mode: "latest" });
+    if (!run) {
+      res.status(409).json({
+        success: false,
+        message: "connpassの同期は実行中です",
+        data: await getRunningSyncRun("connpass"),
+      });
+      return;
+    }
+    res.status(202).json({ success: true, data: run });
     return;
   } catch (error) {
     console.error("syncUpcomingConnpassEvents error", error);
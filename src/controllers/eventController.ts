@@ -5,59 +5,96 @@ import { Prisma } from "@prisma/client";
 import { recommendEventsByHyDE } from "../utils/recommendEvents";
 import crypto from "crypto";
 import { extractEventKeyData } from "../utils/extractEventKeyData";
+import { canManageOrganization } from "../services/organizationService";
+import {
+  EventPageOptions,
+  eventListSelect,
+  findEventPage,
+  parseEventPageQuery,
+} from "../utils/eventPagination";
+import {
+  buildEventWhere,
+  parseEventFilterQuery,
+} from "../utils/eventQueryBuilder";
+import { searchEventsByText } from "../services/eventSearchService";
+import { indexEvents } from "../services/eventIndexService";
+import {
+  DEFAULT_SEMANTIC_SEARCH_LIMIT,
+  MAX_SEMANTIC_SEARCH_LIMIT,
+  findSimilarEventIdsWithFilter,
+} from "../services/eventEmbeddingService";
+import {
+  DEFAULT_SIMILAR_EVENT_LIMIT,
+  MAX_SIMILAR_EVENT_LIMIT,
+  findSimilarEventsByCoBookmark,
+} from "../services/coBookmarkService";
+import {
+  deduplicateEvents,
+  parseDedupOptions,
+} from "../services/eventDedupService";
 
+/**
+ * ページング・並び替えの指定を取り出す
+ * 不正な値の場合は 400 を返して null を返す
+ */
+const getEventPageOptions = (
+  req: Request,
+  res: Response
+): EventPageOptions | null => {
+  try {
+    return parseEventPageQuery(req.query);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+};
+
+/**
+ * クエリパラメータから検索条件を組み立てる
+ * 不正な値の場合は 400 を返して null を返す
+ */
+const getEventWhere = (
+  req: Request,
+  res: Response
+): Prisma.EventWhereInput | null => {
+  try {
+    return buildEventWhere(parseEventFilterQuery(req.query));
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+};
+
+/**
+ * イベント一覧API
+ * 絞り込み条件は searchEvents と同じ（eventType は日本語表記も可）
+ * query: limit, cursor, sort（eventDate / createdAt / price / bookmarks）, order, view（list / full）
+ */
 export const getEvents: RequestHandler = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
   try {
-    // クエリパラメータからイベントタイプを取得
-    const { eventType } = req.query;
-
-    // フィルタリング条件を構築
-    const where: any = {};
-
-    // イベントタイプが指定されている場合、フィルタ条件に追加
-    if (eventType && eventType !== "すべて") {
-      // 日本語からEnum値へのマッピング
-      const eventTypeMapping: Record<string, string> = {
-        ハッカソン: "HACKATHON",
-        ワークショップ: "WORKSHOP",
-        コンテスト: "CONTEST",
-        LT会: "LIGHTNING_TALK",
-      };
-
-      // マッピングされた値があればそれを使用、なければそのまま使用
-      const eventTypeValue = eventTypeMapping[eventType as string] || eventType;
-      where.eventType = eventTypeValue;
-    }
+    const pageOptions = getEventPageOptions(req, res);
+    if (!pageOptions) return;
 
-    const events = await prisma.event.findMany({
-      where,
-      include: {
-        Organization: true,
-        EventSkill: true,
-        EventSpeaker: {
-          include: {
-            Speaker: true,
-          },
-        },
-        EventCategory: {
-          include: {
-            Category: true,
-          },
-        },
-      },
-      orderBy: {
-        eventDate: "asc",
-      },
-    });
+    const where = getEventWhere(req, res);
+    if (!where) return;
+
+    const { events, pagination } = await findEventPage(where, pageOptions);
 
     // フロントエンドの要件に合わせたレスポンス形式
     res.status(200).json({
       success: true,
       data: events,
+      pagination,
     });
   } catch (error) {
     console.error("イベント一覧取得エラー:", error);
@@ -73,10 +110,17 @@ export const getEventById: RequestHandler = async (req, res, next) => {
   try {
     const { id } = req.params;
 
-    // イベント詳細をリレーションデータも含めて取得
-    const event = await prisma.event.findUnique({
+    // 重複として統合されたイベントは代表のイベントを返す
+    const merged = await prisma.event.findUnique({
       where: { id },
+      select: { mergedIntoId: true },
+    });
+
+    // イベント詳細をリレーションデータ・取り込み元ごとの掲載も含めて取得
+    const event = await prisma.event.findUnique({
+      where: { id: merged?.mergedIntoId ?? id },
       include: {
+        EventListing: true,
         Organization: true,
         EventSkill: true,
         EventSpeaker: {
@@ -118,6 +162,15 @@ export const getEventById: RequestHandler = async (req, res, next) => {
 
 export const createEvent: RequestHandler = async (req, res, next) => {
   try {
+    // 主催者は所属する団体のイベントのみ作成できる
+    if (!(await canManageOrganization(req.user, req.body.organizationId))) {
+      res.status(403).json({
+        success: false,
+        message: "この主催団体のイベントを作成する権限がありません",
+      });
+      return;
+    }
+
     // 説明文からキーデータ抽出
     const { keywords, keyPhrases, keySentences } = await extractEventKeyData(
       req.body.description || ""
@@ -180,6 +233,8 @@ export const createEvent: RequestHandler = async (req, res, next) => {
         },
       },
     });
+    await indexEvents([event.id]);
+
     res.json(event);
   } catch (error) {
     next(error);
@@ -187,140 +242,171 @@ export const createEvent: RequestHandler = async (req, res, next) => {
 };
 
 /**
- * イベント検索API
- * 複数の検索条件に対応し、条件に合致するイベントを返す
+ * 意味検索API
+ * q の埋め込みベクトルに近い順にイベントを返す（pgvector による最近傍探索）
+ * 絞り込み条件は searchEvents と同じ
+ * query: q（必須）, limit
  */
-export const searchEvents: RequestHandler = async (req, res, next) => {
+export const semanticSearchEvents: RequestHandler = async (req, res, next) => {
   try {
-    const {
-      keyword, // タイトルや説明文のキーワード検索
-      startDate, // 開始日
-      endDate, // 終了日
-      categories, // カテゴリID（複数可）
-      skills, // スキル名（複数可）
-      location, // 開催場所
-      organizationId, // 主催団体ID
-      keywords, // キーワード配列（Event.keywords TEXT[]）
-      keyPhrases, // キーフレーズ配列（Event.keyPhrases TEXT[]）
-      keySentences, // キーセンテンス配列（Event.keySentences TEXT[]）
-    } = req.query;
-
-    // 検索条件を構築
-    const where: Prisma.EventWhereInput = {};
-
-    // キーワード検索（タイトルまたは説明文に含まれる）
-    if (keyword && typeof keyword === "string") {
-      where.OR = [
-        { title: { contains: keyword, mode: "insensitive" } },
-        { description: { contains: keyword, mode: "insensitive" } },
-      ];
+    const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+    if (!q) {
+      res.status(400).json({
+        success: false,
+        message: "q は必須です",
+      });
+      return;
     }
 
-    // 日付範囲検索
-    if (startDate || endDate) {
-      where.eventDate = {};
+    const limit =
+      req.query.limit === undefined
+        ? DEFAULT_SEMANTIC_SEARCH_LIMIT
+        : Number(req.query.limit);
+    if (
+      !Number.isInteger(limit) ||
+      limit < 1 ||
+      limit > MAX_SEMANTIC_SEARCH_LIMIT
+    ) {
+      res.status(400).json({
+        success: false,
+        message: `limit は1〜${MAX_SEMANTIC_SEARCH_LIMIT}の整数で指定してください`,
+      });
+      return;
+    }
 
-      if (startDate && typeof startDate === "string") {
-        where.eventDate.gte = new Date(startDate);
-      }
+    const where = getEventWhere(req, res);
+    if (!where) return;
 
-      if (endDate && typeof endDate === "string") {
-        where.eventDate.lte = new Date(endDate);
-      }
-    }
+    const similar = await findSimilarEventIdsWithFilter(q, where, limit);
+    const events = await prisma.event.findMany({
+      where: { id: { in: similar.map((item) => item.id) } },
+      select: eventListSelect,
+    });
+    const eventMap = new Map(events.map((event) => [event.id, event]));
 
-    // 開催場所検索
-    if (location && typeof location === "string") {
-      where.OR = [
-        ...(where.OR || []),
-        { venue: { contains: location, mode: "insensitive" } },
-        { address: { contains: location, mode: "insensitive" } },
-        { location: { contains: location, mode: "insensitive" } },
-      ];
-    }
+    // 類似度の高い順に並べて類似度を付ける
+    const data = similar
+      .filter((item) => eventMap.has(item.id))
+      .map((item) => ({
+        ...eventMap.get(item.id),
+        similarity: item.similarity,
+      }));
 
-    // 主催団体検索
-    if (organizationId && typeof organizationId === "string") {
-      where.organizationId = organizationId;
-    }
+    res.status(200).json({
+      success: true,
+      data,
+      count: data.length,
+    });
+  } catch (error) {
+    console.error("意味検索エラー:", error);
+    res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "意味検索中にエラーが発生しました",
+    });
+  }
+};
 
-    // カテゴリ検索（複数指定可能）
-    if (categories) {
-      const categoryIds = Array.isArray(categories) ? categories : [categories];
+/**
+ * 類似イベントAPI
+ * 指定したイベントをブックマークしたユーザーが、他にブックマークしている開催予定のイベントを返す
+ * （一緒にブックマークされることの多い順）
+ * 統合されたイベントを指定した場合は、ブックマークをまとめた代表のイベントを基準にする
+ * query: limit
+ */
+export const getSimilarEvents: RequestHandler = async (req, res, next) => {
+  try {
+    const limit =
+      req.query.limit === undefined
+        ? DEFAULT_SIMILAR_EVENT_LIMIT
+        : Number(req.query.limit);
+    if (
+      !Number.isInteger(limit) ||
+      limit < 1 ||
+      limit > MAX_SIMILAR_EVENT_LIMIT
+    ) {
+      res.status(400).json({
+        success: false,
+        message: `limit は1〜${MAX_SIMILAR_EVENT_LIMIT}の整数で指定してください`,
+      });
+      return;
+    }
 
-      if (categoryIds.length > 0) {
-        where.EventCategory = {
-          some: {
-            categoryId: { in: categoryIds as string[] },
-          },
-        };
-      }
+    const event = await prisma.event.findUnique({
+      where: { id: req.params.id },
+      select: { id: true, mergedIntoId: true },
+    });
+    if (!event) {
+      res.status(404).json({
+        success: false,
+        error: "Event not found",
+        message: "指定されたイベントが見つかりませんでした",
+      });
+      return;
     }
 
-    // スキル検索（複数指定可能）
-    if (skills) {
-      const skillNames = Array.isArray(skills) ? skills : [skills];
+    const similar = await findSimilarEventsByCoBookmark(
+      event.mergedIntoId ?? event.id,
+      limit
+    );
+    const events = await prisma.event.findMany({
+      where: { id: { in: similar.map((item) => item.id) } },
+      select: eventListSelect,
+    });
+    const eventMap = new Map(events.map((e) => [e.id, e]));
 
-      if (skillNames.length > 0) {
-        where.EventSkill = {
-          some: {
-            name: { in: skillNames as string[] },
-          },
-        };
-      }
-    }
+    // 類似度の高い順に並べて類似度と共起ブックマーク数を付ける
+    const data = similar
+      .filter((item) => eventMap.has(item.id))
+      .map((item) => ({
+        ...eventMap.get(item.id),
+        similarity: item.score,
+        coBookmarkCount: item.coBookmarkCount,
+      }));
 
-    // keywords 配列のフィルタ
-    if (keywords) {
-      const kwArr = (Array.isArray(keywords) ? keywords : [keywords]).map(
-        String
-      );
-      where.keywords = { hasSome: kwArr };
-    }
+    res.status(200).json({
+      success: true,
+      data,
+      count: data.length,
+    });
+  } catch (error) {
+    console.error("類似イベント取得エラー:", error);
+    res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "類似イベントの取得中にエラーが発生しました",
+    });
+  }
+};
 
-    // keyPhrases 配列のフィルタ
-    if (keyPhrases) {
-      const kpArr = (Array.isArray(keyPhrases) ? keyPhrases : [keyPhrases]).map(
-        String
-      );
-      where.keyPhrases = { hasSome: kpArr };
-    }
+/**
+ * イベント検索API
+ * 複数の検索条件に対応し、すべての条件に合致するイベントを返す
+ * q を指定すると全文検索を行い、関連度順（sort=relevance）でスコアとスニペットを付けて返す
+ * query: q, keyword, startDate, endDate, categories, skills, location, format, difficulty,
+ *        eventType, minPrice, maxPrice, organizationId, keywords, keyPhrases, keySentences
+ * ページング・並び替えの指定は getEvents と同じ
+ */
+export const searchEvents: RequestHandler = async (req, res, next) => {
+  try {
+    const pageOptions = getEventPageOptions(req, res);
+    if (!pageOptions) return;
 
-    // keySentences 配列のフィルタ
-    if (keySentences) {
-      const ksArr = (
-        Array.isArray(keySentences) ? keySentences : [keySentences]
-      ).map(String);
-      where.keySentences = { hasSome: ksArr };
-    }
+    const where = getEventWhere(req, res);
+    if (!where) return;
 
     // イベントを検索
-    const events = await prisma.event.findMany({
-      where,
-      include: {
-        Organization: true,
-        EventSkill: true,
-        EventSpeaker: {
-          include: {
-            Speaker: true,
-          },
-        },
-        EventCategory: {
-          include: {
-            Category: true,
-          },
-        },
-      },
-      orderBy: {
-        eventDate: "asc",
-      },
-    });
+    const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+    const { events, pagination } = q
+      ? await searchEventsByText(q, where, pageOptions)
+      : await findEventPage(where, pageOptions);
 
     // フロントエンドの要件に合わせたレスポンス形式
     res.status(200).json({
       success: true,
       data: events,
       count: events.length,
+      pagination,
     });
   } catch (error) {
     console.error("イベント検索エラー:", error);
@@ -360,6 +446,27 @@ export const updateEvent: RequestHandler = async (req, res, next) => {
       return;
     }
 
+    // 主催者は所属する団体のイベントのみ編集でき、他の団体へ移すこともできない
+    if (
+      !(await canManageOrganization(req.user, existingEvent.organizationId)) ||
+      (req.body.organizationId !== undefined &&
+        !(await canManageOrganization(req.user, req.body.organizationId)))
+    ) {
+      res.status(403).json({
+        success: false,
+        message: "このイベントを編集する権限がありません",
+      });
+      return;
+    }
+
+    // 説明文が変わった場合はキーデータを抽出し直す（LLM を呼ぶためトランザクションの外で行う）
+    const descriptionChanged =
+      req.body.description !== undefined &&
+      req.body.description !== existingEvent.description;
+    const keyData = descriptionChanged
+      ? await extractEventKeyData(req.body.description || "")
+      : null;
+
     // トランザクション内で関連データも含めて更新
     const updatedEvent = await prisma.$transaction(async (prismaClient) => {
       // 1. 既存の関連データを削除（スキル、カテゴリ、スピーカー）
@@ -414,6 +521,11 @@ export const updateEvent: RequestHandler = async (req, res, next) => {
         }
       });
 
+      // 取り込み元の次回の同期でキーデータを抽出し直すよう、説明文のハッシュも消す
+      if (keyData) {
+        Object.assign(eventUpdateData, keyData, { descriptionHash: null });
+      }
+
       // 3. 関連データの作成準備
       const createData: any = {};
 
@@ -470,6 +582,9 @@ export const updateEvent: RequestHandler = async (req, res, next) => {
       });
     });
 
+    // タイトル・説明文などの変更を全文検索用テキストと埋め込みベクトルに反映する
+    await indexEvents([id]);
+
     // 成功レスポンスを返す
     res.status(200).json({
       success: true,
@@ -485,3 +600,80 @@ export const updateEvent: RequestHandler = async (req, res, next) => {
     });
   }
 };
+
+/**
+ * イベント削除API
+ * 管理者と、イベントの主催団体に所属する主催者のみ削除できる
+ */
+export const deleteEvent: RequestHandler = async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const existingEvent = await prisma.event.findUnique({ where: { id } });
+
+    if (!existingEvent) {
+      res.status(404).json({
+        success: false,
+        error: "Event not found",
+        message: "削除対象のイベントが見つかりませんでした",
+      });
+      return;
+    }
+
+    if (
+      !(await canManageOrganization(req.user, existingEvent.organizationId))
+    ) {
+      res.status(403).json({
+        success: false,
+        message: "このイベントを削除する権限がありません",
+      });
+      return;
+    }
+
+    // スキル・カテゴリ・ブックマークなどの関連データはカスケード削除される
+    await prisma.event.delete({ where: { id } });
+
+    res.status(200).json({
+      success: true,
+      message: "イベントが正常に削除されました",
+    });
+  } catch (error) {
+    console.error("イベント削除エラー:", error);
+    res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "イベント削除中にエラーが発生しました",
+    });
+  }
+};
+
+/**
+ * 取り込み元をまたいだ重複イベントを判定し、代表のイベントに統合するコントローラー（管理者のみ）
+ * ボディ: fromDate（対象にする開催日の始まり）, dryRun（true の場合は判定のみ）
+ */
+export const mergeDuplicateEvents: RequestHandler = async (req, res) => {
+  try {
+    let options;
+    try {
+      options = parseDedupOptions(req.body);
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: await deduplicateEvents(options),
+    });
+  } catch (error) {
+    console.error("重複イベントの統合に失敗しました:", error);
+    res.status(500).json({
+      success: false,
+      message: "重複イベントの統合に失敗しました",
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
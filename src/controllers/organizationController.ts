@@ -0,0 +1,433 @@
+import { Request, Response, RequestHandler } from "express";
+import { Prisma } from "@prisma/client";
+import prisma from "../config/prisma";
+import {
+  canManageOrganization,
+  addOrganizationMember,
+  removeOrganizationMember,
+} from "../services/organizationService";
+import { eventListSelect } from "../utils/eventPagination";
+
+// 作成・更新できる主催団体の項目
+const organizationFields = ["name", "description", "website", "email"];
+
+// リクエストボディから主催団体の項目のみを取り出す
+const pickOrganizationData = (body: any) => {
+  const data: any = {};
+  organizationFields.forEach((field) => {
+    if (body[field] !== undefined) {
+      data[field] = body[field];
+    }
+  });
+  return data;
+};
+
+// 主催団体のイベント一覧で、開催予定・開催済みそれぞれに返す件数のデフォルトと上限
+const DEFAULT_ORGANIZATION_EVENTS_LIMIT = 20;
+const MAX_ORGANIZATION_EVENTS_LIMIT = 100;
+
+/**
+ * 主催団体一覧を取得するコントローラー
+ * query: keyword（団体名の部分一致）, source（取り込み元）
+ */
+export const listOrganizations: RequestHandler = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const { keyword, source } = req.query;
+
+    const where: Prisma.OrganizationWhereInput = {};
+    if (keyword && typeof keyword === "string") {
+      where.name = { contains: keyword, mode: "insensitive" };
+    }
+    if (source && typeof source === "string") {
+      where.source = source;
+    }
+
+    const organizations = await prisma.organization.findMany({
+      where,
+      include: {
+        _count: {
+          select: { Event: true },
+        },
+      },
+      orderBy: {
+        name: "asc",
+      },
+    });
+
+    res.status(200).json({
+      success: true,
+      data: organizations,
+      count: organizations.length,
+    });
+  } catch (error) {
+    console.error("主催団体一覧取得エラー:", error);
+    res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "主催団体一覧の取得中にエラーが発生しました",
+    });
+  }
+};
+
+/**
+ * 主催団体の詳細を取得するコントローラー
+ * 開催予定のイベント数を含めて返す
+ */
+export const getOrganization: RequestHandler = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const { id } = req.params;
+
+    const organization = await prisma.organization.findUnique({
+      where: { id },
+      include: {
+        _count: {
+          select: { Event: true },
+        },
+      },
+    });
+
+    if (!organization) {
+      res.status(404).json({
+        success: false,
+        message: "主催団体が見つかりません",
+      });
+      return;
+    }
+
+    const upcomingEventCount = await prisma.event.count({
+      where: {
+        organizationId: id,
+        mergedIntoId: null,
+        eventDate: { gte: new Date() },
+      },
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...organization,
+        upcomingEventCount,
+      },
+    });
+  } catch (error) {
+    console.error("主催団体詳細取得エラー:", error);
+    res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "主催団体の取得中にエラーが発生しました",
+    });
+  }
+};
+
+/**
+ * 主催団体のイベント一覧を取得するコントローラー
+ * 開催予定（開催日の早い順）と開催済み（開催日の新しい順）に分けて返す
+ * query: limit（それぞれの最大件数）
+ */
+export const getOrganizationEvents: RequestHandler = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const { id } = req.params;
+
+    const limit = Math.min(
+      Math.max(
+        parseInt(String(req.query.limit), 10) ||
+          DEFAULT_ORGANIZATION_EVENTS_LIMIT,
+        1
+      ),
+      MAX_ORGANIZATION_EVENTS_LIMIT
+    );
+
+    const organization = await prisma.organization.findUnique({
+      where: { id },
+    });
+
+    if (!organization) {
+      res.status(404).json({
+        success: false,
+        message: "主催団体が見つかりません",
+      });
+      return;
+    }
+
+    const now = new Date();
+
+    const [upcoming, past, upcomingCount, pastCount] = await Promise.all([
+      prisma.event.findMany({
+        where: {
+          organizationId: id,
+          mergedIntoId: null,
+          eventDate: { gte: now },
+        },
+        select: eventListSelect,
+        orderBy: { eventDate: "asc" },
+        take: limit,
+      }),
+      prisma.event.findMany({
+        where: {
+          organizationId: id,
+          mergedIntoId: null,
+          eventDate: { lt: now },
+        },
+        select: eventListSelect,
+        orderBy: { eventDate: "desc" },
+        take: limit,
+      }),
+      prisma.event.count({
+        where: {
+          organizationId: id,
+          mergedIntoId: null,
+          eventDate: { gte: now },
+        },
+      }),
+      prisma.event.count({
+        where: {
+          organizationId: id,
+          mergedIntoId: null,
+          eventDate: { lt: now },
+        },
+      }),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        organization,
+        upcoming,
+        past,
+        upcomingCount,
+        pastCount,
+      },
+    });
+  } catch (error) {
+    console.error("主催団体イベント一覧取得エラー:", error);
+    res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "主催団体のイベント一覧の取得中にエラーが発生しました",
+    });
+  }
+};
+
+/**
+ * 主催団体を作成するコントローラー（管理者のみ）
+ */
+export const createOrganization: RequestHandler = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    if (!req.body.name) {
+      res.status(400).json({
+        success: false,
+        message: "name は必須です",
+      });
+      return;
+    }
+
+    const organization = await prisma.organization.create({
+      data: pickOrganizationData(req.body),
+    });
+
+    res.status(201).json({
+      success: true,
+      data: organization,
+      message: "主催団体が正常に作成されました",
+    });
+  } catch (error) {
+    console.error("主催団体作成エラー:", error);
+    res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "主催団体の作成中にエラーが発生しました",
+    });
+  }
+};
+
+/**
+ * 主催団体を更新するコントローラー
+ * 管理者と、その団体に所属する ORGANIZER のみ更新できる
+ */
+export const updateOrganization: RequestHandler = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const { id } = req.params;
+
+    if (!(await canManageOrganization(req.user, id))) {
+      res.status(403).json({
+        success: false,
+        message: "この主催団体を編集する権限がありません",
+      });
+      return;
+    }
+
+    const existing = await prisma.organization.findUnique({ where: { id } });
+    if (!existing) {
+      res.status(404).json({
+        success: false,
+        message: "主催団体が見つかりません",
+      });
+      return;
+    }
+
+    const organization = await prisma.organization.update({
+      where: { id },
+      data: pickOrganizationData(req.body),
+    });
+
+    res.status(200).json({
+      success: true,
+      data: organization,
+      message: "主催団体が正常に更新されました",
+    });
+  } catch (error) {
+    console.error("主催団体更新エラー:", error);
+    res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "主催団体の更新中にエラーが発生しました",
+    });
+  }
+};
+
+/**
+ * 主催団体を削除するコントローラー（管理者のみ）
+ * イベントが登録されている団体は削除できない
+ */
+export const deleteOrganization: RequestHandler = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.organization.findUnique({ where: { id } });
+    if (!existing) {
+      res.status(404).json({
+        success: false,
+        message: "主催団体が見つかりません",
+      });
+      return;
+    }
+
+    await prisma.organization.delete({ where: { id } });
+
+    res.status(200).json({
+      success: true,
+      message: "主催団体が正常に削除されました",
+    });
+  } catch (error) {
+    // Event.organizationId は onDelete: Restrict のため、イベントがあると外部キー制約エラーになる
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2003"
+    ) {
+      res.status(409).json({
+        success: false,
+        message:
+          "イベントが登録されている主催団体は削除できません。先にイベントを削除または移動してください",
+      });
+      return;
+    }
+
+    console.error("主催団体削除エラー:", error);
+    res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "主催団体の削除中にエラーが発生しました",
+    });
+  }
+};
+
+/**
+ * 主催団体にメンバー（ORGANIZER）を追加するコントローラー（管理者のみ）
+ * body: { userId }
+ */
+export const addMember: RequestHandler = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const { id } = req.params;
+    const { userId } = req.body;
+
+    if (!userId) {
+      res.status(400).json({
+        success: false,
+        message: "userId は必須です",
+      });
+      return;
+    }
+
+    const [organization, user] = await Promise.all([
+      prisma.organization.findUnique({ where: { id } }),
+      prisma.user.findUnique({ where: { id: userId } }),
+    ]);
+
+    if (!organization || !user) {
+      res.status(404).json({
+        success: false,
+        message: "主催団体またはユーザーが見つかりません",
+      });
+      return;
+    }
+
+    const member = await addOrganizationMember(id, userId);
+
+    res.status(201).json({
+      success: true,
+      data: member,
+    });
+  } catch (error) {
+    console.error("主催団体メンバー追加エラー:", error);
+    res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "主催団体メンバーの追加中にエラーが発生しました",
+    });
+  }
+};
+
+/**
+ * 主催団体からメンバーを削除するコントローラー（管理者のみ）
+ */
+export const removeMember: RequestHandler = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const { id, userId } = req.params;
+
+    const removed = await removeOrganizationMember(id, userId);
+
+    if (!removed) {
+      res.status(404).json({
+        success: false,
+        message: "指定されたメンバーが見つかりません",
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "主催団体メンバーを削除しました",
+    });
+  } catch (error) {
+    console.error("主催団体メンバー削除エラー:", error);
+    res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "主催団体メンバーの削除中にエラーが発生しました",
+    });
+  }
+};
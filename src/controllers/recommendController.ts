@@ -1,16 +1,50 @@
 import { RequestHandler } from "express";
+import {
+  RecommendationFeedback,
+  RecommendationSource,
+  UserRole,
+} from "@prisma/client";
 import { getUserWithDetailsById } from "../utils/userUtils";
-import { getAllEvents, getFilteredEvents } from "../utils/eventUtils";
+import { getAllEvents } from "../utils/eventUtils";
+import {
+  buildUserPlaceFilter,
+  EventFilterInput,
+} from "../utils/eventQueryBuilder";
 import {
-  recommendEventsWithKeyData,
+  runKeyDataRecommendation,
   RecommendedEvent,
-  EventKeyData,
+  toEventKeyData,
 } from "../utils/keyDataRecommendation";
+import {
+  buildUserRecommendationConstraints,
+  parseRecommendationConstraints,
+  RecommendationConstraints,
+  RecommendationConstraintsInput,
+} from "../utils/recommendationConstraints";
+import {
+  MAX_RECOMMENDATION_HISTORY_LIMIT,
+  DEFAULT_RECOMMENDATION_HISTORY_LIMIT,
+  findRecommendationItem,
+  getRecommendation,
+  getUserRecommendations,
+  saveRecommendation,
+  setRecommendationFeedback,
+} from "../services/recommendationService";
+import { computeCoBookmarkRankingForUser } from "../services/coBookmarkService";
+import {
+  getRecommendationCandidates,
+  parseRecommendationCandidateOptions,
+  RecommendationCandidateOptions,
+} from "../services/recommendationCandidateService";
 
 /**
  * POST /api/recommend/user
- * body: { userId }
+ * body: { userId, constraints?, candidates? }
  * ユーザーの興味タグごとにレコメンドを返す
+ * constraints（level, enforceLevel, goals, maxPrice, formats, strictFormat, skills, weights）は
+ * プロフィールから作った条件を上書きする
+ * candidates（horizonDays, includePast, excludeBookmarked, excludeDismissed, maxPerOrganizer）で
+ * 候補にするイベントの期間・除外・主催者ごとの上限を指定する
  */
 export const recommendByUser: RequestHandler = async (req, res, next) => {
   try {
@@ -38,26 +72,32 @@ export const recommendByUser: RequestHandler = async (req, res, next) => {
       return;
     }
 
-    // 場所・形式で直接DBクエリ
-    const locationRaw = (user.place || "").toString();
-    const locLower = locationRaw.toLowerCase();
-    const filterOpts: any = {};
-    if (locationRaw) {
-      if (locLower === "online") {
-        filterOpts.format = "ONLINE"; // Prisma enum への一致を想定
-      } else {
-        filterOpts.location = locationRaw;
-      }
+    // プロフィールのレベル・目標・スキルに、リクエストで指定した条件を上書きする
+    let constraints: RecommendationConstraints;
+    let candidateOptions: RecommendationCandidateOptions;
+    try {
+      constraints = parseRecommendationConstraints({
+        ...buildUserRecommendationConstraints(user),
+        ...req.body.constraints,
+      });
+      candidateOptions = parseRecommendationCandidateOptions(
+        req.body.candidates
+      );
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return;
     }
 
-    const events = await getFilteredEvents(filterOpts);
-    const eventKeyData: EventKeyData[] = events.map((ev: any) => ({
-      id: ev.id,
-      title: ev.title,
-      detail: ev.detail,
-      keyPhrases: ev.keyPhrases || [],
-      keySentences: ev.keySentences || [],
-    }));
+    // 場所・形式・期間で候補を取得（ブックマーク済み・興味なしのイベントは除く）
+    const events = await getRecommendationCandidates(
+      buildUserPlaceFilter(user.place),
+      candidateOptions,
+      user.id
+    );
+    const eventKeyData = toEventKeyData(events);
 
     console.log("eventKeyData", eventKeyData);
 
@@ -70,9 +110,31 @@ export const recommendByUser: RequestHandler = async (req, res, next) => {
       return;
     }
 
-    const results: { tag: string; recommendations: RecommendedEvent[] }[] = [];
+    // 同じイベントをブックマークした他のユーザーのブックマークもランキングに加える
+    const collaborativeRanking = await computeCoBookmarkRankingForUser(
+      user.id,
+      eventKeyData.map((ev) => ev.id)
+    );
+
+    const results: {
+      tag: string;
+      recommendationId: string | null;
+      recommendations: RecommendedEvent[];
+    }[] = [];
     for (const tag of tags) {
-      const recs = await recommendEventsWithKeyData(tag, eventKeyData);
+      const result = await runKeyDataRecommendation(tag, eventKeyData, {
+        collaborativeRanking,
+        constraints,
+        maxPerOrganizer: candidateOptions.maxPerOrganizer,
+      });
+      const recs = result.recommendations;
+      // 候補とスコアを保存（フィードバックの記録に recommendationId を使う）
+      const recommendationId = await saveRecommendation({
+        userId: user.id,
+        source: RecommendationSource.API_USER,
+        query: tag,
+        result,
+      });
       // event.idでDBイベント情報をマージ
       const eventMap = new Map(events.map((ev: any) => [ev.id, ev]));
       const enrichedRecs = recs.map((rec) => ({
@@ -82,7 +144,7 @@ export const recommendByUser: RequestHandler = async (req, res, next) => {
           ...rec.event,
         },
       }));
-      results.push({ tag, recommendations: enrichedRecs });
+      results.push({ tag, recommendationId, recommendations: enrichedRecs });
     }
 
     // 開発用ログ
@@ -102,8 +164,10 @@ export const recommendByUser: RequestHandler = async (req, res, next) => {
 
 /**
  * POST /api/recommend/message
- * body: { message, userId? }
+ * body: { message, userId?, constraints?, candidates? }
  * フリーテキスト（メッセージ）でレコメンドを返す
+ * constraints は recommendByUser と同じ（userId を指定した場合はプロフィールの条件を上書きする）
+ * candidates は recommendByUser と同じ
  */
 export const recommendByMessage: RequestHandler = async (req, res, next) => {
   try {
@@ -116,7 +180,8 @@ export const recommendByMessage: RequestHandler = async (req, res, next) => {
     }
 
     // ユーザーが指定されている場合のみユーザー情報を取得し、場所フィルタを適用
-    let filterOpts: any = {};
+    let filterOpts: EventFilterInput = {};
+    let profileConstraints: RecommendationConstraintsInput = {};
     if (userId) {
       const user = await getUserWithDetailsById(userId);
       if (!user) {
@@ -126,22 +191,37 @@ export const recommendByMessage: RequestHandler = async (req, res, next) => {
         return;
       }
 
-      const locRaw = (user.place || "").toString();
-      const locLower = locRaw.toLowerCase();
-      if (locRaw) {
-        if (locLower === "online") filterOpts.format = "ONLINE";
-        else filterOpts.location = locRaw;
-      }
+      filterOpts = buildUserPlaceFilter(user.place);
+      profileConstraints = buildUserRecommendationConstraints(user);
     }
-    const events = await getFilteredEvents(filterOpts);
 
-    const eventKeyData: EventKeyData[] = events.map((ev: any) => ({
-      id: ev.id,
-      title: ev.title,
-      detail: ev.detail,
-      keyPhrases: ev.keyPhrases || [],
-      keySentences: ev.keySentences || [],
-    }));
+    // プロフィールの条件に、リクエストで指定した条件を上書きする
+    let constraints: RecommendationConstraints;
+    let candidateOptions: RecommendationCandidateOptions;
+    try {
+      constraints = parseRecommendationConstraints({
+        ...profileConstraints,
+        ...req.body.constraints,
+      });
+      candidateOptions = parseRecommendationCandidateOptions(
+        req.body.candidates
+      );
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    // ユーザーがわかる場合はブックマーク済み・興味なしのイベントを候補から除く
+    const recommendUserId = userId || req.user?.id;
+    const events = await getRecommendationCandidates(
+      filterOpts,
+      candidateOptions,
+      recommendUserId
+    );
+    const eventKeyData = toEventKeyData(events);
 
     if (eventKeyData.length === 0) {
       res
@@ -158,10 +238,30 @@ export const recommendByMessage: RequestHandler = async (req, res, next) => {
       recommendInput = message + "・" + tags.join("・");
     }
 
-    const recommendations = await recommendEventsWithKeyData(
+    // ユーザーがわかる場合はブックマークによるランキングも加える
+    const collaborativeRanking = recommendUserId
+      ? await computeCoBookmarkRankingForUser(
+          recommendUserId,
+          eventKeyData.map((ev) => ev.id)
+        )
+      : [];
+
+    const result = await runKeyDataRecommendation(
       recommendInput,
-      eventKeyData
+      eventKeyData,
+      {
+        collaborativeRanking,
+        constraints,
+        maxPerOrganizer: candidateOptions.maxPerOrganizer,
+      }
     );
+    const recommendations = result.recommendations;
+    const recommendationId = await saveRecommendation({
+      userId: recommendUserId,
+      source: RecommendationSource.API_MESSAGE,
+      query: recommendInput,
+      result,
+    });
 
     // eventKeyDataをidでマージして、全イベント情報をeventに含める
     const eventMap = new Map(events.map((ev) => [ev.id, ev]));
@@ -176,6 +276,7 @@ export const recommendByMessage: RequestHandler = async (req, res, next) => {
     if (!enrichedRecommendations || enrichedRecommendations.length === 0) {
       res.status(200).json({
         query: recommendInput,
+        recommendationId,
         recommendations: [],
         message:
           "ご希望に合うイベントが見つかりませんでした。条件を変えて再度お試しください。",
@@ -193,6 +294,7 @@ export const recommendByMessage: RequestHandler = async (req, res, next) => {
 
     res.json({
       query: recommendInput,
+      recommendationId,
       recommendations: enrichedRecommendations,
     });
     return;
@@ -200,3 +302,120 @@ export const recommendByMessage: RequestHandler = async (req, res, next) => {
     next(err);
   }
 };
+
+/**
+ * GET /api/recommend/history
+ * query: limit
+ * ログイン中のユーザーのレコメンド履歴（表示したイベントと推薦理由・フィードバック）を返す
+ */
+export const getRecommendationHistory: RequestHandler = async (
+  req,
+  res,
+  next
+) => {
+  try {
+    const limit =
+      req.query.limit === undefined
+        ? DEFAULT_RECOMMENDATION_HISTORY_LIMIT
+        : Number(req.query.limit);
+    if (
+      !Number.isInteger(limit) ||
+      limit < 1 ||
+      limit > MAX_RECOMMENDATION_HISTORY_LIMIT
+    ) {
+      res.status(400).json({
+        success: false,
+        message: `limit は1〜${MAX_RECOMMENDATION_HISTORY_LIMIT}の整数で指定してください`,
+      });
+      return;
+    }
+
+    const recommendations = await getUserRecommendations(req.user.id, limit);
+    res.json({ success: true, data: recommendations });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * GET /api/recommend/:id
+ * レコメンドの候補（スコア・推薦理由・表示有無・フィードバック）を返す
+ * レコメンドを受けたユーザー本人と管理者のみ取得できる
+ */
+export const getRecommendationById: RequestHandler = async (req, res, next) => {
+  try {
+    const recommendation = await getRecommendation(req.params.id);
+    if (!recommendation) {
+      res
+        .status(404)
+        .json({ success: false, message: "レコメンドが見つかりません" });
+      return;
+    }
+
+    if (
+      recommendation.userId !== req.user.id &&
+      req.user.role !== UserRole.ADMIN
+    ) {
+      res.status(403).json({
+        success: false,
+        message: "他のユーザーのレコメンドは取得できません",
+      });
+      return;
+    }
+
+    res.json({ success: true, data: recommendation });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * POST /api/recommend/:id/feedback
+ * body: { eventId, feedback: "INTERESTED" | "NOT_INTERESTED" }
+ * レコメンドしたイベントへのフィードバック（興味あり・興味なし）を記録する
+ */
+export const submitRecommendationFeedback: RequestHandler = async (
+  req,
+  res,
+  next
+) => {
+  try {
+    const { eventId, feedback } = req.body;
+    if (!eventId) {
+      res.status(400).json({ success: false, message: "eventId は必須です" });
+      return;
+    }
+    if (!Object.values(RecommendationFeedback).includes(feedback)) {
+      res.status(400).json({
+        success: false,
+        message: `feedback は ${Object.values(RecommendationFeedback).join(
+          ", "
+        )} のいずれかを指定してください`,
+      });
+      return;
+    }
+
+    const item = await findRecommendationItem(req.params.id, eventId);
+    if (!item) {
+      res.status(404).json({
+        success: false,
+        message: "レコメンドまたは対象のイベントが見つかりません",
+      });
+      return;
+    }
+
+    // フィードバックはレコメンドを受けたユーザー本人のみ記録できる
+    if (item.Recommendation.userId !== req.user.id) {
+      res.status(403).json({
+        success: false,
+        message: "他のユーザーのレコメンドにはフィードバックできません",
+      });
+      return;
+    }
+
+    const updated = await setRecommendationFeedback(item.id, feedback);
+    res.json({ success: true, data: updated });
+  } catch (err) {
+    next(err);
+  }
+};
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction, RequestHandler } from "express";
 import prisma from "../config/prisma";
 import crypto from "crypto";
+import { canManageSpeaker } from "../services/organizationService";
 
 export const getSpeakers: RequestHandler = async (
   req: Request,
@@ -61,3 +62,91 @@ export const createSpeaker: RequestHandler = async (
     });
   }
 };
+
+export const updateSpeaker: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.speaker.findUnique({ where: { id } });
+    if (!existing) {
+      res.status(404).json({
+        success: false,
+        error: "Speaker not found",
+        message: "更新対象のスピーカーが見つかりませんでした",
+      });
+      return;
+    }
+
+    // 主催者は所属する団体のイベントにのみ登壇するスピーカーを更新できる
+    if (!(await canManageSpeaker(req.user, id))) {
+      res.status(403).json({
+        success: false,
+        message: "このスピーカーを更新する権限がありません",
+      });
+      return;
+    }
+
+    const speaker = await prisma.speaker.update({
+      where: { id },
+      data: {
+        name: req.body.name,
+        occupation: req.body.occupation,
+        affiliation: req.body.affiliation,
+        bio: req.body.bio,
+        updatedAt: new Date(), // 現在の日時
+      },
+    });
+
+    res.status(200).json({
+      success: true,
+      data: speaker,
+      message: "スピーカーが正常に更新されました",
+    });
+  } catch (error) {
+    console.error("スピーカー更新エラー:", error);
+    res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "スピーカーの更新中にエラーが発生しました",
+    });
+  }
+};
+
+export const deleteSpeaker: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.speaker.findUnique({ where: { id } });
+    if (!existing) {
+      res.status(404).json({
+        success: false,
+        error: "Speaker not found",
+        message: "削除対象のスピーカーが見つかりませんでした",
+      });
+      return;
+    }
+
+    // イベントとの紐付け（EventSpeaker）はカスケード削除される
+    await prisma.speaker.delete({ where: { id } });
+
+    res.status(200).json({
+      success: true,
+      message: "スピーカーが正常に削除されました",
+    });
+  } catch (error) {
+    console.error("スピーカー削除エラー:", error);
+    res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "スピーカーの削除中にエラーが発生しました",
+    });
+  }
+};
@@ -0,0 +1,153 @@
+import { Request, Response, RequestHandler } from "express";
+import { SyncRunStatus } from "@prisma/client";
+import {
+  SYNC_SOURCES,
+  SyncSource,
+  isSyncSource,
+  startSyncRun,
+  getRunningSyncRun,
+  listSyncRuns,
+  getSyncRunById,
+} from "../services/syncRunService";
+
+/**
+ * イベントの取り込み（同期）を開始するコントローラー
+ * 同期はバックグラウンドで実行し、開始した同期（SyncRun）を返す
+ * ボディ: 取り込み元ごとの同期の条件（connpass: mode, days）
+ */
+export const startSync: RequestHandler = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const { source } = req.params;
+
+    if (!isSyncSource(source)) {
+      res.status(404).json({
+        success: false,
+        message: `取り込み元は ${SYNC_SOURCES.join(
+          ", "
+        )} のいずれかを指定してください`,
+      });
+      return;
+    }
+
+    let run;
+    try {
+      run = await startSyncRun(source, req.body);
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    if (!run) {
+      res.status(409).json({
+        success: false,
+        message: `${source}の同期は実行中です`,
+        data: await getRunningSyncRun(source),
+      });
+      return;
+    }
+
+    res.status(202).json({
+      success: true,
+      data: run,
+    });
+  } catch (error) {
+    console.error("同期の開始に失敗しました:", error);
+    res.status(500).json({
+      success: false,
+      message: "同期の開始に失敗しました",
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+/**
+ * 同期の実行履歴を取得するコントローラー
+ * クエリ: source, status, limit
+ */
+export const getSyncRuns: RequestHandler = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const { source, status, limit } = req.query;
+
+    if (source && !isSyncSource(source as string)) {
+      res.status(400).json({
+        success: false,
+        message: `source は ${SYNC_SOURCES.join(
+          ", "
+        )} のいずれかを指定してください`,
+      });
+      return;
+    }
+
+    if (
+      status &&
+      !Object.values(SyncRunStatus).includes(status as SyncRunStatus)
+    ) {
+      res.status(400).json({
+        success: false,
+        message: `status は ${Object.values(SyncRunStatus).join(
+          ", "
+        )} のいずれかを指定してください`,
+      });
+      return;
+    }
+
+    const runs = await listSyncRuns({
+      source: source as SyncSource | undefined,
+      status: status as SyncRunStatus | undefined,
+      limit: limit ? Math.min(parseInt(limit as string, 10) || 50, 200) : 50,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: runs,
+    });
+  } catch (error) {
+    console.error("同期の実行履歴の取得に失敗しました:", error);
+    res.status(500).json({
+      success: false,
+      message: "同期の実行履歴の取得に失敗しました",
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+/**
+ * 同期の詳細（件数・イベントごとのエラーを含む）を取得するコントローラー
+ */
+export const getSyncRun: RequestHandler = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const run = await getSyncRunById(req.params.id);
+
+    if (!run) {
+      res.status(404).json({
+        success: false,
+        message: "指定された同期が見つかりません",
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: run,
+    });
+  } catch (error) {
+    console.error("同期の取得に失敗しました:", error);
+    res.status(500).json({
+      success: false,
+      message: "同期の取得に失敗しました",
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
@@ -2,6 +2,13 @@ import { Request, Response, NextFunction, RequestHandler } from "express";
 import prisma from "../config/prisma";
 import axios from "axios";
 import crypto from "crypto";
+import {
+  getReminderPreferences,
+  getUpcomingBookmarkedEvents,
+  updateReminderPreferences,
+} from "../services/reminderService";
+import { ReminderSettingsError } from "../utils/reminderUtils";
+import { createSession } from "../services/sessionService";
 
 /**
  * LINEログイン処理
@@ -74,14 +81,7 @@ export const lineLogin: RequestHandler = async (req, res, next) => {
     }
 
     // セッション情報を保存
-    const session = await prisma.session.create({
-      data: {
-        id: crypto.randomUUID(),
-        userId: user.id,
-        expires: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30日間有効
-        sessionToken: crypto.randomUUID(),
-      },
-    });
+    const session = await createSession(user.id); // 30日間有効
 
     // アカウント情報を保存
     await prisma.account.upsert({
@@ -158,6 +158,8 @@ export const getUserProfile: RequestHandler = async (req, res, next) => {
         tag: true,
         goal: true,
         affiliation: true,
+        remindersEnabled: true,
+        reminderOffsetsMinutes: true,
       },
     });
 
@@ -217,6 +219,8 @@ export const updateUserProfile: RequestHandler = async (req, res, next) => {
         tag: true,
         goal: true,
         affiliation: true,
+        remindersEnabled: true,
+        reminderOffsetsMinutes: true,
       },
     });
 
@@ -232,3 +236,143 @@ export const updateUserProfile: RequestHandler = async (req, res, next) => {
     });
   }
 };
+
+/**
+ * ユーザーのリマインド設定を取得する
+ */
+export const getUserReminderSettings: RequestHandler = async (req, res) => {
+  try {
+    const { userId } = req.params;
+
+    const preferences = await getReminderPreferences(userId);
+
+    if (!preferences) {
+      res.status(404).json({
+        success: false,
+        message: "ユーザーが見つかりません",
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: preferences,
+    });
+  } catch (error) {
+    console.error("リマインド設定取得エラー:", error);
+    res.status(500).json({
+      success: false,
+      message: "リマインド設定の取得中にエラーが発生しました",
+    });
+  }
+};
+
+/**
+ * ユーザーのリマインド設定を更新する
+ * body: { remindersEnabled?: boolean, reminderOffsetsMinutes?: number[] }
+ */
+export const updateUserReminderSettings: RequestHandler = async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const { remindersEnabled, reminderOffsetsMinutes } = req.body;
+
+    if (
+      remindersEnabled !== undefined &&
+      typeof remindersEnabled !== "boolean"
+    ) {
+      res.status(400).json({
+        success: false,
+        message: "remindersEnabled は真偽値で指定してください",
+      });
+      return;
+    }
+
+    if (
+      reminderOffsetsMinutes !== undefined &&
+      !Array.isArray(reminderOffsetsMinutes)
+    ) {
+      res.status(400).json({
+        success: false,
+        message: "reminderOffsetsMinutes は数値の配列で指定してください",
+      });
+      return;
+    }
+
+    const existing = await getReminderPreferences(userId);
+    if (!existing) {
+      res.status(404).json({
+        success: false,
+        message: "ユーザーが見つかりません",
+      });
+      return;
+    }
+
+    let preferences;
+    try {
+      preferences = await updateReminderPreferences(userId, {
+        remindersEnabled,
+        reminderOffsetsMinutes,
+      });
+    } catch (error) {
+      if (error instanceof ReminderSettingsError) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+      throw error;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: preferences,
+    });
+  } catch (error) {
+    console.error("リマインド設定更新エラー:", error);
+    res.status(500).json({
+      success: false,
+      message: "リマインド設定の更新中にエラーが発生しました",
+    });
+  }
+};
+
+/**
+ * ユーザーがブックマークした開催予定のイベントと次回のリマインド日時を取得する
+ * クエリ: days（何日先までを対象にするか、デフォルト7日）
+ */
+export const getUserUpcomingReminders: RequestHandler = async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const days = req.query.days ? parseInt(req.query.days as string, 10) : 7;
+
+    if (!Number.isInteger(days) || days <= 0) {
+      res.status(400).json({
+        success: false,
+        message: "days は1以上の整数で指定してください",
+      });
+      return;
+    }
+
+    const upcoming = await getUpcomingBookmarkedEvents(userId, days * 24 * 60);
+
+    if (!upcoming) {
+      res.status(404).json({
+        success: false,
+        message: "ユーザーが見つかりません",
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: upcoming,
+    });
+  } catch (error) {
+    console.error("開催予定のイベント取得エラー:", error);
+    res.status(500).json({
+      success: false,
+      message: "開催予定のイベントの取得中にエラーが発生しました",
+    });
+  }
+};
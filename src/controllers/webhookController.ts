@@ -1,11 +1,16 @@
 import { Request, Response, RequestHandler } from "express";
 import {
-  sendLineNotificationToUser,
-  sendEventCarouselToUser,
-  sendEventCarouselByTagsToUser,
+  EventFormat,
+  RecommendationFeedback,
+  RecommendationSource,
+} from "@prisma/client";
+import {
+  buildEventCarouselMessages,
+  buildEventCarouselByTagsMessages,
+  createLineResponder,
+  LineResponder,
   addBookmarkFromLine,
   processLineAuthentication,
-  sendEventReminders,
 } from "../services/lineService";
 import {
   recommendEventsByHyDE,
@@ -15,20 +20,58 @@ import { processRagQuery } from "../services/ragService";
 import { getUserByLineId, getUserWithDetailsById } from "../utils/userUtils";
 import { recommendEventsByQuery } from "../utils/queryRecommendation";
 import prisma from "../config/prisma"; // ★ Prisma Client をインポート
-import { getFilteredEvents } from "../utils/eventUtils";
-import { recommendEventsWithKeyData } from "../utils/keyDataRecommendation";
+import { buildUserPlaceFilter } from "../utils/eventQueryBuilder";
+import {
+  runKeyDataRecommendation,
+  toEventKeyData,
+} from "../utils/keyDataRecommendation";
+import {
+  buildUserRecommendationConstraints,
+  parseRecommendationConstraints,
+} from "../utils/recommendationConstraints";
+import {
+  findRecommendationItem,
+  saveRecommendation,
+  setRecommendationFeedback,
+} from "../services/recommendationService";
+import { computeCoBookmarkRankingForUser } from "../services/coBookmarkService";
+import { removeBookmarkForEvent } from "../services/bookmarkService";
+import {
+  getRecommendationCandidates,
+  parseRecommendationCandidateOptions,
+} from "../services/recommendationCandidateService";
+import { enqueueWebhookEvents } from "../services/webhookJobService";
+import { detectLocationFromAddress } from "../utils/connpassEventUtils";
+import { getDateRangeFromKeyword } from "../utils/dateUtils";
+import {
+  createLineCommandRouter,
+  LineCommandContext,
+} from "../utils/lineCommandRouter";
+import {
+  formatReminderOffset,
+  parseReminderOffset,
+  ReminderSettingsError,
+} from "../utils/reminderUtils";
+import {
+  getReminderPreferences,
+  getUpcomingBookmarkedEvents,
+  updateReminderPreferences,
+  DEFAULT_REMINDER_PREVIEW_MINUTES,
+  MAX_REMINDER_PREVIEW_MINUTES,
+} from "../services/reminderService";
+import { createUpcomingEventsMessage } from "../utils/lineMessageTemplates";
 
 /**
- * LINEのWebhookを処理するコントローラー
- * postbackイベントからブックマーク追加などの処理を行う
- * テキストメッセージからの特定のコマンド処理も行う
+ * LINEのWebhookを受け付けるコントローラー
+ * イベントはジョブとして保存するだけで、処理はワーカー（processLineWebhookEvent）が行う
+ * レコメンド処理の完了を待たずに200を返すことで、LINE Platformのタイムアウトと再送を防ぐ
  */
 export const handleLineWebhook: RequestHandler = async (
   req: Request,
   res: Response
 ) => {
   try {
-    // LINE Platformからのリクエストを検証（実際の実装では署名検証なども行う）
+    // 署名検証は verifyLineWebhookSignature ミドルウェアで実施済み
     const events = req.body.events;
 
     if (!events || !Array.isArray(events)) {
@@ -37,36 +80,53 @@ export const handleLineWebhook: RequestHandler = async (
       return;
     }
 
-    // 各イベントを処理
-    for (const event of events) {
-      // ユーザーIDを取得
-      const lineUserId = event.source?.userId;
-      if (!lineUserId) continue; // ユーザーIDがない場合は処理をスキップ
-
-      // postbackイベントの処理
-      if (event.type === "postback") {
-        await handlePostbackEvent(event, lineUserId);
-      }
-
-      // テキストメッセージの処理
-      else if (event.type === "message" && event.message?.type === "text") {
-        await handleTextMessageEvent(event, lineUserId);
-      }
-    }
+    // 再送されたイベントはジョブ登録時にスキップされる
+    const jobs = await enqueueWebhookEvents(events);
+    console.log(`${jobs.length}件のWebhookイベントをジョブに登録しました`);
 
-    // LINE Platformには常に200 OKを返す
     res.status(200).end();
   } catch (error) {
-    console.error("LINEウェブフックの処理に失敗しました:", error);
-    // エラーが発生しても200を返す（LINE Platformの要件）
-    res.status(200).end();
+    console.error("LINEウェブフックの登録に失敗しました:", error);
+    // ジョブを保存できなかった場合は200以外を返し、LINE Platformに再送させる
+    res.status(500).end();
+  }
+};
+
+/**
+ * Webhookイベントを1件処理する（Webhookジョブのワーカーから呼び出される）
+ * postbackイベントからブックマーク追加などの処理を行う
+ * テキストメッセージからの特定のコマンド処理も行う
+ * 返信はレスポンダーにまとめ、処理の最後に応答トークンを使って送信する
+ * 例外を投げた場合、ジョブはバックオフ後に再実行される
+ */
+export const processLineWebhookEvent = async (event: any) => {
+  // ユーザーIDを取得
+  const lineUserId = event.source?.userId;
+  if (!lineUserId) return; // ユーザーIDがない場合は処理をスキップ
+
+  const responder = createLineResponder(event);
+
+  // postbackイベントの処理
+  if (event.type === "postback") {
+    await handlePostbackEvent(event, lineUserId, responder);
   }
+
+  // テキストメッセージの処理
+  else if (event.type === "message" && event.message?.type === "text") {
+    await handleTextMessageEvent(event, lineUserId, responder);
+  }
+
+  await responder.flush();
 };
 
 /**
  * postbackイベントを処理する関数
  */
-const handlePostbackEvent = async (event: any, lineUserId: string) => {
+const handlePostbackEvent = async (
+  event: any,
+  lineUserId: string,
+  responder: LineResponder
+) => {
   try {
     // postbackデータをパース
     const data = new URLSearchParams(event.postback.data);
@@ -80,7 +140,7 @@ const handlePostbackEvent = async (event: any, lineUserId: string) => {
         `LINEユーザーID ${lineUserId} に対応するユーザーが見つかりません`
       );
       // 必要に応じてユーザーにエラー通知を送ることも検討
-      // await sendLineNotificationToUser(lineUserId, "ユーザー情報が見つかりませんでした。");
+      // responder.text("ユーザー情報が見つかりませんでした。");
       return; // ユーザーが見つからない場合は処理を中断
     }
 
@@ -93,361 +153,666 @@ const handlePostbackEvent = async (event: any, lineUserId: string) => {
       return;
     }
 
-    if (action === "bookmark") {
+    if (action === "feedback") {
+      // レコメンドしたイベントへのフィードバック（興味あり・興味なし）
+      try {
+        const feedback = data.get("feedback") as RecommendationFeedback;
+        const recommendationId = data.get("recommendationId");
+        if (
+          !recommendationId ||
+          !Object.values(RecommendationFeedback).includes(feedback)
+        ) {
+          console.error(
+            "Postbackデータのフィードバックが不正です",
+            event.postback.data
+          );
+          return;
+        }
+
+        const item = await findRecommendationItem(recommendationId, eventId);
+        if (!item || item.Recommendation.userId !== user.id) {
+          console.error(
+            `ユーザー ${user.id} のレコメンド ${recommendationId} にイベント ${eventId} が見つかりません`
+          );
+          responder.text("対象のレコメンドが見つかりませんでした。");
+          return;
+        }
+
+        await setRecommendationFeedback(item.id, feedback);
+        responder.text(
+          feedback === RecommendationFeedback.INTERESTED
+            ? "フィードバックありがとうございます！似たイベントをおすすめできるよう参考にします。"
+            : "フィードバックありがとうございます！今後のおすすめの参考にします。"
+        );
+      } catch (error) {
+        console.error("フィードバック記録処理エラー:", error);
+        responder.text("フィードバックの記録中にエラーが発生しました。");
+      }
+    } else if (action === "bookmark") {
       try {
         // ★ 内部ユーザーID (user.id) を使うように修正
         const result = await addBookmarkFromLine(lineUserId, eventId);
 
         // ユーザーに結果を通知
-        await sendLineNotificationToUser(
-          lineUserId,
+        responder.text(
           result.isNew
             ? `イベントをブックマークに追加しました！`
             : `このイベントは既にブックマークに追加されています`
         );
       } catch (error) {
         console.error("ブックマーク追加処理エラー:", error);
-        await sendLineNotificationToUser(
-          lineUserId,
-          "ブックマークの追加中にエラーが発生しました。"
-        );
+        responder.text("ブックマークの追加中にエラーが発生しました。");
       }
     } else if (action === "unbookmark") {
       // ★ ブックマーク解除処理
       try {
-        const deleteResult = await prisma.bookmark.deleteMany({
-          where: {
-            userId: user.id, // ★ 内部ユーザーID
-            eventId: eventId,
-          },
-        });
-
-        if (deleteResult.count > 0) {
+        const deletedCount = await removeBookmarkForEvent(
+          user.id, // ★ 内部ユーザーID
+          eventId
+        );
+
+        if (deletedCount > 0) {
           console.log(
             `ユーザー ${user.id} のイベント ${eventId} のブックマークを削除しました`
           );
-          await sendLineNotificationToUser(
-            lineUserId,
-            "イベントのブックマークを解除しました。"
-          );
+          responder.text("イベントのブックマークを解除しました。");
         } else {
           // 削除対象が見つからなかった場合（念のため）
           console.log(
             `ユーザー ${user.id} のイベント ${eventId} のブックマークが見つかりませんでした（削除スキップ）`
           );
           // 必要であればユーザーに通知しても良い
-          // await sendLineNotificationToUser(lineUserId, "対象のブックマークが見つかりませんでした。");
+          // responder.text("対象のブックマークが見つかりませんでした。");
         }
       } catch (error) {
         console.error("ブックマーク解除処理エラー:", error);
-        await sendLineNotificationToUser(
-          lineUserId,
-          "ブックマークの解除中にエラーが発生しました。"
-        );
+        responder.text("ブックマークの解除中にエラーが発生しました。");
       }
     }
   } catch (error) {
     console.error("postbackイベント処理エラー:", error);
     // postback処理全体のエラーはユーザーに通知しない（個別処理内で通知済みのため）
+    // 通知自体に失敗した場合などはジョブを再実行させる
+    throw error;
   }
 };
 
 /**
- * テキストメッセージイベントを処理する関数
+ * LINEユーザーIDから内部ユーザーとその詳細情報を取得する
+ * 見つからない場合はユーザーに案内を送信して null を返す
+ */
+const findUserForCommand = async (
+  lineUserId: string,
+  responder: LineResponder
+) => {
+  const user = await getUserByLineId(lineUserId);
+  if (!user) {
+    responder.text(
+      "ユーザー情報が見つかりません。まずはプロフィール設定をお願いします。"
+    );
+    return null;
+  }
+
+  const userDetails = await getUserWithDetailsById(user.id);
+  if (!userDetails) {
+    responder.text(
+      "ユーザー詳細情報が見つかりません。まずはプロフィール設定をお願いします。"
+    );
+    return null;
+  }
+
+  return { user, userDetails };
+};
+
+// 「レコメンド」コマンドの引数
+interface RecommendCommandArgs {
+  location?: string;
+  format?: EventFormat;
+  fromDate?: Date;
+  toDate?: Date;
+}
+
+/**
+ * 「レコメンド 東京 来週」のような引数を場所と期間に解析する
+ * 引数の順序は問わない
+ */
+const parseRecommendArgs = (args: string[]): RecommendCommandArgs => {
+  const parsed: RecommendCommandArgs = {};
+  let hasPlace = false;
+  let hasPeriod = false;
+
+  for (const arg of args) {
+    const dateRange = getDateRangeFromKeyword(arg);
+    if (dateRange) {
+      if (hasPeriod) throw new Error("期間は1つだけ指定してください。");
+      parsed.fromDate = dateRange.fromDate;
+      parsed.toDate = dateRange.toDate;
+      hasPeriod = true;
+      continue;
+    }
+
+    const location = detectLocationFromAddress(arg);
+    if (location === "不明") {
+      throw new Error(`「${arg}」を場所または期間として認識できませんでした。`);
+    }
+    if (hasPlace) throw new Error("場所は1つだけ指定してください。");
+    if (location === "オンライン") {
+      parsed.format = EventFormat.ONLINE;
+    } else {
+      parsed.location = location;
+    }
+    hasPlace = true;
+  }
+
+  return parsed;
+};
+
+/**
+ * 「レコメンド」コマンド: 興味タグごとにおすすめイベントを送信する
+ * 場所を指定しない場合はプロフィールの居住地で絞り込む
  */
-const handleTextMessageEvent = async (event: any, lineUserId: string) => {
+const handleRecommendCommand = async (
+  { lineUserId, responder }: LineCommandContext,
+  args: RecommendCommandArgs
+) => {
   try {
-    const messageText = event.message.text;
+    const found = await findUserForCommand(lineUserId, responder);
+    if (!found) return;
+    const { user, userDetails } = found;
+
+    const tags: string[] = (userDetails.tag as any) || [];
+    if (tags.length === 0) {
+      responder.text(
+        "興味タグが未設定です。プロフィールから興味タグを設定してください。"
+      );
+      return;
+    }
 
-    // 「レコメンド」というテキストを受け取った場合の処理（recommendController.tsのロジックを使用）
-    if (messageText === "レコメンド") {
-      try {
-        console.log(
-          `ユーザー ${lineUserId} からレコメンドリクエストを受信しました`
-        );
+    // 場所・形式・期間でイベントをフィルタ
+    // 期間の指定がない場合は今後のイベントのみ、ブックマーク済み・興味なしのイベントは除く
+    const hasPlaceArg = Boolean(args.location || args.format);
+    const candidateOptions = parseRecommendationCandidateOptions();
+    const events = await getRecommendationCandidates(
+      {
+        ...(hasPlaceArg
+          ? {
+              location: args.location,
+              format: args.format,
+              includeUnknownLocation: true,
+            }
+          : buildUserPlaceFilter(userDetails.place)),
+        fromDate: args.fromDate,
+        toDate: args.toDate,
+      },
+      candidateOptions,
+      user.id
+    );
+    const eventKeyData = toEventKeyData(events);
+
+    if (eventKeyData.length === 0) {
+      responder.text("該当する場所・期間のイベントがありません。");
+      return;
+    }
 
-        // ユーザー情報取得（lineUserIdから内部userIdを取得）
-        const user = await getUserByLineId(lineUserId);
-        console.log("user", user);
-        if (!user) {
-          await sendLineNotificationToUser(
-            lineUserId,
-            "ユーザー情報が見つかりません。まずはプロフィール設定をお願いします。"
-          );
-          return;
-        }
+    // 興味タグごとにレコメンド（recommendController.tsと同じロジック）
+    const eventMap = new Map(events.map((ev: any) => [ev.id, ev]));
+    const collaborativeRanking = await computeCoBookmarkRankingForUser(
+      user.id,
+      eventKeyData.map((ev) => ev.id)
+    );
+    // プロフィールのレベル・目標・スキルを条件にする
+    const constraints = parseRecommendationConstraints(
+      buildUserRecommendationConstraints(userDetails)
+    );
+    const results: {
+      tag: string;
+      recommendationId: string | null;
+      recommendations: any[];
+    }[] = [];
+    for (const tag of tags) {
+      const result = await runKeyDataRecommendation(tag, eventKeyData, {
+        collaborativeRanking,
+        constraints,
+        maxPerOrganizer: candidateOptions.maxPerOrganizer,
+      });
+      const recs = result.recommendations;
+      const recommendationId = await saveRecommendation({
+        userId: user.id,
+        source: RecommendationSource.LINE_COMMAND,
+        query: tag,
+        result,
+      });
+      // event.idでDBイベント情報をマージ
+      const enrichedRecs = recs.map((rec) => ({
+        ...rec,
+        event: {
+          ...eventMap.get(rec.event.id),
+          ...rec.event,
+        },
+      }));
+      results.push({ tag, recommendationId, recommendations: enrichedRecs });
+    }
 
-        // recommendController.tsのrecommendByUserロジックを実装
-        const userDetails = await getUserWithDetailsById(user.id);
-        if (!userDetails) {
-          await sendLineNotificationToUser(
-            lineUserId,
-            "ユーザー詳細情報が見つかりません。まずはプロフィール設定をお願いします。"
-          );
-          return;
-        }
+    // 興味タグごとにカルーセルを送信
+    responder.add(
+      ...(await buildEventCarouselByTagsMessages(user.id, results))
+    );
+    responder.text("レコメンド結果です。");
+    console.log(`ユーザー ${lineUserId} にレコメンド結果を送信しました`);
+  } catch (error) {
+    console.error("レコメンド処理エラー:", error);
+    responder.text(
+      "レコメンドの取得中にエラーが発生しました。しばらく経ってからもう一度お試しください。"
+    );
+  }
+};
 
-        const tags: string[] = (userDetails.tag as any) || [];
-        if (tags.length === 0) {
-          await sendLineNotificationToUser(
-            lineUserId,
-            "興味タグが未設定です。プロフィールから興味タグを設定してください。"
-          );
-          return;
-        }
+// 「ブックマーク」コマンドの引数
+type BookmarkCommandArgs =
+  | { action: "list" }
+  | { action: "delete"; eventId: string };
 
-        // 場所・形式でイベントをフィルタ
-        const locationRaw = (userDetails.place || "").toString();
-        const locLower = locationRaw.toLowerCase();
-        const filterOpts: any = {};
-        if (locationRaw) {
-          if (locLower === "online") {
-            filterOpts.format = "ONLINE";
-          } else {
-            filterOpts.location = locationRaw;
-          }
-        }
+/**
+ * 「ブックマーク」「ブックマーク 一覧」「ブックマーク 削除 <イベントID>」を解析する
+ */
+const parseBookmarkArgs = (args: string[]): BookmarkCommandArgs => {
+  const [subCommand, eventId, ...rest] = args;
 
-        const events = await getFilteredEvents(filterOpts);
-        const eventKeyData = events.map((ev: any) => ({
-          id: ev.id,
-          title: ev.title,
-          detail: ev.detail,
-          keyPhrases: ev.keyPhrases || [],
-          keySentences: ev.keySentences || [],
-        }));
-
-        if (eventKeyData.length === 0) {
-          await sendLineNotificationToUser(
-            lineUserId,
-            "該当する場所のイベントがありません。"
-          );
-          return;
-        }
+  if (!subCommand || subCommand === "一覧") {
+    if (eventId) throw new Error("一覧表示に引数は指定できません。");
+    return { action: "list" };
+  }
 
-        // 興味タグごとにレコメンド（recommendController.tsと同じロジック）
-        const results: { tag: string; recommendations: any[] }[] = [];
-        for (const tag of tags) {
-          const recs = await recommendEventsWithKeyData(tag, eventKeyData);
-          // event.idでDBイベント情報をマージ
-          const eventMap = new Map(events.map((ev: any) => [ev.id, ev]));
-          const enrichedRecs = recs.map((rec) => ({
-            ...rec,
-            event: {
-              ...eventMap.get(rec.event.id),
-              ...rec.event,
-            },
-          }));
-          results.push({ tag, recommendations: enrichedRecs });
-        }
+  if (subCommand === "削除") {
+    if (!eventId || rest.length > 0) {
+      throw new Error("削除するイベントIDを1つ指定してください。");
+    }
+    return { action: "delete", eventId };
+  }
 
-        if (results.length === 0) {
-          await sendLineNotificationToUser(
-            lineUserId,
-            "ご希望に合うイベントが見つかりませんでした。条件を変えて再度お試しください。"
-          );
-          return;
-        }
+  throw new Error(`「${subCommand}」は使用できない操作です。`);
+};
 
-        // 興味タグごとにカルーセルを送信
-        await sendEventCarouselByTagsToUser(user.id, results);
-        await sendLineNotificationToUser(lineUserId, "レコメンド結果です。");
-        console.log(`ユーザー ${lineUserId} にレコメンド結果を送信しました`);
-      } catch (error) {
-        console.error("レコメンド処理エラー:", error);
-        await sendLineNotificationToUser(
-          lineUserId,
-          "レコメンドの取得中にエラーが発生しました。しばらく経ってからもう一度お試しください。"
-        );
-      }
+/**
+ * 「ブックマーク」コマンド: ブックマーク一覧の表示・削除を行う
+ */
+const handleBookmarkCommand = async (
+  { lineUserId, responder }: LineCommandContext,
+  args: BookmarkCommandArgs
+) => {
+  try {
+    // ユーザー情報取得（lineUserIdから内部userIdを取得）
+    const user = await getUserByLineId(lineUserId);
+    if (!user) {
+      responder.text(
+        "ユーザー情報が見つかりません。まずはプロフィール設定をお願いします。"
+      );
+      return;
     }
 
-    // 「ブックマーク」というテキストを受け取った場合の処理
-    else if (messageText === "ブックマーク") {
-      try {
-        console.log(
-          `ユーザー ${lineUserId} からブックマーク一覧リクエストを受信しました`
-        );
+    if (args.action === "delete") {
+      const deletedCount = await removeBookmarkForEvent(user.id, args.eventId);
 
-        // ユーザー情報取得（lineUserIdから内部userIdを取得）
-        const user = await getUserByLineId(lineUserId);
-        if (!user) {
-          await sendLineNotificationToUser(
-            lineUserId,
-            "ユーザー情報が見つかりません。まずはプロフィール設定をお願いします。"
-          );
-          return;
-        }
+      responder.text(
+        deletedCount > 0
+          ? "イベントのブックマークを解除しました。"
+          : "指定されたイベントはブックマークされていません。"
+      );
+      return;
+    }
 
-        // ブックマーク一覧を取得
-        const bookmarks = await prisma.bookmark.findMany({
-          where: {
-            userId: user.id,
-          },
-          include: {
-            Event: {
-              include: {
-                Organization: true,
-                EventCategory: {
-                  include: {
-                    Category: true,
-                  },
-                },
-              },
-            },
-          },
-          orderBy: {
-            createdAt: "desc",
-          },
-        });
-
-        if (bookmarks.length === 0) {
-          await sendLineNotificationToUser(
-            lineUserId,
-            "ブックマークしたイベントがありません。イベントをブックマークすると、ここで確認できます。"
-          );
-          return;
-        }
+    // ブックマーク一覧を取得
+    const bookmarks = await prisma.bookmark.findMany({
+      where: {
+        userId: user.id,
+      },
+      select: {
+        eventId: true,
+      },
+      orderBy: {
+        createdAt: "desc",
+      },
+    });
+
+    if (bookmarks.length === 0) {
+      responder.text(
+        "ブックマークしたイベントがありません。イベントをブックマークすると、ここで確認できます。"
+      );
+      return;
+    }
 
-        // ブックマークしたイベントのIDリストを取得
-        const bookmarkedEventIds = bookmarks.map((b) => b.Event.id);
+    // ブックマーク一覧をカルーセルで送信
+    responder.add(
+      ...(await buildEventCarouselMessages(
+        user.id,
+        bookmarks.map((b) => b.eventId)
+      ))
+    );
+    responder.text(
+      `ブックマークしたイベント一覧（${bookmarks.length}件）です。`
+    );
+    console.log(
+      `ユーザー ${lineUserId} にブックマーク一覧を送信しました: ${bookmarks.length}件`
+    );
+  } catch (error) {
+    console.error("ブックマーク処理エラー:", error);
+    responder.text(
+      "ブックマークの処理中にエラーが発生しました。しばらく経ってからもう一度お試しください。"
+    );
+  }
+};
 
-        // ブックマーク一覧をカルーセルで送信
-        await sendEventCarouselToUser(user.id, bookmarkedEventIds);
-        await sendLineNotificationToUser(
-          lineUserId,
-          `ブックマークしたイベント一覧（${bookmarks.length}件）です。`
-        );
-        console.log(
-          `ユーザー ${lineUserId} にブックマーク一覧を送信しました: ${bookmarks.length}件`
-        );
-      } catch (error) {
-        console.error("ブックマーク一覧取得エラー:", error);
-        await sendLineNotificationToUser(
-          lineUserId,
-          "ブックマーク一覧の取得中にエラーが発生しました。しばらく経ってからもう一度お試しください。"
-        );
-      }
+// 「リマインド」コマンドの引数
+interface RemindCommandArgs {
+  horizonMinutes: number;
+  periodLabel: string;
+}
+
+/**
+ * 「リマインド」「リマインド 3日」「リマインド 今週」を解析する
+ * 期間を省略した場合は7日以内のイベントを対象にする
+ */
+const parseRemindArgs = (args: string[]): RemindCommandArgs => {
+  if (args.length === 0) {
+    return {
+      horizonMinutes: DEFAULT_REMINDER_PREVIEW_MINUTES,
+      periodLabel: `${formatReminderOffset(
+        DEFAULT_REMINDER_PREVIEW_MINUTES
+      )}以内`,
+    };
+  }
+  if (args.length > 1) throw new Error("期間は1つだけ指定してください。");
+
+  const dateRange = getDateRangeFromKeyword(args[0]);
+  if (dateRange) {
+    return {
+      horizonMinutes: Math.ceil(
+        (dateRange.toDate.getTime() - Date.now()) / (60 * 1000)
+      ),
+      periodLabel: args[0],
+    };
+  }
+
+  const minutes = parseReminderOffset(args[0]);
+  if (minutes === null || minutes > MAX_REMINDER_PREVIEW_MINUTES) {
+    throw new Error(
+      `「${args[0]}」を期間として認識できませんでした（例: 3日、2週間、今週）。`
+    );
+  }
+
+  return {
+    horizonMinutes: minutes,
+    periodLabel: `${formatReminderOffset(minutes)}以内`,
+  };
+};
+
+/**
+ * 「リマインド」コマンド: ブックマークした開催予定のイベントと次回のリマインド日時を一覧で返信する
+ * 送信先はコマンドを送ったユーザーのみ（全ユーザーへのリマインド送信はスケジューラーが行う）
+ */
+const handleRemindCommand = async (
+  { lineUserId, responder }: LineCommandContext,
+  args: RemindCommandArgs
+) => {
+  try {
+    const user = await getUserByLineId(lineUserId);
+    if (!user) {
+      responder.text(
+        "ユーザー情報が見つかりません。まずはプロフィール設定をお願いします。"
+      );
+      return;
     }
 
-    // 「リマインド」というテキストを受け取った場合の処理
-    else if (messageText === "リマインド") {
-      try {
-        console.log(
-          `ユーザー ${lineUserId} からリマインドリクエストを受信しました`
-        );
+    const upcoming = await getUpcomingBookmarkedEvents(
+      user.id,
+      args.horizonMinutes
+    );
 
-        // リマインド処理を実行
-        const result = await sendEventReminders();
+    if (!upcoming || upcoming.events.length === 0) {
+      responder.text(
+        `${args.periodLabel}に開催されるブックマークしたイベントはありません。イベントをブックマークすると、設定したタイミング（「リマインド設定」で確認できます）でリマインドが届きます。`
+      );
+      return;
+    }
 
-        // 結果をユーザーに通知
-        const successCount = result.results.filter(
-          (r) => r.success && r.lineId === lineUserId
-        ).length;
+    responder.add(
+      createUpcomingEventsMessage(upcoming.events, args.periodLabel)
+    );
+    if (!upcoming.remindersEnabled) {
+      responder.text(
+        "リマインドは停止中です。再開するには「リマインド設定 オン」と送信してください。"
+      );
+    }
 
-        console.log("リマインド結果:", successCount);
+    console.log(
+      `ユーザー ${lineUserId} に開催予定のイベント一覧を送信しました: ${upcoming.events.length}件`
+    );
+  } catch (error) {
+    console.error("リマインド処理エラー:", error);
+    responder.text(
+      "リマインド処理中にエラーが発生しました。しばらく経ってからもう一度お試しください。"
+    );
+  }
+};
 
-        if (successCount > 0) {
-          await sendLineNotificationToUser(
-            lineUserId,
-            `${successCount}件のイベントリマインドを送信しました。ブックマークしたイベントをチェックしてください。`
-          );
-        } else {
-          await sendLineNotificationToUser(
-            lineUserId,
-            "リマインド対象のイベントが見つかりませんでした。イベントをブックマークすると、開催1週間前にリマインドが届きます。"
-          );
-        }
+// 「リマインド設定」コマンドの引数
+type ReminderSettingCommandArgs =
+  | { action: "show" }
+  | { action: "enable" }
+  | { action: "disable" }
+  | { action: "set"; offsets: number[] };
 
-        console.log(
-          `ユーザー ${lineUserId} にリマインド結果を送信しました: ${successCount}件`
-        );
-      } catch (error) {
-        console.error("リマインド処理エラー:", error);
+/**
+ * 「リマインド設定」「リマインド設定 オフ」「リマインド設定 7日 1日 2時間」を解析する
+ */
+const parseReminderSettingArgs = (
+  args: string[]
+): ReminderSettingCommandArgs => {
+  if (args.length === 0) return { action: "show" };
 
-        // エラーが発生した場合はユーザーに通知
-        await sendLineNotificationToUser(
-          lineUserId,
-          "リマインド処理中にエラーが発生しました。しばらく経ってからもう一度お試しください。"
-        );
-      }
+  if (args.length === 1 && ["オン", "on"].includes(args[0].toLowerCase())) {
+    return { action: "enable" };
+  }
+  if (args.length === 1 && ["オフ", "off"].includes(args[0].toLowerCase())) {
+    return { action: "disable" };
+  }
+
+  const offsets = args.map((arg) => {
+    const offset = parseReminderOffset(arg);
+    if (offset === null) {
+      throw new Error(
+        `「${arg}」をリマインドのタイミングとして認識できませんでした（例: 7日 1日 2時間）。`
+      );
     }
+    return offset;
+  });
 
-    // 上記以外のテキストメッセージはkeyDataベースのテキストレコメンドに統一
-    else {
-      try {
-        console.log(`ユーザー ${lineUserId} からの質問: ${messageText}`);
-        // ユーザー情報を取得（lineUserIdから内部userIdを取得）
-        const user = await getUserByLineId(lineUserId);
-        if (!user) {
-          await sendLineNotificationToUser(
-            lineUserId,
-            "ユーザー情報が見つかりません。まずはプロフィール設定をお願いします。"
-          );
-          return;
-        }
-        // 内部userIdで詳細情報を取得
-        const userDetails = await getUserWithDetailsById(user.id);
-        if (!userDetails) {
-          await sendLineNotificationToUser(
-            lineUserId,
-            "ユーザー詳細情報が見つかりません。まずはプロフィール設定をお願いします。"
-          );
-          return;
-        }
-        // 場所・形式でイベントをフィルタ
-        const locationRaw = (userDetails.place || "").toString();
-        const locLower = locationRaw.toLowerCase();
-        const filterOpts: any = {};
-        if (locationRaw) {
-          if (locLower === "online") {
-            filterOpts.format = "ONLINE";
-          } else {
-            filterOpts.location = locationRaw;
-          }
-        }
-        const events = await getFilteredEvents(filterOpts);
-        const eventKeyData = events.map((ev: any) => ({
-          id: ev.id,
-          title: ev.title,
-          detail: ev.detail,
-          keyPhrases: ev.keyPhrases || [],
-          keySentences: ev.keySentences || [],
-        }));
-        if (eventKeyData.length === 0) {
-          await sendLineNotificationToUser(
-            lineUserId,
-            "該当する場所のイベントがありません。"
-          );
-          return;
-        }
-        // テキストでレコメンド
-        const recs = await recommendEventsWithKeyData(
-          messageText,
-          eventKeyData
-        );
-        const eventIds = recs.map((rec) => rec.event.id);
-        if (eventIds.length === 0) {
-          await sendLineNotificationToUser(
-            lineUserId,
-            "ご希望に合うイベントが見つかりませんでした。条件を変えて再度お試しください。"
-          );
-          return;
-        }
-        await sendEventCarouselToUser(user.id, eventIds);
-        await sendLineNotificationToUser(lineUserId, "レコメンド結果です。");
-        console.log(
-          `ユーザー ${lineUserId} にkeyDataベースのテキストレコメンド結果を送信しました`
-        );
-      } catch (error) {
-        console.error("テキストレコメンド処理エラー:", error);
-        await sendLineNotificationToUser(
-          lineUserId,
-          "テキストレコメンドの取得中にエラーが発生しました。しばらく経ってからもう一度お試しください。"
-        );
+  return { action: "set", offsets };
+};
+
+/**
+ * 「リマインド設定」コマンド: リマインドのタイミングの確認・変更を行う
+ */
+const handleReminderSettingCommand = async (
+  { lineUserId, responder }: LineCommandContext,
+  args: ReminderSettingCommandArgs
+) => {
+  try {
+    const user = await getUserByLineId(lineUserId);
+    if (!user) {
+      responder.text(
+        "ユーザー情報が見つかりません。まずはプロフィール設定をお願いします。"
+      );
+      return;
+    }
+
+    let preferences;
+    try {
+      preferences =
+        args.action === "show"
+          ? await getReminderPreferences(user.id)
+          : await updateReminderPreferences(user.id, {
+              remindersEnabled: args.action !== "disable",
+              reminderOffsetsMinutes:
+                args.action === "set" ? args.offsets : undefined,
+            });
+    } catch (error) {
+      if (error instanceof ReminderSettingsError) {
+        responder.text(error.message);
+        return;
       }
+      throw error;
+    }
+
+    const timings = preferences.reminderOffsetsMinutes
+      .map((offset) => `${formatReminderOffset(offset)}前`)
+      .join("、");
+    const status = preferences.remindersEnabled ? "オン" : "オフ";
+
+    responder.text(
+      `${
+        args.action === "show" ? "現在の" : ""
+      }リマインド設定: ${timings}（${status}）\n変更するには「リマインド設定 7日 1日 2時間」、停止するには「リマインド設定 オフ」と送信してください。`
+    );
+  } catch (error) {
+    console.error("リマインド設定エラー:", error);
+    responder.text(
+      "リマインド設定の処理中にエラーが発生しました。しばらく経ってからもう一度お試しください。"
+    );
+  }
+};
+
+/**
+ * コマンドに該当しないテキストを受け取った場合の処理
+ * テキストの内容でkeyDataベースのレコメンドを行う
+ */
+const handleFreeTextRecommendation = async ({
+  lineUserId,
+  text,
+  responder,
+}: LineCommandContext) => {
+  try {
+    console.log(`ユーザー ${lineUserId} からの質問: ${text}`);
+    const found = await findUserForCommand(lineUserId, responder);
+    if (!found) return;
+    const { user, userDetails } = found;
+
+    // 場所・形式でイベントをフィルタ（今後のイベントのみ、ブックマーク済み・興味なしは除く）
+    const candidateOptions = parseRecommendationCandidateOptions();
+    const events = await getRecommendationCandidates(
+      buildUserPlaceFilter(userDetails.place),
+      candidateOptions,
+      user.id
+    );
+    const eventKeyData = toEventKeyData(events);
+    if (eventKeyData.length === 0) {
+      responder.text("該当する場所のイベントがありません。");
+      return;
     }
+
+    // テキストでレコメンド
+    const result = await runKeyDataRecommendation(text, eventKeyData, {
+      collaborativeRanking: await computeCoBookmarkRankingForUser(
+        user.id,
+        eventKeyData.map((ev) => ev.id)
+      ),
+      constraints: parseRecommendationConstraints(
+        buildUserRecommendationConstraints(userDetails)
+      ),
+      maxPerOrganizer: candidateOptions.maxPerOrganizer,
+    });
+    const recommendationId = await saveRecommendation({
+      userId: user.id,
+      source: RecommendationSource.LINE_TEXT,
+      query: text,
+      result,
+    });
+    const eventIds = result.recommendations.map((rec) => rec.event.id);
+    if (eventIds.length === 0) {
+      responder.text(
+        "ご希望に合うイベントが見つかりませんでした。条件を変えて再度お試しください。"
+      );
+      return;
+    }
+    responder.add(
+      ...(await buildEventCarouselMessages(user.id, eventIds, recommendationId))
+    );
+    responder.text("レコメンド結果です。");
+    console.log(
+      `ユーザー ${lineUserId} にkeyDataベースのテキストレコメンド結果を送信しました`
+    );
+  } catch (error) {
+    console.error("テキストレコメンド処理エラー:", error);
+    responder.text(
+      "テキストレコメンドの取得中にエラーが発生しました。しばらく経ってからもう一度お試しください。"
+    );
+  }
+};
+
+// LINEのテキストコマンド
+const lineCommandRouter = createLineCommandRouter({
+  fallback: handleFreeTextRecommendation,
+});
+
+lineCommandRouter.register({
+  name: "レコメンド",
+  aliases: ["おすすめ", "recommend"],
+  usage: "[場所] [期間]",
+  description:
+    "興味タグに合うイベントをおすすめします（例: レコメンド 東京 来週）。期間は 今日/明日/今週/週末/来週/今月/来月 から指定できます",
+  parseArgs: parseRecommendArgs,
+  // 「おすすめ 東京のReactイベント」のような文章はテキストレコメンドで扱う
+  fallbackOnInvalidArgs: true,
+  handler: handleRecommendCommand,
+});
+
+lineCommandRouter.register({
+  name: "ブックマーク",
+  aliases: ["bookmark"],
+  usage: "[一覧 | 削除 <イベントID>]",
+  description: "ブックマークしたイベントの一覧表示・削除を行います",
+  parseArgs: parseBookmarkArgs,
+  handler: handleBookmarkCommand,
+});
+
+lineCommandRouter.register({
+  name: "リマインド",
+  aliases: ["remind"],
+  usage: "[期間]",
+  description:
+    "ブックマークした開催予定のイベントと次のリマインド日時を表示します（例: リマインド 3日、リマインド 今週）",
+  parseArgs: parseRemindArgs,
+  handler: handleRemindCommand,
+});
+
+lineCommandRouter.register({
+  name: "リマインド設定",
+  aliases: ["reminder"],
+  usage: "[オン | オフ | <タイミング>...]",
+  description:
+    "リマインドを送るタイミングを確認・変更します（例: リマインド設定 7日 1日 2時間）",
+  parseArgs: parseReminderSettingArgs,
+  handler: handleReminderSettingCommand,
+});
+
+/**
+ * テキストメッセージイベントを処理する関数
+ * 登録されたコマンドに振り分け、該当しない場合はテキストレコメンドを行う
+ */
+const handleTextMessageEvent = async (
+  event: any,
+  lineUserId: string,
+  responder: LineResponder
+) => {
+  try {
+    await lineCommandRouter.dispatch({
+      lineUserId,
+      text: event.message.text,
+      event,
+      responder,
+    });
   } catch (error) {
     console.error("テキストメッセージ処理エラー:", error);
+    throw error;
   }
 };
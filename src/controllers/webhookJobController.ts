@@ -0,0 +1,115 @@
+import { Request, Response, RequestHandler } from "express";
+import { WebhookJobStatus } from "@prisma/client";
+import {
+  listWebhookJobs,
+  getWebhookJobById,
+  retryWebhookJob,
+} from "../services/webhookJobService";
+
+/**
+ * Webhookジョブの一覧を取得するコントローラー
+ * クエリ: status, lineUserId, limit
+ */
+export const getWebhookJobs: RequestHandler = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const { status, lineUserId, limit } = req.query;
+
+    if (
+      status &&
+      !Object.values(WebhookJobStatus).includes(status as WebhookJobStatus)
+    ) {
+      res.status(400).json({
+        success: false,
+        message: `status は ${Object.values(WebhookJobStatus).join(
+          ", "
+        )} のいずれかを指定してください`,
+      });
+      return;
+    }
+
+    const jobs = await listWebhookJobs({
+      status: status as WebhookJobStatus | undefined,
+      lineUserId: lineUserId as string | undefined,
+      limit: limit ? Math.min(parseInt(limit as string, 10) || 50, 200) : 50,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: jobs,
+    });
+  } catch (error) {
+    console.error("Webhookジョブ一覧の取得に失敗しました:", error);
+    res.status(500).json({
+      success: false,
+      message: "Webhookジョブ一覧の取得に失敗しました",
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+/**
+ * Webhookジョブの詳細（送信結果・エラー履歴を含む）を取得するコントローラー
+ */
+export const getWebhookJob: RequestHandler = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const job = await getWebhookJobById(req.params.id);
+
+    if (!job) {
+      res.status(404).json({
+        success: false,
+        message: "指定されたジョブが見つかりません",
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: job,
+    });
+  } catch (error) {
+    console.error("Webhookジョブの取得に失敗しました:", error);
+    res.status(500).json({
+      success: false,
+      message: "Webhookジョブの取得に失敗しました",
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+/**
+ * DEAD になったWebhookジョブを再実行するコントローラー
+ */
+export const retryDeadWebhookJob: RequestHandler = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const job = await retryWebhookJob(req.params.id);
+
+    if (!job) {
+      res.status(404).json({
+        success: false,
+        message: "再実行できるジョブ（DEAD）が見つかりません",
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: job,
+    });
+  } catch (error) {
+    console.error("Webhookジョブの再実行に失敗しました:", error);
+    res.status(500).json({
+      success: false,
+      message: "Webhookジョブの再実行に失敗しました",
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
@@ -1,5 +1,7 @@
 import puppeteer, { Browser, Page } from "puppeteer";
-import prisma from "../config/prisma";
+import { resolveOrganization } from "../services/organizationService";
+import { ingestEvents } from "../services/eventIngestionService";
+import { supporterzAdapter } from "../services/eventSources/supporterzAdapter";
 import fs from "fs";
 import path from "path";
 
@@ -907,25 +909,24 @@ export async function scrapeSupportersEvents(): Promise<SupporterzEventInfo[]> {
     console.log("Company Names:");
     console.log(companyNames);
 
+    // 会社名を取り込み元での主催者IDとして主催団体を登録する
+    const organizationIds = new Map<string, string>();
     for (const companyName of companyNames) {
       const currentCompanyName = companyName || "Unknown Company";
-      await prisma.organization.upsert({
-        where: { name: currentCompanyName },
-        create: { name: currentCompanyName },
-        update: {},
+      const organization = await resolveOrganization({
+        source: "supporterz",
+        externalId: currentCompanyName,
+        name: currentCompanyName,
       });
+      organizationIds.set(currentCompanyName, organization.id);
     }
     console.log("✅ 会社名の登録を完了しました");
 
     // eventsDataに該当する組織を追加する
-    const organizations = await prisma.organization.findMany();
     for (const event of eventsData) {
-      const organization = organizations.find(
-        (org) => org.name === event.companyName
+      event.organizationId = organizationIds.get(
+        event.companyName || "Unknown Company"
       );
-      if (organization) {
-        event.organizationId = organization.id;
-      }
     }
 
     // event.dateをフォーマットする
@@ -960,63 +961,6 @@ export async function scrapeSupportersEvents(): Promise<SupporterzEventInfo[]> {
       }
     }
 
-    // ★★★ 手順5: イベントをDBに保存 ★★★
-    const existingDbEvents = await prisma.event.findMany({
-      include: {
-        Organization: true,
-        EventSkill: true,
-        EventSpeaker: { include: { Speaker: true } },
-        EventCategory: { include: { Category: true } },
-      },
-      orderBy: { eventDate: "asc" },
-    });
-
-    for (const event of eventsData) {
-      const existingEvent = existingDbEvents.find(
-        (e) => e.title === (event.title || "")
-      );
-      if (!existingEvent) {
-        if (
-          typeof event.organizationId === "string" &&
-          event.organizationId.length > 0 &&
-          typeof event.date === "string"
-        ) {
-          const eventDateObj = new Date(event.date);
-          const startTimeValue = !isNaN(eventDateObj.getTime())
-            ? eventDateObj.toISOString()
-            : new Date(0).toISOString();
-
-          const descriptionToSave = event.fullPageText || "";
-          const detailUrlToSave =
-            event.eventUrl ||
-            `https://talent.supporterz.jp/events/detail_not_found_${
-              event.title || "unknown"
-            }`;
-
-          console.log(`[DB保存処理] イベント: "${event.title}"`);
-          console.log(
-            `  -> Full Page Text Length: ${descriptionToSave.length}`
-          );
-
-          await prisma.event.create({
-            data: {
-              title: event.title || "No Title Provided",
-              description: descriptionToSave,
-              eventDate: event.date,
-              startTime: startTimeValue,
-              venue: event.eventFormat,
-              organizationId: event.organizationId,
-              image: event.thumbnailUrl,
-              format: event.eventFormat === "オンライン" ? "ONLINE" : "OFFLINE",
-              difficulty: "FOR_EVERYONE",
-              price: 0,
-              detailUrl: detailUrlToSave,
-            },
-          });
-        }
-      }
-    }
-
     // ★★★ 手順6: ファイル保存処理 ★★★
     const endTime = Date.now();
     const summary = {
@@ -1055,6 +999,10 @@ if (require.main === module) {
     const startTime = Date.now();
 
     const events = await scrapeSupportersEvents();
+    const summary = await ingestEvents(supporterzAdapter, events);
+    console.log(
+      `💾 データベース保存完了: 登録${summary.created}件 更新${summary.updated}件 変更なし${summary.unchanged}件 失敗${summary.failed}件`
+    );
 
     const endTime = Date.now();
     const totalTime = Math.round((endTime - startTime) / 1000);
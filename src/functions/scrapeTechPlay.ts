@@ -2,7 +2,8 @@ import puppeteer, { Browser, Page } from "puppeteer";
 import fs from "fs";
 import path from "path";
 import prisma from "../config/prisma";
-import { EventFormat, DifficultyLevel, EventType } from "@prisma/client";
+import { ingestEvents } from "../services/eventIngestionService";
+import { techPlayAdapter } from "../services/eventSources/techPlayAdapter";
 
 const TECHPLAY_BASE_URL =
   "https://techplay.jp/event/search?sort=started_at.asc&page=";
@@ -20,7 +21,7 @@ const RATE_LIMIT_DELAY = {
   AFTER_PAGE_LOAD: 2000, // ページロード後の待機時間（2秒）
 };
 
-interface TechPlayEvent {
+export interface TechPlayEvent {
   title: string | null;
   eventUrl: string | null;
   startDate: string | null;
@@ -373,112 +374,6 @@ async function saveEventsAsJson(events: Partial<TechPlayEvent>[]) {
   }
 }
 
-async function saveTechPlayEventsToDatabase(
-  events: TechPlayEvent[]
-): Promise<void> {
-  console.log(`データベースに${events.length}件のイベントを保存します...`);
-
-  try {
-    // 既存のorganization IDを使用
-    const organizationId = "cmbab0a840000rywyp91u1e9e";
-
-    let savedCount = 0;
-    let errorCount = 0;
-
-    for (const event of events) {
-      try {
-        // 必須フィールドの検証
-        if (!event.title || !event.eventUrl) {
-          console.warn(
-            "必須フィールドが不足しているイベントをスキップ:",
-            event.title
-          );
-          errorCount++;
-          continue;
-        }
-
-        // 開催日の解析
-        let eventDate: Date;
-        try {
-          if (event.dateTime?.start) {
-            eventDate = new Date(event.dateTime.start);
-          } else if (event.startDate) {
-            eventDate = new Date(event.startDate);
-          } else {
-            console.warn("開催日が不明なイベントをスキップ:", event.title);
-            errorCount++;
-            continue;
-          }
-        } catch (dateError) {
-          console.warn("開催日の解析に失敗:", event.title, dateError);
-          errorCount++;
-          continue;
-        }
-
-        // イベント形式の決定
-        let format: EventFormat = EventFormat.OFFLINE;
-        if (
-          event.format === "ONLINE" ||
-          event.venue?.toLowerCase().includes("online")
-        ) {
-          format = EventFormat.ONLINE;
-        }
-
-        // 開始時間の設定（ISO形式）
-        const startTime = event.dateTime?.start
-          ? new Date(event.dateTime.start).toISOString()
-          : null;
-
-        // 参加費は0に固定
-        let price = 0;
-
-        // イベントの重複チェック (URLで判定)
-        const existingEvent = await prisma.event.findFirst({
-          where: { detailUrl: event.eventUrl },
-        });
-
-        if (existingEvent) {
-          console.log(`既存のイベントをスキップ: ${event.title}`);
-          continue;
-        }
-
-        // イベントをデータベースに保存
-        const savedEvent = await prisma.event.create({
-          data: {
-            title: event.title,
-            description: event.description || event.details?.overview || "",
-            eventDate: eventDate,
-            startTime: startTime,
-            venue: event.venue || event.detailedVenue || "未定",
-            address: null,
-            location: event.venue || "未定",
-            detailUrl: event.eventUrl,
-            organizationId: organizationId,
-            image: event.thumbnailUrl || null,
-            format: format,
-            difficulty: DifficultyLevel.FOR_EVERYONE,
-            price: price, // 常に0
-            eventType: EventType.WORKSHOP,
-          },
-        });
-
-        savedCount++;
-        console.log(`保存完了: ${savedEvent.title} (ID: ${savedEvent.id})`);
-      } catch (eventError) {
-        console.error(`イベント保存エラー (${event.title}):`, eventError);
-        errorCount++;
-      }
-    }
-
-    console.log(
-      `データベース保存完了: ${savedCount}件成功, ${errorCount}件エラー`
-    );
-  } catch (error) {
-    console.error("データベース保存処理でエラーが発生しました:", error);
-    throw error;
-  }
-}
-
 async function scrapeTechPlayAndExtractData(): Promise<TechPlayEvent[]> {
   let browser: Browser | null = null;
   const allEventsData: TechPlayEvent[] = [];
@@ -629,9 +524,6 @@ async function scrapeTechPlayAndExtractData(): Promise<TechPlayEvent[]> {
     // JSONファイルに保存
     await saveEventsAsJson(allEventsData);
 
-    // データベースに保存
-    await saveTechPlayEventsToDatabase(allEventsData);
-
     return allEventsData;
   } catch (error) {
     console.error("スクレイピング処理でエラーが発生しました:", error);
@@ -648,7 +540,7 @@ async function scrapeTechPlayAndExtractData(): Promise<TechPlayEvent[]> {
 async function verifyDatabaseSave(): Promise<void> {
   try {
     const techPlayOrg = await prisma.organization.findFirst({
-      where: { name: "TECH PLAY" },
+      where: { source: "techplay", name: "TECH PLAY" },
     });
 
     if (techPlayOrg) {
@@ -689,6 +581,12 @@ async function verifyDatabaseSave(): Promise<void> {
 if (require.main === module) {
   scrapeTechPlayAndExtractData()
     .then(async (data) => {
+      // データベースに保存
+      const summary = await ingestEvents(techPlayAdapter, data);
+      console.log(
+        `データベース保存完了: 登録${summary.created}件 更新${summary.updated}件 変更なし${summary.unchanged}件 失敗${summary.failed}件`
+      );
+
       console.log(`処理完了: ${data.length} 件のイベントを処理しました`);
       if (data.length > 0) {
         console.log("取得データの一部:", JSON.stringify(data[0], null, 2));
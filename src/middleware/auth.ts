@@ -0,0 +1,111 @@
+import { Request, Response, NextFunction } from "express";
+import { UserRole } from "@prisma/client";
+import { getUserBySessionToken } from "../services/sessionService";
+
+/**
+ * Authorization ヘッダーからセッショントークンを取り出す
+ * @returns トークン（Bearer 形式でない場合は null）
+ */
+export const getBearerToken = (req: Request) => {
+  const header = req.get("authorization");
+  if (!header) return null;
+
+  const [scheme, token] = header.split(" ");
+  return scheme?.toLowerCase() === "bearer" && token ? token : null;
+};
+
+/**
+ * セッショントークンを検証し、ログイン中のユーザーを req.user に設定するミドルウェア
+ * トークンがない・無効な場合は 401 を返す
+ */
+export const authenticate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const token = getBearerToken(req);
+    if (!token) {
+      res.status(401).json({
+        success: false,
+        message: "ログインが必要です",
+      });
+      return;
+    }
+
+    const user = await getUserBySessionToken(token);
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        message: "セッションが無効か、有効期限が切れています",
+      });
+      return;
+    }
+
+    req.user = user;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * 指定したロールのユーザーのみ許可するミドルウェア（authenticate の後に使う）
+ * @param roles 許可するロール
+ */
+export const requireRole =
+  (...roles: UserRole[]) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user || !roles.includes(req.user.role)) {
+      res.status(403).json({
+        success: false,
+        message: "この操作を行う権限がありません",
+      });
+      return;
+    }
+    next();
+  };
+
+/**
+ * 管理者のみ許可するミドルウェア（authenticate の後に使う）
+ */
+export const requireAdmin = requireRole(UserRole.ADMIN);
+
+/**
+ * 本人のデータに対する操作のみ許可するミドルウェア（authenticate の後に使う）
+ * URLパラメータまたはリクエストボディの userId がログイン中のユーザーと一致するかを確認する
+ * ボディで userId が省略された場合はログイン中のユーザーIDを補う
+ * 管理者はすべてのユーザーのデータを操作できる
+ * @param field ユーザーIDを表すパラメータ名
+ */
+export const requireSelf =
+  (field: string = "userId") =>
+  (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: "ログインが必要です",
+      });
+      return;
+    }
+
+    const targetUserId = req.params[field] ?? req.body?.[field];
+
+    if (targetUserId === undefined) {
+      if (req.body && typeof req.body === "object") {
+        req.body[field] = req.user.id;
+      }
+      next();
+      return;
+    }
+
+    if (targetUserId !== req.user.id && req.user.role !== UserRole.ADMIN) {
+      res.status(403).json({
+        success: false,
+        message: "他のユーザーのデータは操作できません",
+      });
+      return;
+    }
+
+    next();
+  };
@@ -0,0 +1,50 @@
+import { Request, Response, NextFunction } from "express";
+import { verifyLineSignature } from "../utils/lineSignature";
+
+/**
+ * LINE Webhook の署名を検証するミドルウェア
+ * express.json の verify で保持した生のリクエストボディを使って
+ * X-Line-Signature ヘッダーを検証し、署名のない・改ざんされたリクエストを拒否する
+ */
+export const verifyLineWebhookSignature = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const channelSecret = process.env.LINE_CHANNEL_SECRET;
+
+  if (!channelSecret) {
+    console.error("LINE_CHANNEL_SECRET が設定されていません");
+    res.status(500).json({
+      success: false,
+      message: "Webhook の署名検証が設定されていません",
+    });
+    return;
+  }
+
+  const signature = req.get("x-line-signature");
+  if (!signature) {
+    console.warn(
+      "X-Line-Signature ヘッダーのないWebhookリクエストを拒否しました"
+    );
+    res.status(401).json({
+      success: false,
+      message: "署名がありません",
+    });
+    return;
+  }
+
+  if (
+    !req.rawBody ||
+    !verifyLineSignature(req.rawBody, signature, channelSecret)
+  ) {
+    console.warn("署名が一致しないWebhookリクエストを拒否しました");
+    res.status(401).json({
+      success: false,
+      message: "署名が不正です",
+    });
+    return;
+  }
+
+  next();
+};
@@ -1,5 +1,11 @@
 import express from "express";
-import { syncUser, testLogin } from "../controllers/authController";
+import {
+  syncUser,
+  testLogin,
+  getCurrentUser,
+  logout,
+} from "../controllers/authController";
+import { authenticate } from "../middleware/auth";
 
 const router = express.Router();
 
@@ -20,4 +26,22 @@ router.post("/login", async (req, res, next) => {
   }
 });
 
+// ログイン中のユーザー情報を取得するエンドポイント
+router.get("/me", authenticate, async (req, res, next) => {
+  try {
+    await getCurrentUser(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ログアウト（セッションを削除する）エンドポイント
+router.post("/logout", async (req, res, next) => {
+  try {
+    await logout(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
@@ -4,16 +4,20 @@ import {
   removeBookmark,
   getUserBookmarks,
 } from "../controllers/bookmarkController";
+import { authenticate, requireSelf } from "../middleware/auth";
 
 const router = express.Router();
 
+// ブックマークはすべてログイン中のユーザー本人のみ操作できる
+router.use(authenticate);
+
 // ブックマークの追加
-router.post("/", addBookmark);
+router.post("/", requireSelf(), addBookmark);
 
 // ブックマークの削除
-router.delete("/:userId/:eventId", removeBookmark);
+router.delete("/:userId/:eventId", requireSelf(), removeBookmark);
 
 // ユーザーのブックマーク一覧取得
-router.get("/user/:userId", getUserBookmarks);
+router.get("/user/:userId", requireSelf(), getUserBookmarks);
 
 export default router;
@@ -5,6 +5,7 @@ import {
   getUpcomingConnpassEvents,
   syncUpcomingConnpassEvents,
 } from "../controllers/connpassController";
+import { authenticate, requireAdmin } from "../middleware/auth";
 
 const router = Router();
 
@@ -31,9 +32,9 @@ router.get("/upcoming", getUpcomingConnpassEvents);
 
 /**
  * @route   POST /api/connpass/sync
- * @desc    Connpassイベントを同期する
- * @access  Public
+ * @desc    Connpassイベントの同期をバックグラウンドで開始する（結果は GET /api/sync/runs/:id）
+ * @access  Admin
  */
-router.post("/sync", syncUpcomingConnpassEvents);
+router.post("/sync", authenticate, requireAdmin, syncUpcomingConnpassEvents);
 
 export default router;
@@ -4,15 +4,33 @@ import {
   getEventById,
   createEvent,
   searchEvents,
+  semanticSearchEvents,
+  getSimilarEvents,
   updateEvent,
+  deleteEvent,
+  mergeDuplicateEvents,
 } from "../controllers/eventController";
+import { authenticate, requireAdmin, requireRole } from "../middleware/auth";
+import { UserRole } from "@prisma/client";
 
 const router = Router();
 
 router.get("/", getEvents);
 router.get("/search", searchEvents);
+router.get("/semantic-search", semanticSearchEvents);
 router.get("/:id", getEventById);
-router.post("/", createEvent);
-router.put("/:id", updateEvent);
+router.get("/:id/similar", getSimilarEvents);
+
+// イベントの作成・更新・削除（管理者と主催者。主催者は所属する団体のイベントのみ）
+const requireEventManager = [
+  authenticate,
+  requireRole(UserRole.ADMIN, UserRole.ORGANIZER),
+];
+router.post("/", requireEventManager, createEvent);
+router.put("/:id", requireEventManager, updateEvent);
+router.delete("/:id", requireEventManager, deleteEvent);
+
+// 取り込み元をまたいだ重複イベントの統合（管理者のみ）
+router.post("/dedup", authenticate, requireAdmin, mergeDuplicateEvents);
 
 export default router;
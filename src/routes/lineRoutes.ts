@@ -6,22 +6,42 @@ import {
   sendEventReminderNotifications,
 } from "../controllers/lineController";
 import { handleLineWebhook } from "../controllers/webhookController";
+import {
+  getWebhookJobs,
+  getWebhookJob,
+  retryDeadWebhookJob,
+} from "../controllers/webhookJobController";
+import { verifyLineWebhookSignature } from "../middleware/lineSignature";
+import { authenticate, requireAdmin } from "../middleware/auth";
 
 const router = Router();
 
-// 特定のユーザーIDにLINE通知を送信するエンドポイント
-router.post("/notify", sendLineNotification);
+// 特定のユーザーIDにLINE通知を送信するエンドポイント（管理者のみ）
+router.post("/notify", authenticate, requireAdmin, sendLineNotification);
 
-// 特定のユーザーIDにレコメンドイベントIDリストをもとにイベントカルーセルを送信するエンドポイント
-router.post("/event-recommend", sendEventRecommend);
+// 特定のユーザーIDにレコメンドイベントIDリストをもとにイベントカルーセルを送信するエンドポイント（管理者のみ）
+router.post("/event-recommend", authenticate, requireAdmin, sendEventRecommend);
 
 // LINEからのブックマーク追加を受け取るエンドポイント
-router.post("/webhook", handleLineWebhook);
+router.post("/webhook", verifyLineWebhookSignature, handleLineWebhook);
+
+// Webhookジョブの一覧・詳細（送信結果や失敗内容）を確認するエンドポイント（管理者のみ）
+router.get("/jobs", authenticate, requireAdmin, getWebhookJobs);
+router.get("/jobs/:id", authenticate, requireAdmin, getWebhookJob);
+
+// DEAD になったWebhookジョブを再実行するエンドポイント（管理者のみ）
+router.post("/jobs/:id/retry", authenticate, requireAdmin, retryDeadWebhookJob);
 
 // LINE認証コードからトークンとプロフィール情報を取得し、ユーザー情報を保存するエンドポイント
 router.post("/auth", processLineAuth);
 
-// 1週間後に開催されるイベントをブックマークしているユーザーにリマインドメッセージを送信するエンドポイント
-router.post("/send-reminders", sendEventReminderNotifications);
+// ブックマークしたイベントのリマインドを、各ユーザーの設定したタイミングで送信するエンドポイント
+// 全ユーザーが対象のため、通常はスケジューラー（REMINDER_CRON）が実行する（手動実行は管理者のみ）
+router.post(
+  "/send-reminders",
+  authenticate,
+  requireAdmin,
+  sendEventReminderNotifications
+);
 
 export default router;
@@ -0,0 +1,38 @@
+import { Router } from "express";
+import {
+  listOrganizations,
+  getOrganization,
+  getOrganizationEvents,
+  createOrganization,
+  updateOrganization,
+  deleteOrganization,
+  addMember,
+  removeMember,
+} from "../controllers/organizationController";
+import { authenticate, requireAdmin, requireRole } from "../middleware/auth";
+import { UserRole } from "@prisma/client";
+
+const router = Router();
+
+// 主催団体の一覧・詳細・イベント一覧（認証不要）
+router.get("/", listOrganizations);
+router.get("/:id", getOrganization);
+router.get("/:id/events", getOrganizationEvents);
+
+// 主催団体の作成・削除（管理者のみ）
+router.post("/", authenticate, requireAdmin, createOrganization);
+router.delete("/:id", authenticate, requireAdmin, deleteOrganization);
+
+// 主催団体の更新（管理者と、その団体に所属する主催者）
+router.put(
+  "/:id",
+  authenticate,
+  requireRole(UserRole.ADMIN, UserRole.ORGANIZER),
+  updateOrganization
+);
+
+// 主催団体メンバーの追加・削除（管理者のみ）
+router.post("/:id/members", authenticate, requireAdmin, addMember);
+router.delete("/:id/members/:userId", authenticate, requireAdmin, removeMember);
+
+export default router;
@@ -2,11 +2,21 @@ import { Router } from "express";
 import {
   recommendByUser,
   recommendByMessage,
+  getRecommendationHistory,
+  getRecommendationById,
+  submitRecommendationFeedback,
 } from "../controllers/recommendController";
+import { authenticate, requireSelf } from "../middleware/auth";
 
 const router = Router();
 
-router.post("/user", recommendByUser);
-router.post("/message", recommendByMessage);
+// userId を省略した場合はログイン中のユーザーのレコメンドを返す（他のユーザーの userId は管理者のみ指定できる）
+router.post("/user", authenticate, requireSelf(), recommendByUser);
+router.post("/message", authenticate, requireSelf(), recommendByMessage);
+
+// レコメンド履歴と、レコメンドしたイベントへのフィードバック
+router.get("/history", authenticate, getRecommendationHistory);
+router.get("/:id", authenticate, getRecommendationById);
+router.post("/:id/feedback", authenticate, submitRecommendationFeedback);
 
 export default router;
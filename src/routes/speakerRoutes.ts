@@ -1,9 +1,32 @@
 import { Router } from "express";
-import { getSpeakers, createSpeaker } from "../controllers/speakerController";
+import {
+  getSpeakers,
+  createSpeaker,
+  updateSpeaker,
+  deleteSpeaker,
+} from "../controllers/speakerController";
+import { authenticate, requireAdmin, requireRole } from "../middleware/auth";
+import { UserRole } from "@prisma/client";
 
 const router = Router();
 
 router.get("/", getSpeakers);
-router.post("/", createSpeaker);
+
+// スピーカーの作成・更新（管理者と主催者。主催者は所属する団体のイベントにのみ登壇するスピーカーを更新できる）
+router.post(
+  "/",
+  authenticate,
+  requireRole(UserRole.ADMIN, UserRole.ORGANIZER),
+  createSpeaker
+);
+router.put(
+  "/:id",
+  authenticate,
+  requireRole(UserRole.ADMIN, UserRole.ORGANIZER),
+  updateSpeaker
+);
+
+// スピーカーの削除（複数の団体のイベントに紐づくため管理者のみ）
+router.delete("/:id", authenticate, requireAdmin, deleteSpeaker);
 
 export default router;
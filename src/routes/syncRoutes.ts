@@ -0,0 +1,32 @@
+import { Router } from "express";
+import {
+  startSync,
+  getSyncRuns,
+  getSyncRun,
+} from "../controllers/syncRunController";
+import { authenticate, requireAdmin } from "../middleware/auth";
+
+const router = Router();
+
+/**
+ * @route   GET /api/sync/runs
+ * @desc    イベントの取り込み（同期）の実行履歴を取得する
+ * @access  Admin
+ */
+router.get("/runs", authenticate, requireAdmin, getSyncRuns);
+
+/**
+ * @route   GET /api/sync/runs/:id
+ * @desc    同期の詳細（件数・イベントごとのエラー）を取得する
+ * @access  Admin
+ */
+router.get("/runs/:id", authenticate, requireAdmin, getSyncRun);
+
+/**
+ * @route   POST /api/sync/:source
+ * @desc    取り込み元（connpass, techplay, supporterz）の同期をバックグラウンドで開始する
+ * @access  Admin
+ */
+router.post("/:source", authenticate, requireAdmin, startSync);
+
+export default router;
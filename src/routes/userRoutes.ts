@@ -3,17 +3,43 @@ import {
   lineLogin,
   getUserProfile,
   updateUserProfile,
+  getUserReminderSettings,
+  updateUserReminderSettings,
+  getUserUpcomingReminders,
 } from "../controllers/userController";
+import { authenticate, requireSelf } from "../middleware/auth";
 
 const router = Router();
 
 // LINEログイン処理
 router.post("/line-login", lineLogin);
 
+// リマインド設定の取得・更新
+router.get(
+  "/:userId/reminders",
+  authenticate,
+  requireSelf(),
+  getUserReminderSettings
+);
+router.put(
+  "/:userId/reminders",
+  authenticate,
+  requireSelf(),
+  updateUserReminderSettings
+);
+
+// ブックマークした開催予定のイベントと次回のリマインド日時の確認
+router.get(
+  "/:userId/reminders/upcoming",
+  authenticate,
+  requireSelf(),
+  getUserUpcomingReminders
+);
+
 // ユーザープロフィール取得
-router.get("/:userId", getUserProfile);
+router.get("/:userId", authenticate, requireSelf(), getUserProfile);
 
 // ユーザープロフィール更新
-router.put("/:userId", updateUserProfile);
+router.put("/:userId", authenticate, requireSelf(), updateUserProfile);
 
 export default router;
@@ -1,5 +1,6 @@
 import prisma from "../config/prisma";
 import crypto from "crypto";
+import { resolveCanonicalEventId } from "./eventDedupService";
 
 /**
  * LINEからのブックマーク追加処理
@@ -12,6 +13,9 @@ export const addBookmarkFromLine = async (
   eventId: string
 ): Promise<{ success: boolean; message: string; isNew: boolean }> => {
   try {
+    // 重複として統合されたイベントは代表のイベントをブックマークする
+    eventId = await resolveCanonicalEventId(eventId);
+
     // すでにブックマークが存在するか確認
     const existingBookmark = await prisma.bookmark.findFirst({
       where: {
@@ -49,3 +53,30 @@ export const addBookmarkFromLine = async (
     throw error;
   }
 };
+
+/**
+ * ブックマークを削除する
+ * 指定されたイベントのブックマーク（統合の前に追加されたものを含む）を優先して削除し、
+ * なければ統合先の代表のイベントのブックマークを削除する
+ * @param userId ユーザーID
+ * @param eventId イベントID
+ * @returns 削除したブックマーク数
+ */
+export const removeBookmarkForEvent = async (
+  userId: string,
+  eventId: string
+) => {
+  const { count } = await prisma.bookmark.deleteMany({
+    where: { userId, eventId },
+  });
+  if (count > 0) return count;
+
+  const canonicalId = await resolveCanonicalEventId(eventId);
+  if (canonicalId === eventId) return 0;
+
+  return (
+    await prisma.bookmark.deleteMany({
+      where: { userId, eventId: canonicalId },
+    })
+  ).count;
+};
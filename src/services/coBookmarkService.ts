@@ -0,0 +1,155 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../config/prisma";
+import { ScoredEvent } from "../utils/ragUtils";
+
+// 類似イベントの取得件数のデフォルトと上限
+export const DEFAULT_SIMILAR_EVENT_LIMIT = 10;
+export const MAX_SIMILAR_EVENT_LIMIT = 50;
+
+// 共起ブックマークで求めたイベントの類似度
+export interface CoBookmarkScore {
+  id: string;
+  score: number;
+  coBookmarkCount: number; // 基準のイベントと一緒にブックマークしたユーザー数
+}
+
+/**
+ * 基準のイベントと一緒にブックマークされたイベントの類似度を計算する（アイテムベース協調フィルタリング）
+ * 2つのイベントの類似度は、それぞれをブックマークしたユーザー集合のコサイン類似度
+ *   |U_i ∩ U_j| / sqrt(|U_i| × |U_j|)
+ * 基準のイベントが複数ある場合は類似度を合計する
+ * @param seedEventIds 基準のイベントID
+ * @param options.candidateIds 対象を絞り込む場合のイベントID
+ * @param options.eventWhere 対象を絞り込む場合のイベントの条件
+ * @param options.excludeUserId 計算から除くユーザー（レコメンド対象のユーザー自身）
+ * @returns 類似度の高い順のイベント（基準のイベントは含まない）
+ */
+export const computeCoBookmarkScores = async (
+  seedEventIds: string[],
+  options: {
+    candidateIds?: string[];
+    eventWhere?: Prisma.EventWhereInput;
+    excludeUserId?: string;
+  } = {}
+): Promise<CoBookmarkScore[]> => {
+  const { candidateIds, eventWhere, excludeUserId } = options;
+  if (seedEventIds.length === 0) return [];
+  if (candidateIds && candidateIds.length === 0) return [];
+
+  const userFilter = excludeUserId ? { not: excludeUserId } : undefined;
+
+  // 基準のイベントごとのブックマークしたユーザー
+  const seedBookmarks = await prisma.bookmark.findMany({
+    where: { eventId: { in: seedEventIds }, userId: userFilter },
+    select: { userId: true, eventId: true },
+  });
+  if (seedBookmarks.length === 0) return [];
+
+  const usersBySeed = new Map<string, Set<string>>();
+  for (const { userId, eventId } of seedBookmarks) {
+    if (!usersBySeed.has(eventId)) usersBySeed.set(eventId, new Set());
+    usersBySeed.get(eventId).add(userId);
+  }
+
+  // 同じユーザーがブックマークした他のイベント
+  const coBookmarks = await prisma.bookmark.findMany({
+    where: {
+      userId: { in: Array.from(new Set(seedBookmarks.map((b) => b.userId))) },
+      eventId: {
+        notIn: seedEventIds,
+        ...(candidateIds ? { in: candidateIds } : {}),
+      },
+      Event: eventWhere,
+    },
+    select: { userId: true, eventId: true },
+  });
+  if (coBookmarks.length === 0) return [];
+
+  const usersByEvent = new Map<string, Set<string>>();
+  for (const { userId, eventId } of coBookmarks) {
+    if (!usersByEvent.has(eventId)) usersByEvent.set(eventId, new Set());
+    usersByEvent.get(eventId).add(userId);
+  }
+
+  // コサイン類似度の分母に使う、イベントごとのブックマーク数
+  const counts = await prisma.bookmark.groupBy({
+    by: ["eventId"],
+    where: {
+      eventId: { in: Array.from(usersByEvent.keys()) },
+      userId: userFilter,
+    },
+    _count: { _all: true },
+  });
+  const bookmarkCounts = new Map(
+    counts.map((count) => [count.eventId, count._count._all])
+  );
+
+  const scores: CoBookmarkScore[] = [];
+  usersByEvent.forEach((users, eventId) => {
+    const count = bookmarkCounts.get(eventId) || users.size;
+    let score = 0;
+    usersBySeed.forEach((seedUsers) => {
+      let intersection = 0;
+      users.forEach((userId) => {
+        if (seedUsers.has(userId)) intersection++;
+      });
+      score += intersection / Math.sqrt(seedUsers.size * count);
+    });
+    scores.push({ id: eventId, score, coBookmarkCount: users.size });
+  });
+
+  return scores.sort(
+    (a, b) => b.score - a.score || b.coBookmarkCount - a.coBookmarkCount
+  );
+};
+
+/**
+ * 一緒にブックマークされることの多いイベントを取得する
+ * レコメンドの候補と同じく、統合されたイベントと開始済みのイベントは含めない
+ * @param eventId 基準のイベントID
+ * @param limit 取得件数
+ * @returns 類似度の高い順のイベントIDと類似度
+ */
+export const findSimilarEventsByCoBookmark = async (
+  eventId: string,
+  limit: number = DEFAULT_SIMILAR_EVENT_LIMIT
+) =>
+  (
+    await computeCoBookmarkScores([eventId], {
+      eventWhere: { mergedIntoId: null, eventDate: { gte: new Date() } },
+    })
+  ).slice(0, limit);
+
+/**
+ * ユーザーのブックマークをもとに、候補のイベントを協調フィルタリングで順位付けする
+ * fuseRankings でテキスト類似度のランキングと融合できるよう、スコアは最大値が 1 になるよう正規化する
+ * 協調フィルタリングは補助的なランキングのため、失敗した場合はエラーをログに出して空のランキングを返す
+ * @param userId ユーザーID
+ * @param candidateIds 候補のイベントID
+ * @returns スコアの高い順のランキング（ブックマーク済みのイベントは含まない）
+ */
+export const computeCoBookmarkRankingForUser = async (
+  userId: string,
+  candidateIds: string[]
+): Promise<ScoredEvent[]> => {
+  try {
+    const bookmarks = await prisma.bookmark.findMany({
+      where: { userId },
+      select: { eventId: true },
+    });
+    const scores = await computeCoBookmarkScores(
+      bookmarks.map((b) => b.eventId),
+      { candidateIds, excludeUserId: userId }
+    );
+    const maxScore = scores[0]?.score || 0;
+    if (maxScore === 0) return [];
+
+    return scores.map(({ id, score }) => ({ id, score: score / maxScore }));
+  } catch (error) {
+    console.error(
+      "共起ブックマークによるランキングの計算に失敗しました:",
+      error
+    );
+    return [];
+  }
+};
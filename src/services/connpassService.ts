@@ -1,10 +1,17 @@
 import axios from "axios";
-import prisma from "../config/prisma";
-import {
-  convertConnpassEventToPrismaEvent,
-  detectLocationFromAddress,
-} from "../utils/connpassEventUtils";
-import { extractEventKeyData } from "../utils/extractEventKeyData";
+import { getSyncCursor, updateSyncCursor } from "./syncCursorService";
+import { ingestEvents, runEventSourceAdapter } from "./eventIngestionService";
+import { connpassAdapter } from "./eventSources/connpassAdapter";
+import { SyncErrorReporter, SyncSummary } from "../types/syncTypes";
+
+// 1回のリクエストで取得する件数（API の上限）
+const CONNPASS_PAGE_SIZE = 100;
+// 1回の検索で取得するページ数の上限
+const MAX_CONNPASS_PAGES = 10;
+// レート制限を避けるためのリクエスト間隔（ミリ秒）
+const CONNPASS_REQUEST_INTERVAL_MS = 2000;
+// 差分同期の位置（SyncCursor.source）
+const CONNPASS_SYNC_SOURCE = "connpass";
 
 /**
  * Connpass API V2のレスポンス型定義
@@ -42,6 +49,9 @@ export interface ConnpassEventV2 {
 
 export interface ConnpassResponseV2 {
   total?: number; // 全件数 (v2 は results_available などの場合あり)
+  results_available?: number; // 検索条件に一致する全件数
+  results_returned?: number; // 取得件数
+  results_start?: number; // 検索の開始位置
   count?: number; // 取得件数
   offset?: number; // オフセット
   events: ConnpassEventV2[]; // イベント一覧
@@ -104,7 +114,10 @@ export const fetchConnpassEventsV2 = async (
     const got = Array.isArray(response.data.events)
       ? response.data.events.length
       : 0;
-    const total = (response.data.total as number | undefined) ?? "?";
+    const total =
+      (response.data.results_available as number | undefined) ??
+      (response.data.total as number | undefined) ??
+      "?";
     console.log(`Connpass API V2: ${got}件取得（全${total}件中）`);
 
     return response.data;
@@ -115,168 +128,300 @@ export const fetchConnpassEventsV2 = async (
 };
 
 /**
- * Connpass APIから最新100件のイベントを取得して Event テーブルに upsert
- * @param apiKey Connpass APIキー
- * @returns 取得件数と保存件数
+ * 指定ミリ秒待機する
+ * @param ms 待機時間（ミリ秒）
  */
-export const fetchAndSaveLatestEvents = async (
-  apiKey: string
-): Promise<{ fetched: number; saved: number }> => {
-  if (!apiKey) throw new Error("CONNPASS_API_KEY is required");
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
-  // 新着順で100件取得
-  const response = await fetchConnpassEventsV2({
-    api_key: apiKey,
-    order: 3, // 新着順
-    count: 100,
-  });
+/**
+ * Connpass API V2を複数ページにわたって呼び出す関数
+ * updatedAfter を指定した場合は更新日時順に取得し、それ以前に更新されたイベントに達した時点で終了する
+ * @param params 検索パラメータ（start, count, order は上書きする）
+ * @param options.updatedAfter この日時より後に更新されたイベントのみ取得する
+ * @param options.maxPages 取得するページ数の上限
+ * @returns イベント一覧（重複は除く）と、ページ数の上限で取得を打ち切ったかどうか
+ */
+export const fetchAllConnpassEventsV2 = async (
+  params: ConnpassSearchParamsV2,
+  options: { updatedAfter?: Date | null; maxPages?: number } = {}
+): Promise<{ events: ConnpassEventV2[]; truncated: boolean }> => {
+  const { updatedAfter, maxPages = MAX_CONNPASS_PAGES } = options;
+  const events = new Map<number, ConnpassEventV2>();
+  let truncated = false;
 
-  const events = response.events.map((event) => {
-    // address/placeからlocationを判定
-    const location = detectLocationFromAddress(event.place, event.address);
-    return convertConnpassEventToPrismaEvent(event, location);
-  });
+  for (let page = 0; page < maxPages; page++) {
+    // 2秒sleepしてレート制限回避
+    if (page > 0) await sleep(CONNPASS_REQUEST_INTERVAL_MS);
 
-  let saved = 0;
-  for (const ev of events) {
-    try {
-      // メタデータ抽出
-      const { keywords, keyPhrases, keySentences } = await extractEventKeyData(
-        ev.description || ""
-      );
+    const response = await fetchConnpassEventsV2({
+      ...params,
+      ...(updatedAfter ? { order: 1 as const } : {}), // 更新日時順
+      start: page * CONNPASS_PAGE_SIZE + 1,
+      count: CONNPASS_PAGE_SIZE,
+    });
+
+    let reachedCursor = false;
+    for (const event of response.events) {
+      if (updatedAfter && new Date(event.updated_at) <= updatedAfter) {
+        reachedCursor = true;
+        break;
+      }
+      events.set(event.id, event);
+    }
 
-      await prisma.event.upsert({
-        where: { id: ev.id },
-        create: { ...ev, keywords, keyPhrases, keySentences },
-        update: {
-          title: ev.title,
-          description: ev.description,
-          eventDate: ev.eventDate,
-          startTime: ev.startTime,
-          endTime: ev.endTime,
-          venue: ev.venue,
-          address: ev.address,
-          detailUrl: ev.detailUrl,
-          keywords,
-          keyPhrases,
-          keySentences,
-          updatedAt: new Date(),
-        },
-      });
-      saved++;
-    } catch (e) {
-      console.error("Event upsert failed", e);
+    const available = response.results_available ?? response.total;
+    const received = page * CONNPASS_PAGE_SIZE + response.events.length;
+    if (
+      reachedCursor ||
+      response.events.length < CONNPASS_PAGE_SIZE ||
+      (available !== undefined && received >= available)
+    ) {
+      break;
+    }
+    if (page === maxPages - 1) {
+      truncated = true;
+      console.warn(
+        `Connpass API V2: ${maxPages}ページ（${received}件）で取得を打ち切りました（全${
+          available ?? "?"
+        }件中）`
+      );
     }
   }
 
-  return { fetched: events.length, saved };
+  return { events: Array.from(events.values()), truncated };
 };
 
+/**
+ * 日付を時刻を除いた日付（UTC）に変換する
+ * @param date 日付
+ * @returns その日の 0 時（UTC）
+ */
+const toUtcDay = (date: Date) => new Date(date.toISOString().split("T")[0]);
+
+/**
+ * 開催日の範囲を指定して Connpass API V2 からイベントを取得する
+ * ページ数の上限で打ち切られた場合は期間を半分に分けて取得し直す
+ * @param params 検索パラメータ（ymd, ymd_end は上書きする）
+ * @param from 開催日の始まり
+ * @param to 開催日の終わり
+ * @param updatedAfter この日時より後に更新されたイベントのみ取得する
+ * @returns イベント一覧と、1日分でも取得しきれなかったかどうか
+ */
+const fetchConnpassEventsByDateRange = async (
+  params: ConnpassSearchParamsV2,
+  from: Date,
+  to: Date,
+  updatedAfter?: Date | null
+): Promise<{ events: ConnpassEventV2[]; truncated: boolean }> => {
+  const result = await fetchAllConnpassEventsV2(
+    { ...params, ymd: toConnpassYmd(from), ymd_end: toConnpassYmd(to) },
+    { updatedAfter }
+  );
+
+  const days = Math.round(
+    (toUtcDay(to).getTime() - toUtcDay(from).getTime()) / (24 * 60 * 60 * 1000)
+  );
+  if (!result.truncated || days < 1) return result;
+
+  const middle = toUtcDay(from);
+  middle.setUTCDate(middle.getUTCDate() + Math.floor(days / 2));
+  const next = new Date(middle);
+  next.setUTCDate(next.getUTCDate() + 1);
+  console.log(
+    `Connpass API V2: ${toConnpassYmd(from)}〜${toConnpassYmd(
+      to
+    )}を期間を分けて取得し直します`
+  );
+
+  await sleep(CONNPASS_REQUEST_INTERVAL_MS);
+  const first = await fetchConnpassEventsByDateRange(
+    params,
+    from,
+    middle,
+    updatedAfter
+  );
+  await sleep(CONNPASS_REQUEST_INTERVAL_MS);
+  const second = await fetchConnpassEventsByDateRange(
+    params,
+    next,
+    to,
+    updatedAfter
+  );
+  return {
+    events: [...first.events, ...second.events],
+    truncated: first.truncated || second.truncated,
+  };
+};
+
+/**
+ * 同期結果の件数を合算する
+ * @param total 合算先
+ * @param summary 加える件数
+ */
+const addSyncSummary = (total: SyncSummary, summary: Partial<SyncSummary>) => {
+  (Object.keys(total) as (keyof SyncSummary)[]).forEach((key) => {
+    total[key] += summary[key] ?? 0;
+  });
+};
+
+/**
+ * 日付を Connpass API の YYYYMMDD 形式に変換する
+ * @param date 日付
+ * @returns YYYYMMDD 形式の文字列
+ */
+const toConnpassYmd = (date: Date) =>
+  date.toISOString().split("T")[0].replace(/-/g, "");
+
+/**
+ * Connpass APIから最新100件のイベントを取得して Event テーブルに upsert
+ * @param apiKey Connpass APIキー
+ * @param reportError イベントごとの保存エラーを記録する関数
+ * @returns 取得・登録・更新・変更なし・失敗の件数
+ */
+export const fetchAndSaveLatestEvents = async (
+  apiKey: string,
+  reportError?: SyncErrorReporter
+): Promise<SyncSummary> =>
+  runEventSourceAdapter(connpassAdapter, { apiKey }, reportError);
+
+// 47都道府県＋オンライン
+const PREFECTURES = [
+  { en: "hokkaido", ja: "北海道" },
+  { en: "aomori", ja: "青森県" },
+  { en: "iwate", ja: "岩手県" },
+  { en: "miyagi", ja: "宮城県" },
+  { en: "akita", ja: "秋田県" },
+  { en: "yamagata", ja: "山形県" },
+  { en: "fukushima", ja: "福島県" },
+  { en: "ibaraki", ja: "茨城県" },
+  { en: "tochigi", ja: "栃木県" },
+  { en: "gunma", ja: "群馬県" },
+  { en: "saitama", ja: "埼玉県" },
+  { en: "chiba", ja: "千葉県" },
+  { en: "tokyo", ja: "東京都" },
+  { en: "kanagawa", ja: "神奈川県" },
+  { en: "niigata", ja: "新潟県" },
+  { en: "toyama", ja: "富山県" },
+  { en: "ishikawa", ja: "石川県" },
+  { en: "fukui", ja: "福井県" },
+  { en: "yamanashi", ja: "山梨県" },
+  { en: "nagano", ja: "長野県" },
+  { en: "gifu", ja: "岐阜県" },
+  { en: "shizuoka", ja: "静岡県" },
+  { en: "aichi", ja: "愛知県" },
+  { en: "mie", ja: "三重県" },
+  { en: "shiga", ja: "滋賀県" },
+  { en: "kyoto", ja: "京都府" },
+  { en: "osaka", ja: "大阪府" },
+  { en: "hyogo", ja: "兵庫県" },
+  { en: "nara", ja: "奈良県" },
+  { en: "wakayama", ja: "和歌山県" },
+  { en: "tottori", ja: "鳥取県" },
+  { en: "shimane", ja: "島根県" },
+  { en: "okayama", ja: "岡山県" },
+  { en: "hiroshima", ja: "広島県" },
+  { en: "yamaguchi", ja: "山口県" },
+  { en: "tokushima", ja: "徳島県" },
+  { en: "kagawa", ja: "香川県" },
+  { en: "ehime", ja: "愛媛県" },
+  { en: "kochi", ja: "高知県" },
+  { en: "fukuoka", ja: "福岡県" },
+  { en: "saga", ja: "佐賀県" },
+  { en: "nagasaki", ja: "長崎県" },
+  { en: "kumamoto", ja: "熊本県" },
+  { en: "oita", ja: "大分県" },
+  { en: "miyazaki", ja: "宮崎県" },
+  { en: "kagoshima", ja: "鹿児島県" },
+  { en: "okinawa", ja: "沖縄県" },
+  { en: "online", ja: "オンライン" },
+];
+
 /**
  * 47都道府県＋オンラインごとにConnpass APIからイベントを取得し、locationに都道府県名または「オンライン」をセットして保存
+ * 都道府県ごとの同期の位置（SyncCursor）をもとに差分のみ取得する
+ * - 取り込み済みの期間: 前回の同期以降に更新されたイベントのみ（更新日時順に取得）
+ * - 新しく対象になった期間（初回はすべて）: 開催日で絞り込んだすべてのイベント
+ * ページ数の上限に達した期間は期間を分けて取得し直し、それでも取得しきれなかった場合は同期の位置を進めない
  * @param apiKey Connpass APIキー
  * @param days 取得する期間（日数、デフォルト30）
- * @returns 取得件数と保存件数
+ * @param reportError イベントごとの保存エラーを記録する関数
+ * @returns 取得・登録・更新・変更なし・失敗の件数
  */
 export const fetchAndSaveAllPrefectureEvents = async (
   apiKey: string,
-  days: number = 30
-): Promise<{ fetched: number; saved: number }> => {
+  days: number = 30,
+  reportError?: SyncErrorReporter
+): Promise<SyncSummary> => {
   if (!apiKey) throw new Error("CONNPASS_API_KEY is required");
-  let fetched = 0;
-  let saved = 0;
+  const total: SyncSummary = {
+    fetched: 0,
+    created: 0,
+    updated: 0,
+    unchanged: 0,
+    failed: 0,
+  };
   const today = new Date();
   const end = new Date();
   end.setDate(today.getDate() + days);
-  const ymd = today.toISOString().split("T")[0].replace(/-/g, "");
-  const ymd_end = end.toISOString().split("T")[0].replace(/-/g, "");
-
-  // 47都道府県＋オンライン
-  const PREFECTURES = [
-    { en: "hokkaido", ja: "北海道" },
-    { en: "aomori", ja: "青森県" },
-    { en: "iwate", ja: "岩手県" },
-    { en: "miyagi", ja: "宮城県" },
-    { en: "akita", ja: "秋田県" },
-    { en: "yamagata", ja: "山形県" },
-    { en: "fukushima", ja: "福島県" },
-    { en: "ibaraki", ja: "茨城県" },
-    { en: "tochigi", ja: "栃木県" },
-    { en: "gunma", ja: "群馬県" },
-    { en: "saitama", ja: "埼玉県" },
-    { en: "chiba", ja: "千葉県" },
-    { en: "tokyo", ja: "東京都" },
-    { en: "kanagawa", ja: "神奈川県" },
-    { en: "niigata", ja: "新潟県" },
-    { en: "toyama", ja: "富山県" },
-    { en: "ishikawa", ja: "石川県" },
-    { en: "fukui", ja: "福井県" },
-    { en: "yamanashi", ja: "山梨県" },
-    { en: "nagano", ja: "長野県" },
-    { en: "gifu", ja: "岐阜県" },
-    { en: "shizuoka", ja: "静岡県" },
-    { en: "aichi", ja: "愛知県" },
-    { en: "mie", ja: "三重県" },
-    { en: "shiga", ja: "滋賀県" },
-    { en: "kyoto", ja: "京都府" },
-    { en: "osaka", ja: "大阪府" },
-    { en: "hyogo", ja: "兵庫県" },
-    { en: "nara", ja: "奈良県" },
-    { en: "wakayama", ja: "和歌山県" },
-    { en: "tottori", ja: "鳥取県" },
-    { en: "shimane", ja: "島根県" },
-    { en: "okayama", ja: "岡山県" },
-    { en: "hiroshima", ja: "広島県" },
-    { en: "yamaguchi", ja: "山口県" },
-    { en: "tokushima", ja: "徳島県" },
-    { en: "kagawa", ja: "香川県" },
-    { en: "ehime", ja: "愛媛県" },
-    { en: "kochi", ja: "高知県" },
-    { en: "fukuoka", ja: "福岡県" },
-    { en: "saga", ja: "佐賀県" },
-    { en: "nagasaki", ja: "長崎県" },
-    { en: "kumamoto", ja: "熊本県" },
-    { en: "oita", ja: "大分県" },
-    { en: "miyazaki", ja: "宮崎県" },
-    { en: "kagoshima", ja: "鹿児島県" },
-    { en: "okinawa", ja: "沖縄県" },
-    { en: "online", ja: "オンライン" },
-  ];
 
   for (const pref of PREFECTURES) {
     // 2秒sleepしてレート制限回避
-    await new Promise((resolve) => setTimeout(resolve, 2000));
-    const response = await fetchConnpassEventsV2({
-      api_key: apiKey,
-      prefectures: pref.en,
-      ymd,
-      ymd_end,
-      count: 100,
-    });
-    fetched += response.events.length;
-    for (const ev of response.events) {
-      try {
-        const { keywords, keyPhrases, keySentences } =
-          await extractEventKeyData(ev.description || "");
-        // address/placeからlocationを判定
-        const locationToSave = detectLocationFromAddress(ev.place, ev.address);
-        const eventData = convertConnpassEventToPrismaEvent(ev, locationToSave);
-        await prisma.event.upsert({
-          where: { id: eventData.id },
-          create: { ...eventData, keywords, keyPhrases, keySentences },
-          update: {
-            ...eventData,
-            keywords,
-            keyPhrases,
-            keySentences,
-            updatedAt: new Date(),
-          },
-        });
-        saved++;
-      } catch (e) {
-        console.error("Event upsert failed", e);
+    await sleep(CONNPASS_REQUEST_INTERVAL_MS);
+
+    const cursor = await getSyncCursor(CONNPASS_SYNC_SOURCE, pref.en);
+    const params = { api_key: apiKey, prefectures: pref.en };
+    const events: ConnpassEventV2[] = [];
+    let truncated = false;
+
+    // 取り込み済みの期間は前回の同期以降に更新されたイベントのみ取得
+    const coveredUntil =
+      cursor?.lastUpdatedAt &&
+      cursor.coveredUntil &&
+      cursor.coveredUntil >= today
+        ? new Date(Math.min(cursor.coveredUntil.getTime(), end.getTime()))
+        : null;
+    if (coveredUntil) {
+      const result = await fetchConnpassEventsByDateRange(
+        params,
+        today,
+        coveredUntil,
+        cursor.lastUpdatedAt
+      );
+      events.push(...result.events);
+      truncated = truncated || result.truncated;
+    }
+
+    // 新しく対象になった期間はすべて取得
+    if (!coveredUntil || coveredUntil < end) {
+      const from = coveredUntil ? new Date(coveredUntil) : today;
+      if (coveredUntil) {
+        from.setDate(from.getDate() + 1);
+        await sleep(CONNPASS_REQUEST_INTERVAL_MS);
       }
+      const result = await fetchConnpassEventsByDateRange(params, from, end);
+      events.push(...result.events);
+      truncated = truncated || result.truncated;
     }
+
+    const summary = await ingestEvents(connpassAdapter, events, reportError);
+    addSyncSummary(total, summary);
+    console.log(
+      `Connpass同期（${pref.ja}）: 取得${events.length}件 登録${summary.created}件 更新${summary.updated}件 変更なし${summary.unchanged}件 失敗${summary.failed}件`
+    );
+
+    // 保存に失敗したイベントや取得しきれなかったイベントは次回も取得し直すよう、
+    // 失敗がなくすべて取得できた場合のみ同期の位置を進める
+    const lastUpdatedAt = events.reduce<Date | null>((latest, event) => {
+      const updatedAt = new Date(event.updated_at);
+      return !latest || updatedAt > latest ? updatedAt : latest;
+    }, null);
+    await updateSyncCursor(
+      CONNPASS_SYNC_SOURCE,
+      pref.en,
+      summary.failed === 0 && !truncated
+        ? { lastUpdatedAt, coveredUntil: end }
+        : {}
+    );
   }
-  return { fetched, saved };
+  return total;
 };
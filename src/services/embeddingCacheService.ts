@@ -0,0 +1,104 @@
+import crypto from "crypto";
+import prisma from "../config/prisma";
+import { getEmbeddingModelId, getEmbeddingProvider } from "./embeddingProvider";
+
+// 1回のAPI呼び出しで埋め込むテキスト数
+const EMBEDDING_BATCH_SIZE = 100;
+
+/**
+ * キャッシュのキーにするテキストのハッシュを計算する
+ * @param text テキスト
+ * @returns ハッシュ（16進数）
+ */
+const hashText = (text: string) =>
+  crypto.createHash("sha256").update(text).digest("hex");
+
+/**
+ * キャッシュから埋め込みベクトルを取得する
+ * キャッシュの読み込みに失敗した場合はすべて未キャッシュとして扱う
+ * @param hashes テキストのハッシュ
+ * @param model モデルの識別子
+ * @returns ハッシュごとのベクトル
+ */
+const findCachedVectors = async (hashes: string[], model: string) => {
+  try {
+    const rows = await prisma.embeddingCache.findMany({
+      where: { model, textHash: { in: hashes } },
+      select: { textHash: true, vector: true },
+    });
+    return new Map(rows.map((row) => [row.textHash, row.vector]));
+  } catch (error) {
+    console.error("埋め込みキャッシュの読み込みに失敗しました:", error);
+    return new Map<string, number[]>();
+  }
+};
+
+/**
+ * テキストをまとめて埋め込む（キャッシュにないテキストのみAPIを呼び出す）
+ * 同じテキストは1度だけ埋め込み、計算したベクトルはキャッシュに保存する
+ * クエリと文書を区別せずに埋め込むため、ユーザーのタグとイベントのキーワードなど
+ * 同じ種類のテキスト同士の類似度の計算に使う
+ * @param texts 埋め込むテキスト
+ * @returns テキストと同じ順のベクトル
+ */
+export const embedTextsWithCache = async (
+  texts: string[]
+): Promise<number[][]> => {
+  if (texts.length === 0) return [];
+
+  const provider = getEmbeddingProvider();
+  const model = getEmbeddingModelId(provider);
+
+  // 重複を除いたテキストとハッシュ
+  const hashes = texts.map(hashText);
+  const textByHash = new Map(hashes.map((hash, index) => [hash, texts[index]]));
+  const vectors = await findCachedVectors(Array.from(textByHash.keys()), model);
+
+  const misses = Array.from(textByHash.entries()).filter(
+    ([hash]) => !vectors.has(hash)
+  );
+  for (let i = 0; i < misses.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = misses.slice(i, i + EMBEDDING_BATCH_SIZE);
+    const embedded = await provider.embedDocuments(
+      batch.map(([, text]) => text)
+    );
+    batch.forEach(([hash], index) => vectors.set(hash, embedded[index]));
+
+    // キャッシュへの保存に失敗しても計算したベクトルは返す
+    try {
+      await prisma.embeddingCache.createMany({
+        data: batch.map(([hash], index) => ({
+          textHash: hash,
+          model,
+          vector: embedded[index],
+        })),
+        skipDuplicates: true,
+      });
+    } catch (error) {
+      console.error("埋め込みキャッシュの保存に失敗しました:", error);
+    }
+  }
+
+  console.log(
+    `埋め込み: ${textByHash.size}件（キャッシュ済み ${
+      textByHash.size - misses.length
+    }件、新規 ${misses.length}件）`
+  );
+
+  return hashes.map((hash) => vectors.get(hash) as number[]);
+};
+
+/**
+ * テキストをまとめて埋め込み、テキストからベクトルを引けるようにする
+ * @param texts 埋め込むテキスト（空文字は除く）
+ * @returns テキストごとのベクトル
+ */
+export const embedTextMapWithCache = async (
+  texts: string[]
+): Promise<Map<string, number[]>> => {
+  const unique = Array.from(
+    new Set(texts.filter((text) => text.trim().length > 0))
+  );
+  const vectors = await embedTextsWithCache(unique);
+  return new Map(unique.map((text, index) => [text, vectors[index]]));
+};
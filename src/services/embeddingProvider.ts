@@ -0,0 +1,191 @@
+import crypto from "crypto";
+import { OpenAIEmbeddings } from "@langchain/openai";
+import { GoogleGenerativeAI, TaskType } from "@google/generative-ai";
+import { tokenizeForSearch } from "../utils/searchTextUtils";
+
+/**
+ * 埋め込みベクトルを計算するプロバイダー
+ * 環境変数 EMBEDDING_PROVIDER で切り替える（openai / gemini / local）
+ * local は API を呼ばずに同じテキストから常に同じベクトルを返すため、
+ * API キーのない環境（オフラインでの動作確認・テスト）でも推薦処理を実行できる
+ */
+export interface EmbeddingProvider {
+  name: EmbeddingProviderName;
+  model: string;
+  dimensions: number; // ベクトルの次元数
+  embedQuery(text: string): Promise<number[]>;
+  embedDocuments(texts: string[]): Promise<number[][]>;
+}
+
+export const EMBEDDING_PROVIDER_NAMES = ["openai", "gemini", "local"] as const;
+export type EmbeddingProviderName = (typeof EMBEDDING_PROVIDER_NAMES)[number];
+
+// プロバイダーごとのデフォルトのモデルと次元数
+const DEFAULT_OPENAI_EMBEDDING_MODEL = "text-embedding-3-small";
+const OPENAI_EMBEDDING_DIMENSIONS = 1536;
+const DEFAULT_GEMINI_EMBEDDING_MODEL = "text-embedding-004";
+const GEMINI_EMBEDDING_DIMENSIONS = 768;
+const LOCAL_EMBEDDING_MODEL = "hashing-tf";
+const LOCAL_EMBEDDING_DIMENSIONS = 1536;
+
+/**
+ * OpenAI の埋め込みモデルを使うプロバイダー
+ * @param model モデル名
+ * @returns プロバイダー
+ */
+export const createOpenAIEmbeddingProvider = (
+  model: string = DEFAULT_OPENAI_EMBEDDING_MODEL
+): EmbeddingProvider => {
+  const embeddings = new OpenAIEmbeddings({ modelName: model });
+
+  return {
+    name: "openai",
+    model,
+    dimensions: OPENAI_EMBEDDING_DIMENSIONS,
+    embedQuery: (text) => embeddings.embedQuery(text),
+    embedDocuments: (texts) => embeddings.embedDocuments(texts),
+  };
+};
+
+/**
+ * Gemini の埋め込みモデルを使うプロバイダー
+ * @param model モデル名
+ * @returns プロバイダー
+ * @throws GEMINI_API_KEY が設定されていない場合
+ */
+export const createGeminiEmbeddingProvider = (
+  model: string = DEFAULT_GEMINI_EMBEDDING_MODEL
+): EmbeddingProvider => {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new Error("GEMINI_API_KEY環境変数が設定されていません");
+  }
+  const embeddingModel = new GoogleGenerativeAI(apiKey).getGenerativeModel({
+    model,
+  });
+
+  return {
+    name: "gemini",
+    model,
+    dimensions: GEMINI_EMBEDDING_DIMENSIONS,
+    embedQuery: async (text) => {
+      const result = await embeddingModel.embedContent({
+        content: { role: "user", parts: [{ text }] },
+        taskType: TaskType.RETRIEVAL_QUERY,
+      });
+      return result.embedding.values;
+    },
+    embedDocuments: async (texts) => {
+      if (texts.length === 0) return [];
+      const result = await embeddingModel.batchEmbedContents({
+        requests: texts.map((text) => ({
+          content: { role: "user", parts: [{ text }] },
+          taskType: TaskType.RETRIEVAL_DOCUMENT,
+        })),
+      });
+      return result.embeddings.map((embedding) => embedding.values);
+    },
+  };
+};
+
+/**
+ * テキストをハッシュで固定長のベクトルにする（feature hashing）
+ * 形態素解析した語ごとに、ハッシュ値で決まる次元へ ±(1 + log(出現回数)) を加えて正規化する
+ * 同じ語を含むテキストほどコサイン類似度が高くなる
+ * @param text テキスト
+ * @param dimensions 次元数
+ * @returns L2 正規化したベクトル（語がない場合はゼロベクトル）
+ */
+export const hashTextToVector = async (
+  text: string,
+  dimensions: number = LOCAL_EMBEDDING_DIMENSIONS
+): Promise<number[]> => {
+  const counts = new Map<string, number>();
+  for (const term of await tokenizeForSearch(text)) {
+    counts.set(term, (counts.get(term) || 0) + 1);
+  }
+
+  const vector = new Array<number>(dimensions).fill(0);
+  counts.forEach((count, term) => {
+    const digest = crypto.createHash("md5").update(term).digest();
+    const index = digest.readUInt32BE(0) % dimensions;
+    const sign = digest[4] & 1 ? 1 : -1;
+    vector[index] += sign * (1 + Math.log(count));
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map((v) => v / norm);
+};
+
+/**
+ * API を使わずにハッシュでベクトルを作るプロバイダー
+ * @returns プロバイダー
+ */
+export const createLocalEmbeddingProvider = (): EmbeddingProvider => ({
+  name: "local",
+  model: LOCAL_EMBEDDING_MODEL,
+  dimensions: LOCAL_EMBEDDING_DIMENSIONS,
+  embedQuery: (text) => hashTextToVector(text, LOCAL_EMBEDDING_DIMENSIONS),
+  embedDocuments: (texts) =>
+    Promise.all(
+      texts.map((text) => hashTextToVector(text, LOCAL_EMBEDDING_DIMENSIONS))
+    ),
+});
+
+/**
+ * 環境変数の設定からプロバイダーを作成する
+ * EMBEDDING_PROVIDER: openai（デフォルト）/ gemini / local
+ * EMBEDDING_MODEL: モデル名（openai / gemini のみ、省略時は各プロバイダーのデフォルト）
+ * @returns プロバイダー
+ * @throws 不明なプロバイダーが指定された場合
+ */
+export const createEmbeddingProviderFromEnv = (): EmbeddingProvider => {
+  const name = (process.env.EMBEDDING_PROVIDER || "openai").toLowerCase();
+  const model = process.env.EMBEDDING_MODEL || undefined;
+
+  switch (name) {
+    case "openai":
+      return createOpenAIEmbeddingProvider(model);
+    case "gemini":
+      return createGeminiEmbeddingProvider(model);
+    case "local":
+      return createLocalEmbeddingProvider();
+    default:
+      throw new Error(
+        `EMBEDDING_PROVIDER は ${EMBEDDING_PROVIDER_NAMES.join(
+          ", "
+        )} のいずれかを指定してください（指定値: ${name}）`
+      );
+  }
+};
+
+// 初回の呼び出しで作成する（モジュールの読み込み時には API クライアントを作らない）
+let currentProvider: EmbeddingProvider | null = null;
+
+/**
+ * 現在のプロバイダーを取得する
+ * @returns プロバイダー
+ */
+export const getEmbeddingProvider = (): EmbeddingProvider => {
+  if (!currentProvider) {
+    currentProvider = createEmbeddingProviderFromEnv();
+  }
+  return currentProvider;
+};
+
+/**
+ * プロバイダーを差し替える（スクリプトやテストで使用）
+ * @param provider 使用するプロバイダー（null の場合は次回の呼び出しで環境変数から作り直す）
+ */
+export const setEmbeddingProvider = (provider: EmbeddingProvider | null) => {
+  currentProvider = provider;
+};
+
+/**
+ * プロバイダーとモデルを識別する文字列（例: "openai:text-embedding-3-small"）
+ * 保存済みのベクトルがどのモデルで計算されたかの記録に使う
+ * @param provider プロバイダー
+ * @returns 識別子
+ */
+export const getEmbeddingModelId = (provider: EmbeddingProvider) =>
+  `${provider.name}:${provider.model}`;
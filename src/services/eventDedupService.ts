@@ -0,0 +1,301 @@
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import prisma from "../config/prisma";
+import { formatFilterError } from "../utils/eventQueryBuilder";
+import {
+  DedupCandidate,
+  DuplicateCluster,
+  clusterDuplicateEvents,
+} from "../utils/eventDedup";
+
+/**
+ * 取り込み元をまたいだ重複イベントの統合
+ * 重複と判定したイベントは削除せず、代表のイベント（mergedIntoId）を設定して一覧・検索・レコメンドから除く。
+ * 取り込み元の同期は統合されたイベント自体を更新し続け、掲載（EventListing）とブックマークは代表のイベントにまとめる
+ */
+
+// 開催日がこれより前のイベントは重複を判定しない（既定では前日以降のイベントが対象）
+const DEFAULT_DEDUP_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+// 重複の統合の条件
+const dedupOptionsSchema = z
+  .object({
+    fromDate: z.coerce.date().optional(), // 対象にする開催日の始まり
+    dryRun: z.boolean().default(false), // true の場合は判定のみ行い統合しない
+  })
+  .strict();
+
+export type DedupOptions = z.output<typeof dedupOptionsSchema>;
+
+// 重複の統合の結果
+export interface DedupResult {
+  clusters: DuplicateCluster[];
+  merged: number; // 統合したイベント数
+  bookmarksMoved: number; // 代表のイベントに移したブックマーク数
+}
+
+/**
+ * 重複の統合の条件を検証する
+ * @param input 重複の統合の条件
+ * @returns 検証済みの条件
+ * @throws 不正な値が含まれる場合
+ */
+export const parseDedupOptions = (input: unknown = {}): DedupOptions => {
+  const result = dedupOptionsSchema.safeParse(input ?? {});
+  if (!result.success) {
+    throw new Error(
+      `重複の統合の条件が不正です（${formatFilterError(result.error)}）`
+    );
+  }
+  return result.data;
+};
+
+/**
+ * 重複として統合されたイベントの場合は代表のイベントIDを返す
+ * 古いLINEのカルーセルや画面に残ったIDでブックマークなどを追加する場合に使う
+ * @param eventId イベントID
+ * @returns 代表のイベントID（統合されていない・見つからない場合は eventId のまま）
+ */
+export const resolveCanonicalEventId = async (eventId: string) => {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: { mergedIntoId: true },
+  });
+  return event?.mergedIntoId ?? eventId;
+};
+
+/**
+ * 重複を判定するイベントを取得する
+ * 統合済みのイベントの取り込み元も含めて、同じ取り込み元のイベントを統合しないようにする
+ * @param fromDate 対象にする開催日の始まり
+ * @returns 重複を判定するイベント
+ */
+const findDedupCandidates = async (
+  fromDate: Date
+): Promise<DedupCandidate[]> => {
+  const events = await prisma.event.findMany({
+    where: { mergedIntoId: null, eventDate: { gte: fromDate } },
+    select: {
+      id: true,
+      source: true,
+      title: true,
+      eventDate: true,
+      venue: true,
+      detailUrl: true,
+      createdAt: true,
+      EventListing: { select: { source: true } },
+      _count: { select: { MergedEvents: true } },
+    },
+  });
+
+  return events.map((event) => ({
+    id: event.id,
+    source: event.source,
+    sources: Array.from(
+      new Set([
+        ...(event.source ? [event.source] : []),
+        ...event.EventListing.map((listing) => listing.source),
+      ])
+    ),
+    title: event.title,
+    eventDate: event.eventDate,
+    venue: event.venue,
+    detailUrl: event.detailUrl,
+    createdAt: event.createdAt,
+    isCanonical: event._count.MergedEvents > 0,
+  }));
+};
+
+/**
+ * 統合するイベントのブックマークを代表のイベントに移す
+ * 代表のイベントをブックマーク済みのユーザーのブックマークは削除する
+ * @param tx トランザクション
+ * @param duplicateId 統合するイベント
+ * @param canonicalId 代表のイベント
+ * @returns 移したブックマーク数
+ */
+const moveBookmarks = async (
+  tx: Prisma.TransactionClient,
+  duplicateId: string,
+  canonicalId: string
+) => {
+  const bookmarks = await tx.bookmark.findMany({
+    where: { eventId: duplicateId },
+    select: { id: true, userId: true },
+  });
+  if (bookmarks.length === 0) return 0;
+
+  const bookmarkedUserIds = new Set(
+    (
+      await tx.bookmark.findMany({
+        where: {
+          eventId: canonicalId,
+          userId: { in: bookmarks.map((bookmark) => bookmark.userId) },
+        },
+        select: { userId: true },
+      })
+    ).map((bookmark) => bookmark.userId)
+  );
+  const movable = bookmarks.filter(
+    (bookmark) => !bookmarkedUserIds.has(bookmark.userId)
+  );
+
+  if (movable.length > 0) {
+    await tx.bookmark.updateMany({
+      where: { id: { in: movable.map((bookmark) => bookmark.id) } },
+      data: { eventId: canonicalId, updatedAt: new Date() },
+    });
+  }
+  await tx.bookmark.deleteMany({ where: { eventId: duplicateId } });
+  return movable.length;
+};
+
+/**
+ * 統合するイベントの送信済みのリマインドを代表のイベントに移す
+ * 同じリマインドを代表のイベントについて二重に送らないようにする
+ * @param tx トランザクション
+ * @param duplicateId 統合するイベント
+ * @param canonicalId 代表のイベント
+ */
+const moveReminderLogs = async (
+  tx: Prisma.TransactionClient,
+  duplicateId: string,
+  canonicalId: string
+) => {
+  const logs = await tx.reminderLog.findMany({
+    where: { eventId: duplicateId },
+    select: { id: true, userId: true, offsetMinutes: true },
+  });
+  if (logs.length === 0) return;
+
+  const sentKeys = new Set(
+    (
+      await tx.reminderLog.findMany({
+        where: {
+          eventId: canonicalId,
+          userId: { in: logs.map((log) => log.userId) },
+        },
+        select: { userId: true, offsetMinutes: true },
+      })
+    ).map((log) => `${log.userId}:${log.offsetMinutes}`)
+  );
+  const movable = logs.filter(
+    (log) => !sentKeys.has(`${log.userId}:${log.offsetMinutes}`)
+  );
+
+  if (movable.length > 0) {
+    await tx.reminderLog.updateMany({
+      where: { id: { in: movable.map((log) => log.id) } },
+      data: { eventId: canonicalId },
+    });
+  }
+  await tx.reminderLog.deleteMany({ where: { eventId: duplicateId } });
+};
+
+/**
+ * 重複するイベントを代表のイベントに統合する
+ * 統合するイベントに統合済みのイベント・掲載・ブックマーク・送信済みのリマインドも代表のイベントに移す
+ * @param cluster 重複するイベントのまとまり
+ * @returns 統合したイベント数と移したブックマーク数
+ */
+const mergeDuplicateCluster = (cluster: DuplicateCluster) =>
+  prisma.$transaction(async (tx) => {
+    const { canonicalId } = cluster;
+    const result = { merged: 0, bookmarksMoved: 0 };
+
+    // 判定の後に他の処理で統合された場合は何もしない
+    const canonical = await tx.event.count({
+      where: { id: canonicalId, mergedIntoId: null },
+    });
+    if (canonical === 0) return result;
+
+    for (const duplicateId of cluster.duplicateIds) {
+      const { count } = await tx.event.updateMany({
+        where: { id: duplicateId, mergedIntoId: null },
+        data: { mergedIntoId: canonicalId },
+      });
+      if (count === 0) continue;
+
+      await tx.event.updateMany({
+        where: { mergedIntoId: duplicateId },
+        data: { mergedIntoId: canonicalId },
+      });
+      await tx.eventListing.updateMany({
+        where: { eventId: duplicateId },
+        data: { eventId: canonicalId },
+      });
+      result.bookmarksMoved += await moveBookmarks(
+        tx,
+        duplicateId,
+        canonicalId
+      );
+      await moveReminderLogs(tx, duplicateId, canonicalId);
+      result.merged++;
+    }
+
+    return result;
+  });
+
+/**
+ * 統合済みのイベントに残っているブックマーク・送信済みのリマインドを代表のイベントに移す
+ * 統合の処理と並行して追加されたものを取りこぼさないようにする
+ * @returns 移したブックマーク数
+ */
+const moveRemainingToCanonical = async () => {
+  const events = await prisma.event.findMany({
+    where: {
+      mergedIntoId: { not: null },
+      OR: [{ Bookmark: { some: {} } }, { ReminderLog: { some: {} } }],
+    },
+    select: { id: true, mergedIntoId: true },
+  });
+
+  let bookmarksMoved = 0;
+  for (const event of events) {
+    bookmarksMoved += await prisma.$transaction(async (tx) => {
+      const moved = await moveBookmarks(tx, event.id, event.mergedIntoId);
+      await moveReminderLogs(tx, event.id, event.mergedIntoId);
+      return moved;
+    });
+  }
+  return bookmarksMoved;
+};
+
+/**
+ * 取り込み元をまたいだ重複イベントを判定し、代表のイベントに統合する
+ * @param options 検証済みの重複の統合の条件（fromDate, dryRun）
+ * @returns 重複するイベントのまとまり、統合したイベント数、移したブックマーク数
+ */
+export const deduplicateEvents = async (
+  options: Partial<DedupOptions> = {}
+): Promise<DedupResult> => {
+  const fromDate =
+    options.fromDate ?? new Date(Date.now() - DEFAULT_DEDUP_LOOKBACK_MS);
+
+  const clusters = clusterDuplicateEvents(await findDedupCandidates(fromDate));
+  const result: DedupResult = { clusters, merged: 0, bookmarksMoved: 0 };
+  if (options.dryRun) return result;
+
+  for (const cluster of clusters) {
+    try {
+      const { merged, bookmarksMoved } = await mergeDuplicateCluster(cluster);
+      result.merged += merged;
+      result.bookmarksMoved += bookmarksMoved;
+    } catch (error) {
+      // 統合に失敗したまとまりは次回の統合で再び判定する
+      console.error(
+        `重複イベントの統合に失敗しました（${cluster.canonicalId}）:`,
+        error
+      );
+    }
+  }
+
+  result.bookmarksMoved += await moveRemainingToCanonical();
+
+  if (clusters.length > 0) {
+    console.log(
+      `重複イベントを統合しました: ${clusters.length}組 統合${result.merged}件 ブックマークの移動${result.bookmarksMoved}件`
+    );
+  }
+  return result;
+};
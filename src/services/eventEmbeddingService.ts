@@ -0,0 +1,214 @@
+import crypto from "crypto";
+import { Prisma } from "@prisma/client";
+import prisma from "../config/prisma";
+import { stripHtml } from "../utils/searchTextUtils";
+import { hasEventFilterConditions } from "../utils/eventQueryBuilder";
+import { getEmbeddingModelId, getEmbeddingProvider } from "./embeddingProvider";
+
+// Event.embedding の次元数（これより次元の少ないモデルのベクトルは 0 で埋めて保存する）
+export const EVENT_EMBEDDING_DIMENSIONS = 1536;
+
+// 埋め込むテキストの最大文字数（モデルの入力上限を超えないようにする）
+const MAX_EMBEDDING_TEXT_LENGTH = 6000;
+
+// 1回のAPI呼び出しで埋め込むイベント数
+const EMBEDDING_BATCH_SIZE = 50;
+
+// 意味検索で返す件数のデフォルトと上限
+export const DEFAULT_SEMANTIC_SEARCH_LIMIT = 10;
+export const MAX_SEMANTIC_SEARCH_LIMIT = 50;
+
+// 埋め込みの元になるイベントの項目
+interface EmbeddableEvent {
+  title: string;
+  description?: string | null;
+  keywords?: string[];
+}
+
+/**
+ * イベントの埋め込み用テキストを作成する
+ * @param event イベント
+ * @returns 埋め込み用テキスト
+ */
+export const buildEventEmbeddingText = (event: EmbeddableEvent) =>
+  [
+    `タイトル: ${event.title}`,
+    event.keywords?.length ? `キーワード: ${event.keywords.join(", ")}` : "",
+    `概要: ${stripHtml(event.description || "")}`,
+  ]
+    .filter(Boolean)
+    .join("\n")
+    .slice(0, MAX_EMBEDDING_TEXT_LENGTH);
+
+/**
+ * 埋め込み用テキストのハッシュを計算する
+ * モデルが変わった場合も再計算されるよう、モデルの識別子を含める
+ * @param modelId モデルの識別子
+ * @param text 埋め込み用テキスト
+ * @returns ハッシュ（16進数）
+ */
+const hashEmbeddingText = (modelId: string, text: string) =>
+  crypto.createHash("sha256").update(`${modelId}\n${text}`).digest("hex");
+
+/**
+ * pgvector に渡すベクトルの文字列表現を作る
+ * 0 で埋めてもコサイン類似度は変わらないため、次元の少ないベクトルは列の次元数まで 0 で埋める
+ * @param vector ベクトル
+ * @returns 文字列表現（例: "[0.1,0.2,...]"）
+ * @throws 列の次元数より大きい場合
+ */
+const toVectorLiteral = (vector: number[]) => {
+  if (vector.length > EVENT_EMBEDDING_DIMENSIONS) {
+    throw new Error(
+      `埋め込みベクトルの次元数（${vector.length}）が ${EVENT_EMBEDDING_DIMENSIONS} を超えています`
+    );
+  }
+  const padded = vector.concat(
+    new Array<number>(EVENT_EMBEDDING_DIMENSIONS - vector.length).fill(0)
+  );
+  return `[${padded.join(",")}]`;
+};
+
+/**
+ * イベントの埋め込みベクトルを計算して保存する
+ * 埋め込み用テキストが前回から変わっていないイベントは再計算しない
+ * 埋め込みに失敗してもイベントの保存処理は止めない
+ * @param eventIds 対象のイベントID
+ * @returns 埋め込みを更新した件数
+ */
+export const refreshEventEmbeddings = async (eventIds: string[]) => {
+  if (eventIds.length === 0) return 0;
+
+  const provider = getEmbeddingProvider();
+  const modelId = getEmbeddingModelId(provider);
+
+  const events = await prisma.event.findMany({
+    where: { id: { in: eventIds } },
+    select: {
+      id: true,
+      title: true,
+      description: true,
+      keywords: true,
+      embeddingHash: true,
+    },
+  });
+
+  // テキストが変わったイベントのみ埋め込む
+  const targets = events
+    .map((event) => {
+      const text = buildEventEmbeddingText(event);
+      return { id: event.id, text, hash: hashEmbeddingText(modelId, text) };
+    })
+    .filter((target, index) => target.hash !== events[index].embeddingHash);
+
+  let updated = 0;
+  for (let i = 0; i < targets.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = targets.slice(i, i + EMBEDDING_BATCH_SIZE);
+    try {
+      const vectors = await provider.embedDocuments(
+        batch.map((target) => target.text)
+      );
+
+      for (let j = 0; j < batch.length; j++) {
+        await prisma.$executeRaw`
+          UPDATE "Event"
+          SET "embedding" = ${toVectorLiteral(vectors[j])}::vector,
+            "embeddingHash" = ${batch[j].hash},
+            "embeddingModel" = ${modelId}
+          WHERE "id" = ${batch[j].id}
+        `;
+        updated++;
+      }
+    } catch (error) {
+      console.error("イベントの埋め込み計算に失敗しました:", error);
+    }
+  }
+
+  return updated;
+};
+
+/**
+ * 埋め込みが未計算、または現在とは別のモデルで計算されたイベントに埋め込みを計算する
+ * @param batchSize 1回に処理する件数
+ * @returns 計算した件数
+ */
+export const backfillEventEmbeddings = async (batchSize: number = 100) => {
+  const modelId = getEmbeddingModelId(getEmbeddingProvider());
+  let total = 0;
+
+  while (true) {
+    const events = await prisma.event.findMany({
+      where: {
+        OR: [{ embeddingModel: null }, { embeddingModel: { not: modelId } }],
+      },
+      select: { id: true },
+      take: batchSize,
+    });
+    if (events.length === 0) break;
+
+    const updated = await refreshEventEmbeddings(events.map((e) => e.id));
+    total += updated;
+
+    // 全件失敗した場合は同じイベントを繰り返し処理しないよう終了する
+    if (updated === 0) break;
+  }
+
+  return total;
+};
+
+/**
+ * クエリに意味が近いイベントを取得する（pgvector のコサイン距離で近い順）
+ * 現在のモデルで計算された埋め込みのみを比較する
+ * @param query 検索文字列
+ * @param options.limit 取得件数
+ * @param options.eventIds 対象を絞り込む場合のイベントID
+ * @returns イベントIDと類似度（1に近いほど類似）
+ */
+export const findSimilarEventIds = async (
+  query: string,
+  options: { limit?: number; eventIds?: string[] } = {}
+): Promise<{ id: string; similarity: number }[]> => {
+  const { limit = DEFAULT_SEMANTIC_SEARCH_LIMIT, eventIds } = options;
+  if (eventIds && eventIds.length === 0) return [];
+
+  const provider = getEmbeddingProvider();
+  const vector = toVectorLiteral(await provider.embedQuery(query));
+  const idFilter = eventIds
+    ? Prisma.sql`AND "id" = ANY(${eventIds}::text[])`
+    : Prisma.empty;
+
+  return prisma.$queryRaw<{ id: string; similarity: number }[]>`
+    SELECT "id", (1 - ("embedding" <=> ${vector}::vector))::float8 AS "similarity"
+    FROM "Event"
+    WHERE "embedding" IS NOT NULL AND "mergedIntoId" IS NULL
+      AND "embeddingModel" = ${getEmbeddingModelId(provider)} ${idFilter}
+    ORDER BY "embedding" <=> ${vector}::vector
+    LIMIT ${limit}
+  `;
+};
+
+/**
+ * 検索条件に合うイベントの中から、クエリに意味が近いイベントを取得する
+ * @param query 検索文字列
+ * @param where 検索条件（空の場合はすべてのイベントが対象）
+ * @param limit 取得件数
+ * @returns イベントIDと類似度
+ */
+export const findSimilarEventIdsWithFilter = async (
+  query: string,
+  where: Prisma.EventWhereInput,
+  limit: number = DEFAULT_SEMANTIC_SEARCH_LIMIT
+) => {
+  // 検索条件がある場合は先に対象のイベントを絞り込む
+  // （統合されたイベントの除外は findSimilarEventIds で行う）
+  const eventIds = hasEventFilterConditions(where)
+    ? (
+        await prisma.event.findMany({
+          where,
+          select: { id: true },
+        })
+      ).map((event) => event.id)
+    : undefined;
+
+  return findSimilarEventIds(query, { limit, eventIds });
+};
@@ -0,0 +1,14 @@
+import { refreshEventSearchText } from "./eventSearchService";
+import { refreshEventEmbeddings } from "./eventEmbeddingService";
+
+/**
+ * イベントの検索用データ（全文検索用テキスト・埋め込みベクトル）を更新する
+ * イベントの作成・更新・取り込みの後に呼び出す
+ * @param eventIds 対象のイベントID
+ */
+export const indexEvents = async (eventIds: string[]) => {
+  if (eventIds.length === 0) return;
+
+  await refreshEventSearchText(eventIds);
+  await refreshEventEmbeddings(eventIds);
+};
@@ -0,0 +1,341 @@
+import crypto from "crypto";
+import { Prisma } from "@prisma/client";
+import prisma from "../config/prisma";
+import { detectLocationFromAddress } from "../utils/connpassEventUtils";
+import { extractEventKeyData } from "../utils/extractEventKeyData";
+import { indexEvents } from "./eventIndexService";
+import { resolveOrganization } from "./organizationService";
+import { EventSourceAdapter, NormalizedEvent } from "../types/eventSourceTypes";
+import { SyncErrorReporter, SyncSummary } from "../types/syncTypes";
+
+/**
+ * 取り込み元のイベントの登録
+ * アダプターで共通の形式に変換したイベントを、取り込み元によらず同じ手順で Event テーブルに保存する
+ */
+
+// 登録済みのイベントとの比較に使う項目
+const existingEventSelect = {
+  id: true,
+  source: true,
+  externalId: true,
+  title: true,
+  eventDate: true,
+  venue: true,
+  detailUrl: true,
+  sourceUpdatedAt: true,
+  descriptionHash: true,
+  mergedIntoId: true,
+} satisfies Prisma.EventSelect;
+
+type ExistingEvent = Prisma.EventGetPayload<{
+  select: typeof existingEventSelect;
+}>;
+
+/**
+ * キーデータの抽出に使う説明文のハッシュを計算する
+ * @param description 説明文
+ * @returns ハッシュ（16進数）
+ */
+const hashDescription = (description: string) =>
+  crypto.createHash("sha256").update(description).digest("hex");
+
+/**
+ * 取り込み元のイベントから作成するイベントのIDを返す（例: connpass_12345）
+ * @param event 共通の形式のイベント
+ * @returns イベントID
+ */
+export const getNormalizedEventId = (event: NormalizedEvent) =>
+  `${event.source}_${event.externalId}`;
+
+/**
+ * 共通の形式のイベントに対応する登録済みのイベントを探す
+ * 取り込み元とイベントIDが一致するもの、作成時のIDが一致するもの、詳細URLが一致するものの順に探す
+ * （取り込み元を記録する前に登録したイベントも同じイベントとして扱う）
+ * @param events 共通の形式のイベント
+ * @returns 取り込み元でのイベントIDから登録済みのイベントへのMap
+ */
+const findExistingEvents = async (events: NormalizedEvent[]) => {
+  const candidates = await prisma.event.findMany({
+    where: {
+      OR: [
+        {
+          source: events[0].source,
+          externalId: { in: events.map((event) => event.externalId) },
+        },
+        { id: { in: events.map(getNormalizedEventId) } },
+        { detailUrl: { in: events.map((event) => event.detailUrl) } },
+      ],
+    },
+    select: existingEventSelect,
+  });
+
+  const existing = new Map<string, ExistingEvent>();
+  for (const event of events) {
+    const match =
+      candidates.find(
+        (c) => c.source === event.source && c.externalId === event.externalId
+      ) ??
+      candidates.find((c) => c.id === getNormalizedEventId(event)) ??
+      candidates.find((c) => c.detailUrl === event.detailUrl);
+    if (match) existing.set(event.externalId, match);
+  }
+  return existing;
+};
+
+/**
+ * 登録済みのイベントから変更がないかを判定する
+ * 取り込み元の最終更新日時がある場合はそれを比較し、ない場合は主な項目と説明文のハッシュを比較する
+ * @param current 登録済みのイベント
+ * @param event 共通の形式のイベント
+ * @param descriptionHash 説明文のハッシュ
+ * @returns 変更がない場合は true
+ */
+const isUnchanged = (
+  current: ExistingEvent,
+  event: NormalizedEvent,
+  descriptionHash: string
+) => {
+  // 取り込み元を記録する前に登録したイベントは、取り込み元を記録するため更新する
+  if (current.source !== event.source) return false;
+
+  if (event.sourceUpdatedAt) {
+    return (
+      current.sourceUpdatedAt?.getTime() === event.sourceUpdatedAt.getTime()
+    );
+  }
+  return (
+    current.descriptionHash === descriptionHash &&
+    current.title === event.title &&
+    current.eventDate.getTime() === event.eventDate.getTime() &&
+    current.venue === event.venue &&
+    current.detailUrl === event.detailUrl
+  );
+};
+
+/**
+ * 主催者に対応する主催団体を取得・作成する
+ * 同じ主催者のイベントが複数あっても主催団体の登録は1回だけ行う
+ * @param events 共通の形式のイベント
+ * @returns 取り込み元でのイベントIDから主催団体IDへのMap
+ */
+const resolveOrganizationIds = async (events: NormalizedEvent[]) => {
+  const organizationIds = new Map<string, string>();
+  const resolved = new Map<string, string>();
+
+  for (const event of events) {
+    const organizer = event.organizer;
+    if (!organizer) continue;
+
+    try {
+      const key = `${organizer.source}:${organizer.externalId}`;
+      let organizationId = resolved.get(key);
+      if (!organizationId) {
+        organizationId = (await resolveOrganization(organizer)).id;
+        resolved.set(key, organizationId);
+      }
+      organizationIds.set(event.externalId, organizationId);
+    } catch (error) {
+      // 主催団体が登録できなくてもイベント自体は取り込む
+      console.error(
+        `主催団体の登録に失敗しました（${organizer.externalId}）:`,
+        error
+      );
+    }
+  }
+
+  return organizationIds;
+};
+
+/**
+ * 共通の形式のイベントを Event テーブルに保存する
+ * - 登録済みで変更のないイベントは何もしない
+ * - 説明文が変わっていないイベントはキーデータを抽出し直さず、その他の項目のみ更新する
+ * - 開催地（location）の指定がない場合は会場・住所から判定する
+ * - 取り込み元ごとの掲載（EventListing）を登録する（重複として統合済みのイベントは代表のイベントの掲載にする）
+ * - 全文検索用テキストを更新し、埋め込みベクトルはテキストが変わったイベントのみ作り直す
+ * @param events 共通の形式のイベント（同じ取り込み元のもの）
+ * @param reportError イベントごとの保存エラーを記録する関数
+ * @returns 登録・更新・変更なし・失敗の件数
+ */
+export const upsertNormalizedEvents = async (
+  events: NormalizedEvent[],
+  reportError?: SyncErrorReporter
+): Promise<Omit<SyncSummary, "fetched">> => {
+  const summary = { created: 0, updated: 0, unchanged: 0, failed: 0 };
+  if (events.length === 0) return summary;
+
+  const existing = await findExistingEvents(events);
+
+  const changed = events.filter((event) => {
+    const current = existing.get(event.externalId);
+    const unchanged =
+      current &&
+      isUnchanged(current, event, hashDescription(event.description));
+    if (unchanged) summary.unchanged++;
+    return !unchanged;
+  });
+
+  const organizationIds = await resolveOrganizationIds(changed);
+
+  const savedIds: string[] = [];
+  for (const event of changed) {
+    try {
+      const current = existing.get(event.externalId);
+      const descriptionHash = hashDescription(event.description);
+
+      const fields = {
+        title: event.title,
+        description: event.description,
+        eventDate: event.eventDate,
+        startTime: event.startTime,
+        endTime: event.endTime ?? null,
+        venue: event.venue,
+        address: event.address ?? null,
+        location:
+          event.location ??
+          detectLocationFromAddress(event.venue, event.address),
+        detailUrl: event.detailUrl,
+        image: event.image ?? undefined,
+        format: event.format,
+        eventType: event.eventType,
+        difficulty: event.difficulty,
+        price: event.price,
+        organizationId: organizationIds.get(event.externalId),
+        source: event.source,
+        externalId: event.externalId,
+        rawPayload: event.rawPayload as Prisma.InputJsonValue,
+        sourceUpdatedAt: event.sourceUpdatedAt ?? null,
+        descriptionHash,
+      };
+
+      let id = current?.id;
+      if (current && current.descriptionHash === descriptionHash) {
+        await prisma.event.update({ where: { id }, data: fields });
+      } else {
+        // メタデータ抽出（説明文が変わった場合のみ）
+        const keyData = await extractEventKeyData(event.description);
+        if (current) {
+          await prisma.event.update({
+            where: { id },
+            data: { ...fields, ...keyData },
+          });
+        } else {
+          id = getNormalizedEventId(event);
+          await prisma.event.create({ data: { id, ...fields, ...keyData } });
+        }
+      }
+
+      await prisma.eventListing.upsert({
+        where: {
+          source_externalId: {
+            source: event.source,
+            externalId: event.externalId,
+          },
+        },
+        create: {
+          eventId: current?.mergedIntoId ?? id,
+          source: event.source,
+          externalId: event.externalId,
+          detailUrl: event.detailUrl,
+          title: event.title,
+        },
+        update: { detailUrl: event.detailUrl, title: event.title },
+      });
+
+      savedIds.push(id);
+      if (current) {
+        summary.updated++;
+      } else {
+        summary.created++;
+      }
+    } catch (error) {
+      console.error(
+        `イベントの保存に失敗しました（${getNormalizedEventId(event)}）:`,
+        error
+      );
+      reportError?.(getNormalizedEventId(event), error);
+      summary.failed++;
+    }
+  }
+
+  // 全文検索用テキスト・埋め込みベクトルをまとめて更新
+  await indexEvents(savedIds);
+
+  return summary;
+};
+
+/**
+ * 取り込み元の元データを共通の形式に変換して保存する
+ * 変換できない元データは失敗として記録する。同じイベントが複数ある場合は後のものを使う
+ * @param adapter 取り込み元のアダプター
+ * @param rawEvents 取り込み元から取得した元データ
+ * @param reportError イベントごとのエラーを記録する関数
+ * @returns 取得・登録・更新・変更なし・失敗の件数
+ */
+export const ingestEvents = async <TRaw, TParams>(
+  adapter: EventSourceAdapter<TRaw, TParams>,
+  rawEvents: TRaw[],
+  reportError?: SyncErrorReporter
+): Promise<SyncSummary> => {
+  const normalized = new Map<string, NormalizedEvent>();
+  let failed = 0;
+
+  for (const raw of rawEvents) {
+    try {
+      const event = adapter.normalize(raw);
+      normalized.set(event.externalId, event);
+    } catch (error) {
+      console.warn(
+        `${adapter.source}のイベントを変換できませんでした（${adapter.describe(
+          raw
+        )}）:`,
+        error instanceof Error ? error.message : error
+      );
+      reportError?.(adapter.describe(raw), error);
+      failed++;
+    }
+  }
+
+  const summary = await upsertNormalizedEvents(
+    Array.from(normalized.values()),
+    reportError
+  );
+  return {
+    fetched: rawEvents.length,
+    ...summary,
+    failed: summary.failed + failed,
+  };
+};
+
+/**
+ * 取り込み元からイベントを取得して保存する（fetch → normalize → upsert）
+ * @param adapter 取り込み元のアダプター
+ * @param params 取得の条件
+ * @param reportError イベントごとのエラーを記録する関数
+ * @returns 取得・登録・更新・変更なし・失敗の件数
+ */
+export const runEventSourceAdapter = async <TRaw, TParams>(
+  adapter: EventSourceAdapter<TRaw, TParams>,
+  params: TParams,
+  reportError?: SyncErrorReporter
+): Promise<SyncSummary> => {
+  const rawEvents = await adapter.fetch(params);
+  console.log(
+    `${adapter.source}: ${rawEvents.length}件のイベントを取得しました`
+  );
+  return ingestEvents(adapter, rawEvents, reportError);
+};
+
+/**
+ * 詳細ページのURLから取り込み元でのイベントIDを取得する（例: https://techplay.jp/event/123456 → 123456）
+ * @param url 詳細ページのURL
+ * @returns URLの最後のパス（取得できない場合はURL）
+ */
+export const getExternalIdFromUrl = (url: string) => {
+  try {
+    const segments = new URL(url).pathname.split("/").filter(Boolean);
+    return segments[segments.length - 1] || url;
+  } catch {
+    return url;
+  }
+};
@@ -0,0 +1,266 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../config/prisma";
+import {
+  buildPrefixTsQuery,
+  buildSearchSnippet,
+  normalizeSearchText,
+  tokenizeForSearch,
+} from "../utils/searchTextUtils";
+import {
+  EventPageOptions,
+  eventFullInclude,
+  eventListSelect,
+  findEventPage,
+} from "../utils/eventPagination";
+import { hasEventFilterConditions } from "../utils/eventQueryBuilder";
+
+// 全文検索で関連度を計算する候補の最大件数
+export const MAX_SEARCH_CANDIDATES = 500;
+
+// 検索用テキストの元になるイベントの項目
+interface SearchableEvent {
+  title: string;
+  description?: string | null;
+  keywords?: string[];
+  keyPhrases?: string[];
+}
+
+/**
+ * イベントの検索用テキストを作成する
+ * タイトル・説明文・キーワード・キーフレーズを形態素解析し、スペース区切りにする
+ * @param event イベント
+ * @returns 検索用テキスト
+ */
+export const buildEventSearchText = async (event: SearchableEvent) => {
+  const source = [
+    event.title,
+    event.description || "",
+    ...(event.keywords || []),
+    ...(event.keyPhrases || []),
+  ].join("\n");
+
+  return (await tokenizeForSearch(source)).join(" ");
+};
+
+/**
+ * イベントの検索用テキストを作り直す
+ * イベントの作成・更新・取り込みの後に呼び出す
+ * 検索用の列のみを更新するため updatedAt は変更しない
+ * @param eventIds 対象のイベントID
+ * @returns 更新した件数
+ */
+export const refreshEventSearchText = async (eventIds: string[]) => {
+  if (eventIds.length === 0) return 0;
+
+  const events = await prisma.event.findMany({
+    where: { id: { in: eventIds } },
+    select: {
+      id: true,
+      title: true,
+      description: true,
+      keywords: true,
+      keyPhrases: true,
+    },
+  });
+
+  let updated = 0;
+  for (const event of events) {
+    try {
+      const searchText = await buildEventSearchText(event);
+      await prisma.$executeRaw`
+        UPDATE "Event" SET "searchText" = ${searchText} WHERE "id" = ${event.id}
+      `;
+      updated++;
+    } catch (error) {
+      console.error(
+        `検索用テキストの更新に失敗しました（${event.id}）:`,
+        error
+      );
+    }
+  }
+
+  return updated;
+};
+
+/**
+ * 検索用テキストが未作成のイベントに検索用テキストを作成する
+ * @param batchSize 1回に処理する件数
+ * @returns 作成した件数
+ */
+export const backfillEventSearchText = async (batchSize: number = 100) => {
+  let total = 0;
+
+  while (true) {
+    const events = await prisma.event.findMany({
+      where: { searchText: null },
+      select: { id: true },
+      take: batchSize,
+    });
+    if (events.length === 0) break;
+
+    const updated = await refreshEventSearchText(events.map((e) => e.id));
+    total += updated;
+
+    // 全件失敗した場合は同じイベントを繰り返し処理しないよう終了する
+    if (updated === 0) break;
+  }
+
+  return total;
+};
+
+/**
+ * 全文検索でイベントIDを関連度の高い順に取得する
+ * 検索語を含むイベント（tsvector）に加えて、綴りが似ているイベント（pg_trgm）も対象にする
+ * 関連度の上位 MAX_SEARCH_CANDIDATES 件までを返し、それより多く該当する場合は capped を true にする
+ * @param q 検索文字列
+ * @param eventIds 対象を絞り込む場合のイベントID（全文検索以外の検索条件に合うもの）
+ * @returns イベントIDと関連度スコア、候補の上限で打ち切ったかどうか
+ */
+export const findRankedEventIds = async (
+  q: string,
+  eventIds?: string[]
+): Promise<{ ranked: { id: string; score: number }[]; capped: boolean }> => {
+  const normalized = normalizeSearchText(q).trim();
+  if (!normalized || (eventIds && eventIds.length === 0)) {
+    return { ranked: [], capped: false };
+  }
+
+  const tsQuery = buildPrefixTsQuery(await tokenizeForSearch(normalized));
+
+  // 検索語が抽出できない場合（助詞のみなど）は類似度のみで検索する
+  const rank = tsQuery
+    ? Prisma.sql`ts_rank_cd(e."searchVector", to_tsquery('simple', ${tsQuery}))`
+    : Prisma.sql`0`;
+  const matches = tsQuery
+    ? Prisma.sql`e."searchVector" @@ to_tsquery('simple', ${tsQuery}) OR ${normalized} <% e."searchText"`
+    : Prisma.sql`${normalized} <% e."searchText"`;
+  const idFilter = eventIds
+    ? Prisma.sql`AND e."id" = ANY(${eventIds}::text[])`
+    : Prisma.empty;
+
+  // 打ち切ったか判定するため1件多く取得する
+  const rows = await prisma.$queryRaw<{ id: string; score: number }[]>`
+    SELECT e."id",
+      (${rank} + word_similarity(${normalized}, coalesce(e."searchText", '')))::float8 AS "score"
+    FROM "Event" e
+    WHERE (${matches}) AND e."mergedIntoId" IS NULL ${idFilter}
+    ORDER BY "score" DESC, e."eventDate" ASC
+    LIMIT ${MAX_SEARCH_CANDIDATES + 1}
+  `;
+
+  return {
+    ranked: rows.slice(0, MAX_SEARCH_CANDIDATES),
+    capped: rows.length > MAX_SEARCH_CANDIDATES,
+  };
+};
+
+/**
+ * イベントに関連度スコアとハイライト付きのスニペットを付ける
+ * @param events イベント
+ * @param terms ハイライトする検索語
+ * @param scores イベントIDごとの関連度スコア
+ * @returns スコアとスニペットを付けたイベント
+ */
+const attachSearchResult = async (
+  events: { id: string }[],
+  terms: string[],
+  scores: Map<string, number>
+) => {
+  const texts = await prisma.event.findMany({
+    where: { id: { in: events.map((event) => event.id) } },
+    select: { id: true, title: true, description: true },
+  });
+  const textById = new Map(texts.map((text) => [text.id, text]));
+
+  return events.map((event) => {
+    const text = textById.get(event.id);
+    return {
+      ...event,
+      searchScore: scores.get(event.id) ?? 0,
+      snippet: buildSearchSnippet(
+        text?.description || text?.title || "",
+        terms
+      ),
+    };
+  });
+};
+
+/**
+ * 全文検索で条件に合うイベントを1ページ分取得する
+ * sort=relevance の場合は関連度の高い順、それ以外は指定された項目で並べる
+ * 全文検索以外の検索条件で先に絞り込み、条件に合うイベントの中で関連度の上位を候補にする
+ * 候補の上限で打ち切った場合はページ情報の capped を true にする（total は上限までの件数）
+ * @param q 検索文字列
+ * @param where 全文検索以外の検索条件
+ * @param options ページング・並び替えの指定
+ * @returns イベント（関連度スコア・スニペット付き）とページ情報
+ */
+export const searchEventsByText = async (
+  q: string,
+  where: Prisma.EventWhereInput,
+  options: EventPageOptions
+) => {
+  const eventIds = hasEventFilterConditions(where)
+    ? (await prisma.event.findMany({ where, select: { id: true } })).map(
+        (event) => event.id
+      )
+    : undefined;
+  const { ranked, capped } = await findRankedEventIds(q, eventIds);
+  const scores = new Map(ranked.map((row) => [row.id, row.score]));
+  const terms = Array.from(
+    new Set([normalizeSearchText(q).trim(), ...(await tokenizeForSearch(q))])
+  );
+
+  const candidateWhere: Prisma.EventWhereInput = {
+    AND: [where, { id: { in: ranked.map((row) => row.id) } }],
+  };
+
+  if (options.sort !== "relevance") {
+    const { events, pagination } = await findEventPage(candidateWhere, options);
+    return {
+      events: await attachSearchResult(events, terms, scores),
+      pagination: { ...pagination, capped },
+    };
+  }
+
+  // 関連度順に並べる（他の検索条件は findRankedEventIds で適用済み）
+  const orderedIds = ranked.map((row) => row.id);
+  if (options.order === "asc") orderedIds.reverse();
+
+  // カーソル（前のページの最後のイベントID）の次から返す
+  const cursorIndex = options.cursor ? orderedIds.indexOf(options.cursor) : -1;
+  const start = options.cursor
+    ? cursorIndex >= 0
+      ? cursorIndex + 1
+      : orderedIds.length
+    : 0;
+  const pageIds = orderedIds.slice(start, start + options.limit);
+
+  const rows: { id: string }[] =
+    options.view === "full"
+      ? await prisma.event.findMany({
+          where: { id: { in: pageIds } },
+          include: eventFullInclude,
+        })
+      : await prisma.event.findMany({
+          where: { id: { in: pageIds } },
+          select: eventListSelect,
+        });
+  const rowById = new Map(rows.map((row) => [row.id, row]));
+  const events = pageIds.map((id) => rowById.get(id)).filter(Boolean);
+
+  const hasMore = start + options.limit < orderedIds.length;
+
+  return {
+    events: await attachSearchResult(events, terms, scores),
+    pagination: {
+      total: orderedIds.length,
+      limit: options.limit,
+      sort: options.sort,
+      order: options.order,
+      hasMore,
+      nextCursor: hasMore ? pageIds[pageIds.length - 1] : null,
+      capped,
+    },
+  };
+};
@@ -0,0 +1,53 @@
+import { EventSourceAdapter } from "../../types/eventSourceTypes";
+import {
+  convertConnpassEventToPrismaEvent,
+  getConnpassOrganizer,
+} from "../../utils/connpassEventUtils";
+import { ConnpassEventV2, fetchConnpassEventsV2 } from "../connpassService";
+
+/**
+ * Connpass のアダプター
+ * fetch は新着順で100件取得する（都道府県ごとの差分同期は connpassService で行う）
+ */
+export const connpassAdapter: EventSourceAdapter<
+  ConnpassEventV2,
+  { apiKey: string }
+> = {
+  source: "connpass",
+  fetch: async ({ apiKey }) => {
+    if (!apiKey) throw new Error("CONNPASS_API_KEY is required");
+
+    const response = await fetchConnpassEventsV2({
+      api_key: apiKey,
+      order: 3, // 新着順
+      count: 100,
+    });
+    return response.events;
+  },
+  normalize: (raw) => {
+    if (!raw.id || !raw.title || !raw.started_at) {
+      throw new Error("必須項目（ID・タイトル・開始日時）が不足しています");
+    }
+
+    // イベントタイプ・開催形式の判定は Connpass 用の変換と共通
+    const event = convertConnpassEventToPrismaEvent(raw);
+    return {
+      source: "connpass",
+      externalId: String(raw.id),
+      title: event.title,
+      description: event.description,
+      eventDate: event.eventDate,
+      startTime: event.startTime,
+      endTime: event.endTime,
+      venue: event.venue,
+      address: event.address,
+      detailUrl: event.detailUrl,
+      format: event.format,
+      eventType: event.eventType,
+      organizer: getConnpassOrganizer(raw),
+      sourceUpdatedAt: event.sourceUpdatedAt,
+      rawPayload: raw,
+    };
+  },
+  describe: (raw) => raw.url || `connpass_${raw.id}`,
+};
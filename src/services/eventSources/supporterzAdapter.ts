@@ -0,0 +1,54 @@
+import { EventFormat } from "@prisma/client";
+import { EventSourceAdapter } from "../../types/eventSourceTypes";
+import { SupporterzEventInfo } from "../../functions/scrapeSupporters";
+import { getExternalIdFromUrl } from "../eventIngestionService";
+
+/**
+ * サポーターズのアダプター
+ * fetch はイベント一覧・詳細ページをスクレイピングする
+ */
+export const supporterzAdapter: EventSourceAdapter<SupporterzEventInfo> = {
+  source: "supporterz",
+  fetch: async () => {
+    // スクレイピング（puppeteer）はサーバーの起動時に読み込まないよう、実行時に読み込む
+    const { scrapeSupportersEvents } = await import(
+      "../../functions/scrapeSupporters"
+    );
+    return scrapeSupportersEvents();
+  },
+  normalize: (raw) => {
+    if (!raw.title || !raw.eventUrl) {
+      throw new Error("必須項目（タイトル・URL）が不足しています");
+    }
+
+    const eventDate = raw.date ? new Date(raw.date) : null;
+    if (!eventDate || isNaN(eventDate.getTime())) {
+      throw new Error("開催日が不明です");
+    }
+
+    // 会社名を取り込み元での主催者IDとして主催団体を登録する
+    const companyName = raw.companyName || "Unknown Company";
+    return {
+      source: "supporterz",
+      externalId: getExternalIdFromUrl(raw.eventUrl),
+      title: raw.title,
+      description: raw.fullPageText || raw.description || "",
+      eventDate,
+      startTime: eventDate.toISOString(),
+      venue: raw.eventFormat || "未定",
+      detailUrl: raw.eventUrl,
+      image: raw.thumbnailUrl || null,
+      format:
+        raw.eventFormat === "オンライン"
+          ? EventFormat.ONLINE
+          : EventFormat.OFFLINE,
+      organizer: {
+        source: "supporterz",
+        externalId: companyName,
+        name: companyName,
+      },
+      rawPayload: raw,
+    };
+  },
+  describe: (raw) => raw.eventUrl || raw.title || "unknown",
+};
@@ -0,0 +1,58 @@
+import { EventFormat, EventType } from "@prisma/client";
+import { EventSourceAdapter } from "../../types/eventSourceTypes";
+import { TechPlayEvent } from "../../functions/scrapeTechPlay";
+import { getExternalIdFromUrl } from "../eventIngestionService";
+
+/**
+ * TECH PLAY のアダプター
+ * fetch はイベント一覧・詳細ページをスクレイピングする
+ */
+export const techPlayAdapter: EventSourceAdapter<TechPlayEvent> = {
+  source: "techplay",
+  fetch: async () => {
+    // スクレイピング（puppeteer）はサーバーの起動時に読み込まないよう、実行時に読み込む
+    const { scrapeTechPlayAndExtractData } = await import(
+      "../../functions/scrapeTechPlay"
+    );
+    return scrapeTechPlayAndExtractData();
+  },
+  normalize: (raw) => {
+    if (!raw.title || !raw.eventUrl) {
+      throw new Error("必須項目（タイトル・URL）が不足しています");
+    }
+
+    const start = raw.dateTime?.start || raw.startDate;
+    const eventDate = start ? new Date(start) : null;
+    if (!eventDate || isNaN(eventDate.getTime())) {
+      throw new Error("開催日が不明です");
+    }
+    const endDate = raw.dateTime?.end ? new Date(raw.dateTime.end) : null;
+
+    const organizerName = raw.organizer || "TECH PLAY";
+    return {
+      source: "techplay",
+      externalId: getExternalIdFromUrl(raw.eventUrl),
+      title: raw.title,
+      description: raw.description || raw.details?.overview || "",
+      eventDate,
+      startTime: eventDate.toISOString(),
+      endTime:
+        endDate && !isNaN(endDate.getTime()) ? endDate.toISOString() : null,
+      venue: raw.venue || raw.detailedVenue || "未定",
+      detailUrl: raw.eventUrl,
+      image: raw.thumbnailUrl || null,
+      format:
+        raw.format === "ONLINE" || raw.venue?.toLowerCase().includes("online")
+          ? EventFormat.ONLINE
+          : EventFormat.OFFLINE,
+      eventType: EventType.WORKSHOP,
+      organizer: {
+        source: "techplay",
+        externalId: organizerName,
+        name: organizerName,
+      },
+      rawPayload: raw,
+    };
+  },
+  describe: (raw) => raw.eventUrl || raw.title || "unknown",
+};
@@ -1,13 +1,225 @@
 import axios from "axios";
 import prisma from "../config/prisma";
 import crypto from "crypto";
+import { AsyncLocalStorage } from "async_hooks";
 import {
   createEventRecommendlMessage,
   createEventReminderMessage,
 } from "../utils/lineMessageTemplates";
+import { LineDelivery } from "../types/lineTypes";
+import { createSession } from "./sessionService";
+import { resolveCanonicalEventId } from "./eventDedupService";
+import {
+  DEFAULT_REMINDER_OFFSETS_MINUTES,
+  MAX_REMINDER_OFFSET_MINUTES,
+  formatTimeUntilEvent,
+  getDueReminderOffset,
+} from "../utils/reminderUtils";
 
 // LINE Messaging APIのエンドポイント
 const LINE_MESSAGING_API = "https://api.line.me/v2/bot/message/push";
+const LINE_REPLY_API = "https://api.line.me/v2/bot/message/reply";
+
+// 1回のリクエストで送信できるメッセージの最大件数
+const MAX_MESSAGES_PER_REQUEST = 5;
+
+// 応答トークンの有効期限（LINEの目安は1分。処理時間を考慮して余裕を持たせる）
+const REPLY_TOKEN_TTL_MS = 50 * 1000;
+
+// ジョブ単位で送信結果を記録するためのストア
+const deliveryLogStorage = new AsyncLocalStorage<LineDelivery[]>();
+
+/**
+ * 関数の実行中に行われたLINEへの送信結果を deliveries に記録する
+ * Webhookジョブのワーカーが、ジョブごとの送信結果を保存するために使用する
+ * 処理が例外で終わった場合も、それまでの送信結果は deliveries に残る
+ * @param deliveries 送信結果の記録先
+ * @param fn 実行する処理
+ * @returns 処理結果
+ */
+export const runWithLineDeliveryLog = <T>(
+  deliveries: LineDelivery[],
+  fn: () => Promise<T>
+): Promise<T> => deliveryLogStorage.run(deliveries, fn);
+
+/**
+ * 実行中のジョブの送信結果を取得する（ジョブ外では undefined）
+ */
+export const getCurrentLineDeliveries = () => deliveryLogStorage.getStore();
+
+/**
+ * LINE Messaging APIにメッセージを送信し、送信結果を記録する
+ * @param method 送信方法（push または reply）
+ * @param url エンドポイント
+ * @param body リクエストボディ
+ * @param to 送信先のLINEユーザーID（記録用）
+ * @param messages 送信するメッセージ（最大5件）
+ * @returns LINE APIのレスポンス
+ */
+const postLineMessages = async (
+  method: LineDelivery["method"],
+  url: string,
+  body: object,
+  to: string,
+  messages: any[]
+) => {
+  try {
+    const response = await axios.post(url, body, {
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${process.env.LINE_CHANNEL_ACCESS_TOKEN}`,
+      },
+    });
+
+    getCurrentLineDeliveries()?.push({
+      method,
+      to,
+      messageCount: messages.length,
+      success: true,
+      status: response.status,
+      requestId: response.headers?.["x-line-request-id"],
+      sentAt: new Date().toISOString(),
+    });
+
+    return response;
+  } catch (error) {
+    getCurrentLineDeliveries()?.push({
+      method,
+      to,
+      messageCount: messages.length,
+      success: false,
+      status: axios.isAxiosError(error) ? error.response?.status : undefined,
+      error: error instanceof Error ? error.message : String(error),
+      sentAt: new Date().toISOString(),
+    });
+    throw error;
+  }
+};
+
+/**
+ * Push APIでメッセージを送信し、送信結果を記録する
+ * @param to 送信先のLINEユーザーID
+ * @param messages 送信するメッセージ（最大5件）
+ * @returns LINE APIのレスポンス
+ */
+const pushLineMessages = (to: string, messages: any[]) =>
+  postLineMessages("push", LINE_MESSAGING_API, { to, messages }, to, messages);
+
+/**
+ * Push APIでメッセージを5件ずつに分けて送信する
+ * @param to 送信先のLINEユーザーID
+ * @param messages 送信するメッセージ
+ * @returns LINE APIのレスポンス（送信したリクエストごと）
+ */
+const pushLineMessagesInChunks = async (to: string, messages: any[]) => {
+  const responses = [];
+  for (let i = 0; i < messages.length; i += MAX_MESSAGES_PER_REQUEST) {
+    responses.push(
+      await pushLineMessages(
+        to,
+        messages.slice(i, i + MAX_MESSAGES_PER_REQUEST)
+      )
+    );
+  }
+  return responses;
+};
+
+/**
+ * Reply APIで応答トークンを使ってメッセージを送信し、送信結果を記録する
+ * @param replyToken Webhookイベントの応答トークン
+ * @param to 送信先のLINEユーザーID（記録用）
+ * @param messages 送信するメッセージ（最大5件）
+ * @returns LINE APIのレスポンス
+ */
+const replyLineMessages = (replyToken: string, to: string, messages: any[]) =>
+  postLineMessages(
+    "reply",
+    LINE_REPLY_API,
+    { replyToken, messages },
+    to,
+    messages
+  );
+
+/**
+ * Webhookイベントへの応答をまとめて送信するレスポンダーを作成する
+ * 追加されたメッセージは flush を呼ぶまで送信されない
+ * 応答トークンが使える場合は先頭の5件を Reply API で送り（Push の送信数を消費しない）、
+ * 残りのメッセージや、トークンが期限切れ・使用済みの場合は Push API で送信する
+ * @param event LINE Webhook イベント（replyToken, timestamp, source.userId を使用）
+ * @returns レスポンダー
+ */
+export const createLineResponder = (event: any) => {
+  const lineUserId: string = event.source?.userId;
+  const receivedAt: number = event.timestamp ?? Date.now();
+  let replyToken: string | undefined = event.replyToken;
+  const queue: any[] = [];
+
+  // 応答トークンがまだ使えるかどうか
+  const canReply = () =>
+    Boolean(replyToken) && Date.now() - receivedAt < REPLY_TOKEN_TTL_MS;
+
+  return {
+    lineUserId,
+
+    /**
+     * 送信するメッセージを追加する
+     * @param messages LINEのメッセージオブジェクト
+     */
+    add: (...messages: any[]) => {
+      queue.push(...messages);
+    },
+
+    /**
+     * 送信するテキストメッセージを追加する
+     * @param text 送信するテキスト
+     */
+    text: (text: string) => {
+      queue.push({ type: "text", text });
+    },
+
+    /**
+     * 追加されたメッセージを送信する
+     * 応答トークンは1回しか使えないため、2回目以降の呼び出しは Push API で送信する
+     */
+    flush: async () => {
+      const messages = queue.splice(0, queue.length);
+      if (messages.length === 0) return;
+
+      if (canReply()) {
+        const token = replyToken;
+        replyToken = undefined;
+        const replyMessages = messages.slice(0, MAX_MESSAGES_PER_REQUEST);
+
+        let replied = false;
+        try {
+          await replyLineMessages(token, lineUserId, replyMessages);
+          replied = true;
+        } catch (error) {
+          // 400 は期限切れ・使用済みのトークン（ジョブの再実行時など）。それ以外はそのまま失敗させる
+          if (!axios.isAxiosError(error) || error.response?.status !== 400) {
+            throw error;
+          }
+          console.warn(
+            "応答トークンが使用できないため、Push APIで送信します:",
+            error.response?.data
+          );
+        }
+
+        if (replied) {
+          await pushLineMessagesInChunks(
+            lineUserId,
+            messages.slice(MAX_MESSAGES_PER_REQUEST)
+          );
+          return;
+        }
+      }
+
+      await pushLineMessagesInChunks(lineUserId, messages);
+    },
+  };
+};
+
+export type LineResponder = ReturnType<typeof createLineResponder>;
 
 /**
  * 特定のユーザーIDに対してLINE通知を送信する
@@ -30,24 +242,12 @@ export const sendLineNotificationToUser = async (
     }
 
     // LINE Messaging APIを使用してメッセージを送信
-    const response = await axios.post(
-      LINE_MESSAGING_API,
+    const response = await pushLineMessages(user.lineId, [
       {
-        to: user.lineId,
-        messages: [
-          {
-            type: "text",
-            text: message,
-          },
-        ],
+        type: "text",
+        text: message,
       },
-      {
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${process.env.LINE_CHANNEL_ACCESS_TOKEN}`,
-        },
-      }
-    );
+    ]);
 
     return {
       success: true,
@@ -81,6 +281,77 @@ export const getUsersWithLineId = async () => {
   }
 };
 
+/**
+ * 特定のイベントリストのカルーセルメッセージを作成する
+ * @param userId ユーザーID（ブックマーク状態の判定に使用）
+ * @param eventIds 送信するイベントIDの配列
+ * @param recommendationId レコメンドID（指定した場合はフィードバックボタンを表示）
+ * @returns 送信するメッセージの配列（案内テキストとカルーセル）
+ */
+export const buildEventCarouselMessages = async (
+  userId: string,
+  eventIds: string[],
+  recommendationId?: string | null
+) => {
+  // イベント情報を取得
+  const events = await prisma.event.findMany({
+    where: {
+      id: {
+        in: eventIds,
+      },
+    },
+    include: {
+      Organization: true,
+      EventCategory: {
+        include: {
+          Category: true,
+        },
+      },
+    },
+  });
+
+  if (events.length === 0) {
+    throw new Error("指定されたイベントが見つかりません");
+  }
+
+  // ユーザーのブックマーク情報を取得
+  const bookmarks = await prisma.bookmark.findMany({
+    where: {
+      userId: userId,
+      eventId: {
+        in: eventIds,
+      },
+    },
+    select: {
+      eventId: true, // ブックマークされているイベントIDだけ取得
+    },
+  });
+  const bookmarkedEventIds = new Set(bookmarks.map((b) => b.eventId));
+
+  // イベントデータにブックマーク状態を追加
+  const eventsWithBookmarkStatus = events.map((event) => {
+    const isBookmarked = bookmarkedEventIds.has(event.id);
+    // Bookmark情報は不要なので含めない
+    // (EventWithBookmarkStatus型にはBookmarkプロパティは含まれないため)
+    return { ...event, isBookmarked };
+  });
+
+  // カルーセルメッセージを作成
+  const carouselMessage = createEventRecommendlMessage(
+    eventsWithBookmarkStatus,
+    userId,
+    recommendationId
+  );
+
+  return [
+    {
+      type: "text",
+      text: "あなたにおすすめのイベント情報をお届けします！",
+    },
+    carouselMessage,
+  ];
+};
+
 /**
  * 特定のイベントリストをカルーセルテンプレートでLINEに送信する
  * @param userId ユーザーID
@@ -101,75 +372,9 @@ export const sendEventCarouselToUser = async (
       throw new Error(`ユーザー(${userId})が見つかりません`);
     }
 
-    // イベント情報を取得
-    const events = await prisma.event.findMany({
-      where: {
-        id: {
-          in: eventIds,
-        },
-      },
-      include: {
-        Organization: true,
-        EventCategory: {
-          include: {
-            Category: true,
-          },
-        },
-      },
-    });
-
-    if (events.length === 0) {
-      throw new Error("指定されたイベントが見つかりません");
-    }
-
-    // ユーザーのブックマーク情報を取得
-    const bookmarks = await prisma.bookmark.findMany({
-      where: {
-        userId: userId,
-        eventId: {
-          in: eventIds,
-        },
-      },
-      select: {
-        eventId: true, // ブックマークされているイベントIDだけ取得
-      },
-    });
-    const bookmarkedEventIds = new Set(bookmarks.map((b) => b.eventId));
-
-    // イベントデータにブックマーク状態を追加
-    const eventsWithBookmarkStatus = events.map((event) => {
-      const isBookmarked = bookmarkedEventIds.has(event.id);
-      // Bookmark情報は不要なので含めない
-      // (EventWithBookmarkStatus型にはBookmarkプロパティは含まれないため)
-      return { ...event, isBookmarked };
-    });
-
-    // カルーセルメッセージを作成
-    const carouselMessage = createEventRecommendlMessage(
-      eventsWithBookmarkStatus,
-      userId
-    );
-
     // LINE Messaging APIを使用してカルーセルを送信
-    const response = await axios.post(
-      LINE_MESSAGING_API,
-      {
-        to: user.lineId,
-        messages: [
-          {
-            type: "text",
-            text: "あなたにおすすめのイベント情報をお届けします！",
-          },
-          carouselMessage,
-        ],
-      },
-      {
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${process.env.LINE_CHANNEL_ACCESS_TOKEN}`,
-        },
-      }
-    );
+    const messages = await buildEventCarouselMessages(userId, eventIds);
+    const response = await pushLineMessages(user.lineId, messages);
 
     return {
       success: true,
@@ -202,6 +407,9 @@ export const addBookmarkFromLine = async (
       throw new Error(`ユーザー(${lineUserId})が見つかりません`);
     }
 
+    // 古いカルーセルから統合済みのイベントが指定された場合は代表のイベントをブックマークする
+    eventId = await resolveCanonicalEventId(eventId);
+
     // すでにブックマークが存在するか確認
     const existingBookmark = await prisma.bookmark.findFirst({
       where: {
@@ -391,10 +599,14 @@ export const processLineAuthentication = async (code: string) => {
       });
     }
 
-    // 4. レスポンスを返す
+    // 4. APIの認証に使うセッションを発行する
+    const session = await createSession(user.id);
+
+    // 5. レスポンスを返す
     return {
       success: true,
       message: "LINE連携が完了しました",
+      sessionToken: session.sessionToken,
       user: {
         id: user.id,
         lineId: user.lineId,
@@ -414,29 +626,33 @@ export const processLineAuthentication = async (code: string) => {
 };
 
 /**
- * 1週間後に開催されるイベントをブックマークしているユーザーにリマインドメッセージを送信する
+ * ブックマークしたイベントのリマインドを、各ユーザーの設定したタイミングで送信する
+ * スケジューラーから定期的に呼び出される想定で、送信済みのリマインドは ReminderLog で判定して再送しない
+ * @param now 基準日時（デフォルト: 現在）
  * @returns 処理結果
  */
-export const sendEventReminders = async () => {
+export const sendEventReminders = async (now: Date = new Date()) => {
   try {
-    // 現在の日付を取得
-    const now = new Date();
-
-    // 1週間後の日付を計算（時刻部分をリセット）
-    const oneWeekLater = new Date(now);
-    oneWeekLater.setDate(now.getDate() + 7);
-    oneWeekLater.setHours(0, 0, 0, 0);
-
-    // 翌日の日付を計算（時刻部分をリセット）
-    const nextDay = new Date(oneWeekLater);
-    nextDay.setDate(oneWeekLater.getDate() + 1);
+    // 設定できる最大のリマインドのタイミング（開催の何分前か）までに開催されるイベントを検索
+    const horizon = new Date(
+      now.getTime() + MAX_REMINDER_OFFSET_MINUTES * 60 * 1000
+    );
 
-    // 1週間後に開催されるイベントを検索
     const upcomingEvents = await prisma.event.findMany({
       where: {
+        // 統合されたイベントのリマインドは代表のイベントについてのみ送る
+        mergedIntoId: null,
         eventDate: {
-          gte: oneWeekLater,
-          lt: nextDay,
+          gt: now,
+          lte: horizon,
+        },
+        Bookmark: {
+          some: {
+            User: {
+              lineId: { not: null },
+              remindersEnabled: true,
+            },
+          },
         },
       },
       include: {
@@ -448,11 +664,7 @@ export const sendEventReminders = async () => {
       },
     });
 
-    console.log(
-      `1週間後（${
-        oneWeekLater.toISOString().split("T")[0]
-      }）に開催されるイベント数: ${upcomingEvents.length}`
-    );
+    console.log(`リマインド対象になりうるイベント数: ${upcomingEvents.length}`);
 
     // 送信結果を格納する配列
     interface ReminderResult {
@@ -460,6 +672,7 @@ export const sendEventReminders = async () => {
       lineId: string;
       eventId: string;
       eventTitle: string;
+      offsetMinutes: number;
       success: boolean;
       error?: string;
     }
@@ -468,62 +681,65 @@ export const sendEventReminders = async () => {
 
     // 各イベントについて処理
     for (const event of upcomingEvents) {
-      // イベントをブックマークしているユーザーを取得
-      const bookmarks = event.Bookmark;
-
-      console.log(
-        `イベント「${event.title}」のブックマーク数: ${bookmarks.length}`
-      );
-
-      // 各ブックマークについて処理
-      for (const bookmark of bookmarks) {
+      for (const bookmark of event.Bookmark) {
         const user = bookmark.User;
 
-        // ユーザーのLINE IDが存在する場合のみ通知を送信
-        if (user && user.lineId) {
-          try {
-            // リマインドメッセージを作成
-            const reminderMessage = createEventReminderMessage(
-              event,
-              oneWeekLater
-            );
-
-            // LINE通知を送信（カールセルメッセージ）
-            const client = axios.create({
-              baseURL: "https://api.line.me/v2/bot",
-              headers: {
-                "Content-Type": "application/json",
-                Authorization: `Bearer ${process.env.LINE_CHANNEL_ACCESS_TOKEN}`,
-              },
-            });
-
-            await client.post("/message/push", {
-              to: user.lineId,
-              messages: [reminderMessage],
-            });
-
-            results.push({
-              userId: user.id,
-              lineId: user.lineId,
-              eventId: event.id,
-              eventTitle: event.title,
-              success: true,
-            });
-          } catch (error) {
-            console.error(
-              `ユーザー(${user.id})へのリマインド送信エラー:`,
-              error
-            );
-
-            results.push({
-              userId: user.id,
-              lineId: user.lineId,
-              eventId: event.id,
-              eventTitle: event.title,
-              success: false,
-              error: error instanceof Error ? error.message : String(error),
-            });
-          }
+        // LINE連携済みでリマインドを有効にしているユーザーのみ通知を送信
+        if (!user || !user.lineId || !user.remindersEnabled) continue;
+
+        const offsets =
+          user.reminderOffsetsMinutes.length > 0
+            ? user.reminderOffsetsMinutes
+            : DEFAULT_REMINDER_OFFSETS_MINUTES;
+        const offsetMinutes = getDueReminderOffset(
+          event.eventDate,
+          offsets,
+          now
+        );
+        if (offsetMinutes === null) continue;
+
+        // 送信前に記録することで、スイープが重なっても同じリマインドを二重に送らない
+        const { count } = await prisma.reminderLog.createMany({
+          data: [{ userId: user.id, eventId: event.id, offsetMinutes }],
+          skipDuplicates: true,
+        });
+        if (count === 0) continue;
+
+        try {
+          // リマインドメッセージを作成
+          const reminderMessage = createEventReminderMessage(
+            event,
+            event.eventDate,
+            formatTimeUntilEvent(event.eventDate, now)
+          );
+
+          await pushLineMessages(user.lineId, [reminderMessage]);
+
+          results.push({
+            userId: user.id,
+            lineId: user.lineId,
+            eventId: event.id,
+            eventTitle: event.title,
+            offsetMinutes,
+            success: true,
+          });
+        } catch (error) {
+          console.error(`ユーザー(${user.id})へのリマインド送信エラー:`, error);
+
+          // 次回のスイープで再送できるよう記録を取り消す
+          await prisma.reminderLog.deleteMany({
+            where: { userId: user.id, eventId: event.id, offsetMinutes },
+          });
+
+          results.push({
+            userId: user.id,
+            lineId: user.lineId,
+            eventId: event.id,
+            eventTitle: event.title,
+            offsetMinutes,
+            success: false,
+            error: error instanceof Error ? error.message : String(error),
+          });
         }
       }
     }
@@ -543,6 +759,71 @@ export const sendEventReminders = async () => {
   }
 };
 
+/**
+ * 興味タグごとのイベントカルーセルメッセージを作成する
+ * @param userId ユーザーID（ブックマーク状態の判定に使用）
+ * @param tagRecommendations タグごとのレコメンド結果配列（recommendationId がある場合はフィードバックボタンを表示）
+ * @returns 送信するメッセージの配列（タグごとの見出しとカルーセル）
+ */
+export const buildEventCarouselByTagsMessages = async (
+  userId: string,
+  tagRecommendations: {
+    tag: string;
+    recommendationId?: string | null;
+    recommendations: any[];
+  }[]
+) => {
+  // ユーザーのブックマーク情報を取得
+  const allEventIds = tagRecommendations.flatMap((tagRec) =>
+    tagRec.recommendations.map((rec) => rec.event.id)
+  );
+
+  const bookmarks = await prisma.bookmark.findMany({
+    where: {
+      userId: userId,
+      eventId: {
+        in: allEventIds,
+      },
+    },
+    select: {
+      eventId: true,
+    },
+  });
+  const bookmarkedEventIds = new Set(bookmarks.map((b) => b.eventId));
+
+  // タグごとに見出しとカルーセルを作成
+  const messages = [];
+
+  for (const tagRec of tagRecommendations) {
+    if (tagRec.recommendations.length === 0) continue;
+
+    // イベントデータにブックマーク状態を追加
+    const eventsWithBookmarkStatus = tagRec.recommendations.map((rec) => {
+      const isBookmarked = bookmarkedEventIds.has(rec.event.id);
+      return { ...rec.event, isBookmarked };
+    });
+
+    // カルーセルメッセージを作成
+    const carouselMessage = createEventRecommendlMessage(
+      eventsWithBookmarkStatus,
+      userId,
+      tagRec.recommendationId
+    );
+
+    messages.push({
+      type: "text",
+      text: `【${tagRec.tag}】のおすすめイベント`,
+    });
+    messages.push(carouselMessage);
+  }
+
+  if (messages.length === 0) {
+    throw new Error("送信するイベントが見つかりません");
+  }
+
+  return messages;
+};
+
 /**
  * 興味タグごとにイベントカルーセルをLINEに送信する
  * @param userId ユーザーID
@@ -563,71 +844,17 @@ export const sendEventCarouselByTagsToUser = async (
       throw new Error(`ユーザー(${userId})が見つかりません`);
     }
 
-    // ユーザーのブックマーク情報を取得
-    const allEventIds = tagRecommendations.flatMap((tagRec) =>
-      tagRec.recommendations.map((rec) => rec.event.id)
-    );
-
-    const bookmarks = await prisma.bookmark.findMany({
-      where: {
-        userId: userId,
-        eventId: {
-          in: allEventIds,
-        },
-      },
-      select: {
-        eventId: true,
-      },
-    });
-    const bookmarkedEventIds = new Set(bookmarks.map((b) => b.eventId));
-
-    // LINE Messaging APIを使用してタグごとにカルーセルを送信
-    const messages = [];
-
-    for (const tagRec of tagRecommendations) {
-      if (tagRec.recommendations.length === 0) continue;
-
-      // イベントデータにブックマーク状態を追加
-      const eventsWithBookmarkStatus = tagRec.recommendations.map((rec) => {
-        const isBookmarked = bookmarkedEventIds.has(rec.event.id);
-        return { ...rec.event, isBookmarked };
-      });
-
-      // カルーセルメッセージを作成
-      const carouselMessage = createEventRecommendlMessage(
-        eventsWithBookmarkStatus,
-        userId
-      );
-
-      messages.push({
-        type: "text",
-        text: `【${tagRec.tag}】のおすすめイベント`,
-      });
-      messages.push(carouselMessage);
-    }
-
-    if (messages.length === 0) {
-      throw new Error("送信するイベントが見つかりません");
-    }
-
-    const response = await axios.post(
-      LINE_MESSAGING_API,
-      {
-        to: user.lineId,
-        messages: messages,
-      },
-      {
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${process.env.LINE_CHANNEL_ACCESS_TOKEN}`,
-        },
-      }
+    const messages = await buildEventCarouselByTagsMessages(
+      userId,
+      tagRecommendations
     );
+    // タグごとに2件のメッセージになるため、5件ずつに分けて送信する
+    const responses = await pushLineMessagesInChunks(user.lineId, messages);
 
     return {
       success: true,
       message: "タグ別イベント情報がLINEで送信されました",
-      response: response.data,
+      response: responses.map((response) => response.data),
     };
   } catch (error) {
     console.error("タグ別イベント情報のLINE送信に失敗しました:", error);
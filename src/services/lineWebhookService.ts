@@ -0,0 +1,42 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../config/prisma";
+
+/**
+ * 受信したWebhookイベントを記録し、初回受信かどうかを返す
+ * webhookEventId を主キーとして保存するため、LINE Platform から再送された
+ * 同一イベントは保存されず false が返る
+ * @param event LINE Webhook イベント
+ * @param client トランザクション内で呼び出す場合のクライアント
+ * @returns 初めて受信したイベントなら true、処理済みの再送なら false
+ */
+export const markWebhookEventReceived = async (
+  event: any,
+  client: Prisma.TransactionClient = prisma
+) => {
+  const webhookEventId: string | undefined = event.webhookEventId;
+
+  // webhookEventId を持たないイベントは重複判定できないため常に処理する
+  if (!webhookEventId) return true;
+
+  // 一意制約違反で例外を投げるとトランザクションが中断されるため skipDuplicates を使う
+  const { count } = await client.lineWebhookEvent.createMany({
+    data: [
+      {
+        id: webhookEventId,
+        eventType: event.type,
+        lineUserId: event.source?.userId ?? null,
+        isRedelivery: event.deliveryContext?.isRedelivery === true,
+      },
+    ],
+    skipDuplicates: true,
+  });
+
+  if (count === 0) {
+    console.log(
+      `Webhookイベント ${webhookEventId} は処理済みのためスキップします`
+    );
+    return false;
+  }
+
+  return true;
+};
@@ -0,0 +1,559 @@
+import crypto from "crypto";
+import fs from "fs";
+import { z } from "zod";
+import { ChatOpenAI } from "@langchain/openai";
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import {
+  BaseChatModel,
+  BaseChatModelParams,
+} from "@langchain/core/language_models/chat_models";
+import {
+  AIMessage,
+  BaseMessage,
+  MessageContent,
+  MessageContentComplex,
+  MessageContentText,
+  getBufferString,
+} from "@langchain/core/messages";
+import { ChatResult, LLMResult } from "@langchain/core/outputs";
+import { CallbackHandlerMethods } from "@langchain/core/callbacks/base";
+
+/**
+ * LLM クライアントのレジストリ
+ * 用途（タスク）ごとにプロバイダー・モデル・タイムアウト・リトライ回数を設定し、
+ * 呼び出しごとのトークン数と概算コストを集計する
+ *
+ * 環境変数
+ * - LLM_PROVIDER: すべてのタスクのプロバイダーを上書きする（openai / gemini / replay）
+ * - LLM_TASK_CONFIG: タスクごとの設定の上書き（JSON 例: {"eventFilter":{"model":"gpt-4o-mini"}}）
+ * - LLM_REPLAY_FILE: replay プロバイダーが再生する応答の記録ファイル
+ * - LLM_RECORD_FILE: 指定すると openai / gemini の応答を記録する（replay で再生できる形式）
+ */
+
+export const LLM_TASKS = [
+  "eventFilter", // ragUtils.filterEventsWithLLM（推薦イベントの最終絞り込み）
+  "keywordGeneration", // ユーザー情報から検索キーワードを生成
+  "queryKeywordExtraction", // 質問文から検索キーワードを抽出
+  "eventSelection", // キーワード検索の候補からイベントを選択
+  "hydeQuery", // HyDE の検索クエリ生成
+  "ragAnswer", // RAG による質問への回答
+  "keyDataExtraction", // イベントのキーワード・キーフレーズ・キーセンテンスの精製
+] as const;
+export type LlmTask = (typeof LLM_TASKS)[number];
+
+export const LLM_PROVIDER_NAMES = ["openai", "gemini", "replay"] as const;
+export type LlmProviderName = (typeof LLM_PROVIDER_NAMES)[number];
+
+const llmTaskConfigSchema = z.object({
+  provider: z.enum(LLM_PROVIDER_NAMES),
+  model: z.string().min(1),
+  temperature: z.number().min(0).max(2),
+  timeoutMs: z.number().int().positive(),
+  maxRetries: z.number().int().min(0),
+});
+export type LlmTaskConfig = z.infer<typeof llmTaskConfigSchema>;
+
+// LLM_TASK_CONFIG では一部の項目のみ指定できる
+const llmTaskConfigOverridesSchema = z.record(
+  z.enum(LLM_TASKS),
+  llmTaskConfigSchema.partial().strict()
+);
+
+// タスクごとのデフォルト設定（従来各ファイルで指定していたモデル・温度）
+const DEFAULT_LLM_TASK_CONFIG: Record<LlmTask, LlmTaskConfig> = {
+  eventFilter: {
+    provider: "openai",
+    model: "ft:gpt-3.5-turbo-0125:personal::BpC4PRxL",
+    temperature: 0,
+    timeoutMs: 30000,
+    maxRetries: 2,
+  },
+  keywordGeneration: {
+    provider: "openai",
+    model: "gpt-3.5-turbo",
+    temperature: 0.7,
+    timeoutMs: 30000,
+    maxRetries: 2,
+  },
+  queryKeywordExtraction: {
+    provider: "openai",
+    model: "gpt-3.5-turbo",
+    temperature: 0.2,
+    timeoutMs: 30000,
+    maxRetries: 2,
+  },
+  eventSelection: {
+    provider: "openai",
+    model: "gpt-3.5-turbo",
+    temperature: 0.3,
+    timeoutMs: 60000,
+    maxRetries: 2,
+  },
+  hydeQuery: {
+    provider: "openai",
+    model: "gpt-3.5-turbo",
+    temperature: 0.7,
+    timeoutMs: 30000,
+    maxRetries: 2,
+  },
+  ragAnswer: {
+    provider: "openai",
+    model: "gpt-3.5-turbo",
+    temperature: 0.3,
+    timeoutMs: 60000,
+    maxRetries: 2,
+  },
+  keyDataExtraction: {
+    provider: "gemini",
+    model: "gemini-2.0-flash-exp",
+    temperature: 0.3,
+    timeoutMs: 30000,
+    maxRetries: 1,
+  },
+};
+
+// モデルごとの料金（USD / 100万トークン）。一覧にないモデルのコストは 0 として集計する
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "ft:gpt-3.5-turbo": { input: 3, output: 6 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+};
+
+// コード内で上書きした設定（テスト・スクリプト用）
+const configOverrides: Partial<Record<LlmTask, Partial<LlmTaskConfig>>> = {};
+
+/**
+ * 環境変数 LLM_TASK_CONFIG を読み込む
+ * @returns タスクごとの設定の上書き
+ * @throws JSON として不正、または不明なタスク・値が含まれる場合
+ */
+const parseEnvTaskConfig = (): Partial<
+  Record<LlmTask, Partial<LlmTaskConfig>>
+> => {
+  const raw = process.env.LLM_TASK_CONFIG;
+  if (!raw) return {};
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    throw new Error("LLM_TASK_CONFIG は JSON で指定してください");
+  }
+  const result = llmTaskConfigOverridesSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error(`LLM_TASK_CONFIG が不正です（${result.error.message}）`);
+  }
+  return result.data;
+};
+
+/**
+ * タスクの設定を取得する
+ * デフォルト → LLM_TASK_CONFIG → setLlmTaskConfig → LLM_PROVIDER の順に上書きする
+ * @param task タスク
+ * @returns 設定
+ */
+export const getLlmTaskConfig = (task: LlmTask): LlmTaskConfig => {
+  const provider = process.env.LLM_PROVIDER;
+  if (provider && !LLM_PROVIDER_NAMES.includes(provider as LlmProviderName)) {
+    throw new Error(
+      `LLM_PROVIDER は ${LLM_PROVIDER_NAMES.join(
+        ", "
+      )} のいずれかを指定してください（指定値: ${provider}）`
+    );
+  }
+
+  return {
+    ...DEFAULT_LLM_TASK_CONFIG[task],
+    ...parseEnvTaskConfig()[task],
+    ...configOverrides[task],
+    ...(provider ? { provider: provider as LlmProviderName } : {}),
+  };
+};
+
+/**
+ * タスクの設定を上書きする（スクリプトやテストで使用）
+ * @param task タスク
+ * @param config 上書きする項目（null の場合は上書きを解除する）
+ */
+export const setLlmTaskConfig = (
+  task: LlmTask,
+  config: Partial<LlmTaskConfig> | null
+) => {
+  if (config) {
+    configOverrides[task] = { ...configOverrides[task], ...config };
+  } else {
+    delete configOverrides[task];
+  }
+};
+
+// ====================== 使用量の集計 ======================
+
+export interface LlmUsage {
+  task: LlmTask;
+  provider: LlmProviderName;
+  model: string;
+  calls: number;
+  failures: number;
+  promptTokens: number;
+  completionTokens: number;
+  estimatedCostUsd: number;
+}
+
+// キー: "task|provider|model"
+const usageMap = new Map<string, LlmUsage>();
+
+/**
+ * モデルの料金を取得する（ファインチューニング済みモデルはベースモデルの料金を使う）
+ * @param model モデル名
+ * @returns 料金（一覧にない場合は undefined）
+ */
+const findModelPricing = (model: string) => {
+  if (MODEL_PRICING[model]) return MODEL_PRICING[model];
+  if (model.startsWith("ft:")) {
+    return MODEL_PRICING[`ft:${model.split(":")[1]}`];
+  }
+  const base = Object.keys(MODEL_PRICING)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return base ? MODEL_PRICING[base] : undefined;
+};
+
+/**
+ * 使用量を加算する
+ * @param task タスク
+ * @param config タスクの設定
+ * @param usage 今回の呼び出しの使用量
+ */
+const addUsage = (
+  task: LlmTask,
+  config: LlmTaskConfig,
+  usage: { promptTokens?: number; completionTokens?: number; failed?: boolean }
+) => {
+  const key = `${task}|${config.provider}|${config.model}`;
+  const current = usageMap.get(key) || {
+    task,
+    provider: config.provider,
+    model: config.model,
+    calls: 0,
+    failures: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    estimatedCostUsd: 0,
+  };
+
+  const promptTokens = usage.promptTokens || 0;
+  const completionTokens = usage.completionTokens || 0;
+  const pricing =
+    config.provider === "replay" ? undefined : findModelPricing(config.model);
+
+  current.calls++;
+  if (usage.failed) current.failures++;
+  current.promptTokens += promptTokens;
+  current.completionTokens += completionTokens;
+  if (pricing) {
+    current.estimatedCostUsd +=
+      (promptTokens * pricing.input + completionTokens * pricing.output) /
+      1_000_000;
+  }
+  usageMap.set(key, current);
+};
+
+/**
+ * タスク・モデルごとの使用量を取得する
+ * @returns 使用量（概算コストの多い順）
+ */
+export const getLlmUsage = (): LlmUsage[] =>
+  Array.from(usageMap.values())
+    .map((usage) => ({ ...usage }))
+    .sort((a, b) => b.estimatedCostUsd - a.estimatedCostUsd);
+
+/**
+ * 使用量の集計をリセットする
+ */
+export const resetLlmUsage = () => {
+  usageMap.clear();
+};
+
+// ====================== 応答の記録と再生 ======================
+
+export interface LlmRecording {
+  promptHash?: string; // 省略した場合は同じタスクの呼び出し順に再生する
+  response: string;
+}
+
+// タスクごとの記録（LLM_REPLAY_FILE / LLM_RECORD_FILE の形式）
+export type LlmRecordings = Partial<Record<LlmTask, LlmRecording[]>>;
+
+let replayRecordings: LlmRecordings | null = null;
+// タスクごとに次に再生する記録の位置（promptHash が一致しない場合に使う）
+const replayCursors = new Map<LlmTask, number>();
+
+/**
+ * プロンプトのハッシュを計算する
+ * @param messages プロンプトのメッセージ
+ * @returns ハッシュ（16進数）
+ */
+export const hashLlmPrompt = (messages: BaseMessage[]) =>
+  crypto.createHash("sha256").update(getBufferString(messages)).digest("hex");
+
+/**
+ * 記録ファイルを読み込む
+ * @param path ファイルパス
+ * @returns 記録（ファイルがない場合は空）
+ */
+const readRecordingsFile = (path: string): LlmRecordings =>
+  fs.existsSync(path) ? JSON.parse(fs.readFileSync(path, "utf-8")) : {};
+
+/**
+ * replay プロバイダーで再生する応答を設定する（テストで使用）
+ * @param recordings 記録（null の場合は LLM_REPLAY_FILE から読み込み直す）
+ */
+export const setLlmRecordings = (recordings: LlmRecordings | null) => {
+  replayRecordings = recordings;
+  replayCursors.clear();
+};
+
+/**
+ * 記録から応答を探す
+ * 同じプロンプトの記録があればそれを、なければ同じタスクの記録を順番に返す
+ * @param task タスク
+ * @param promptHash プロンプトのハッシュ
+ * @returns 応答
+ * @throws 再生できる記録がない場合
+ */
+const findRecordedResponse = (task: LlmTask, promptHash: string) => {
+  if (!replayRecordings) {
+    const path = process.env.LLM_REPLAY_FILE;
+    replayRecordings = path ? readRecordingsFile(path) : {};
+  }
+  const records = replayRecordings[task] || [];
+
+  const exact = records.find((record) => record.promptHash === promptHash);
+  if (exact) return exact.response;
+
+  const cursor = replayCursors.get(task) || 0;
+  const unkeyed = records.filter((record) => !record.promptHash);
+  if (cursor < unkeyed.length) {
+    replayCursors.set(task, cursor + 1);
+    return unkeyed[cursor].response;
+  }
+
+  throw new Error(
+    `LLMの応答の記録がありません（task: ${task}, promptHash: ${promptHash}）`
+  );
+};
+
+/**
+ * 応答を記録ファイルに追記する
+ * @param path ファイルパス
+ * @param task タスク
+ * @param recording 記録
+ */
+const appendRecording = (
+  path: string,
+  task: LlmTask,
+  recording: LlmRecording
+) => {
+  const recordings = readRecordingsFile(path);
+  const records = (recordings[task] || []).filter(
+    (record) => record.promptHash !== recording.promptHash
+  );
+  recordings[task] = [...records, recording];
+  fs.writeFileSync(path, JSON.stringify(recordings, null, 2));
+};
+
+// ====================== チャットモデル ======================
+
+/**
+ * メッセージの内容の要素がテキストかどうかを判定する
+ * @param part メッセージの内容の要素
+ * @returns テキストの場合は true
+ */
+const isTextContentPart = (
+  part: MessageContentComplex
+): part is MessageContentText =>
+  part.type === "text" && typeof part.text === "string";
+
+/**
+ * メッセージの内容を文字列にする
+ * @param content メッセージの内容
+ * @returns 文字列
+ */
+export const messageContentToText = (content: MessageContent): string =>
+  typeof content === "string"
+    ? content
+    : content
+        .map((part) => (isTextContentPart(part) ? part.text : ""))
+        .join("");
+
+/**
+ * 使用量の集計と応答の記録を行うコールバック
+ * @param task タスク
+ * @param config タスクの設定
+ * @returns コールバック
+ */
+const createLlmCallbacks = (
+  task: LlmTask,
+  config: LlmTaskConfig
+): CallbackHandlerMethods => {
+  const recordFile = process.env.LLM_RECORD_FILE;
+  const promptHashes = new Map<string, string>();
+
+  return {
+    handleChatModelStart: (_llm, messages, runId) => {
+      promptHashes.set(runId, hashLlmPrompt(messages[0] || []));
+    },
+    handleLLMEnd: (output: LLMResult, runId) => {
+      const tokenUsage = output.llmOutput?.tokenUsage || {};
+      addUsage(task, config, {
+        promptTokens: tokenUsage.promptTokens,
+        completionTokens: tokenUsage.completionTokens,
+      });
+
+      const promptHash = promptHashes.get(runId);
+      promptHashes.delete(runId);
+      if (recordFile && promptHash && config.provider !== "replay") {
+        appendRecording(recordFile, task, {
+          promptHash,
+          response: output.generations[0]?.[0]?.text || "",
+        });
+      }
+    },
+    handleLLMError: (_error, runId) => {
+      promptHashes.delete(runId);
+      addUsage(task, config, { failed: true });
+    },
+  };
+};
+
+/**
+ * Gemini のチャットモデル（LangChain のチェーンで使えるようにする）
+ */
+class GeminiChatModel extends BaseChatModel {
+  private model: string;
+  private temperature: number;
+  private timeoutMs: number;
+
+  constructor(
+    fields: BaseChatModelParams & {
+      model: string;
+      temperature: number;
+      timeoutMs: number;
+    }
+  ) {
+    super(fields);
+    this.model = fields.model;
+    this.temperature = fields.temperature;
+    this.timeoutMs = fields.timeoutMs;
+  }
+
+  _llmType() {
+    return "gemini";
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"]
+  ): Promise<ChatResult> {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new Error("GEMINI_API_KEY環境変数が設定されていません");
+    }
+
+    // システムメッセージはシステム指示として渡す
+    const systemInstruction = messages
+      .filter((message) => message._getType() === "system")
+      .map((message) => messageContentToText(message.content))
+      .join("\n");
+    const model = new GoogleGenerativeAI(apiKey).getGenerativeModel(
+      {
+        model: this.model,
+        generationConfig: { temperature: this.temperature },
+        ...(systemInstruction ? { systemInstruction } : {}),
+      },
+      { timeout: this.timeoutMs }
+    );
+
+    const result = await this.caller.callWithOptions(
+      { signal: options.signal },
+      () =>
+        model.generateContent({
+          contents: messages
+            .filter((message) => message._getType() !== "system")
+            .map((message) => ({
+              role: message._getType() === "ai" ? "model" : "user",
+              parts: [{ text: messageContentToText(message.content) }],
+            })),
+        })
+    );
+    const text = result.response.text();
+
+    return {
+      generations: [{ text, message: new AIMessage(text) }],
+      llmOutput: {
+        tokenUsage: {
+          promptTokens: result.response.usageMetadata?.promptTokenCount,
+          completionTokens: result.response.usageMetadata?.candidatesTokenCount,
+        },
+      },
+    };
+  }
+}
+
+/**
+ * 記録した応答を再生するチャットモデル（API を呼ばずにパイプライン全体を動かす）
+ */
+class ReplayChatModel extends BaseChatModel {
+  private task: LlmTask;
+
+  constructor(fields: BaseChatModelParams & { task: LlmTask }) {
+    super(fields);
+    this.task = fields.task;
+  }
+
+  _llmType() {
+    return "replay";
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    const text = findRecordedResponse(this.task, hashLlmPrompt(messages));
+    return {
+      generations: [{ text, message: new AIMessage(text) }],
+      llmOutput: { tokenUsage: { promptTokens: 0, completionTokens: 0 } },
+    };
+  }
+}
+
+/**
+ * タスクの設定に応じたチャットモデルを取得する
+ * 呼び出しごとに使用量が集計される
+ * @param task タスク
+ * @returns チャットモデル
+ */
+export const getChatModel = (task: LlmTask): BaseChatModel => {
+  const config = getLlmTaskConfig(task);
+  const callbacks = [createLlmCallbacks(task, config)];
+
+  switch (config.provider) {
+    case "openai":
+      return new ChatOpenAI({
+        modelName: config.model,
+        temperature: config.temperature,
+        timeout: config.timeoutMs,
+        maxRetries: config.maxRetries,
+        callbacks,
+      });
+    case "gemini":
+      return new GeminiChatModel({
+        model: config.model,
+        temperature: config.temperature,
+        timeoutMs: config.timeoutMs,
+        maxRetries: config.maxRetries,
+        callbacks,
+      });
+    case "replay":
+      return new ReplayChatModel({ task, maxRetries: 0, callbacks });
+  }
+};
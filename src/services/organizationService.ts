@@ -0,0 +1,149 @@
+import { UserRole } from "@prisma/client";
+import prisma from "../config/prisma";
+
+// 認証済みユーザー（req.user）の型
+type AuthUser = NonNullable<Express.Request["user"]>;
+
+/**
+ * ユーザーが主催団体を管理できるかどうかを判定する
+ * 管理者はすべての団体を、ORGANIZER は所属する団体のみ管理できる
+ * @param user ログイン中のユーザー
+ * @param organizationId 主催団体ID
+ * @returns 管理できる場合は true
+ */
+export const canManageOrganization = async (
+  user: AuthUser | undefined,
+  organizationId: string | null | undefined
+) => {
+  if (!user) return false;
+  if (user.role === UserRole.ADMIN) return true;
+  if (user.role !== UserRole.ORGANIZER || !organizationId) return false;
+
+  const membership = await prisma.organizationMember.findUnique({
+    where: {
+      organizationId_userId: {
+        organizationId,
+        userId: user.id,
+      },
+    },
+  });
+
+  return Boolean(membership);
+};
+
+/**
+ * ユーザーがスピーカーを編集できるかどうかを判定する
+ * 管理者はすべてのスピーカーを、ORGANIZER は所属する団体のイベントにのみ登壇するスピーカーを編集できる
+ * （他の団体のイベントにも登壇するスピーカーやイベントに紐づいていないスピーカーは管理者のみ）
+ * @param user ログイン中のユーザー
+ * @param speakerId スピーカーID
+ * @returns 編集できる場合は true
+ */
+export const canManageSpeaker = async (
+  user: AuthUser | undefined,
+  speakerId: string
+) => {
+  if (!user) return false;
+  if (user.role === UserRole.ADMIN) return true;
+  if (user.role !== UserRole.ORGANIZER) return false;
+
+  const eventSpeakers = await prisma.eventSpeaker.findMany({
+    where: { speakerId },
+    select: { Event: { select: { organizationId: true } } },
+  });
+  if (eventSpeakers.length === 0) return false;
+
+  const memberships = await prisma.organizationMember.findMany({
+    where: { userId: user.id },
+    select: { organizationId: true },
+  });
+  const organizationIds = new Set(
+    memberships.map((membership) => membership.organizationId)
+  );
+
+  return eventSpeakers.every(
+    ({ Event }) =>
+      Event.organizationId !== null && organizationIds.has(Event.organizationId)
+  );
+};
+
+/**
+ * 主催団体にメンバーを追加する
+ * 一般ユーザーを追加した場合は ORGANIZER ロールに変更する
+ * @param organizationId 主催団体ID
+ * @param userId ユーザーID
+ * @returns 追加したメンバー
+ */
+export const addOrganizationMember = async (
+  organizationId: string,
+  userId: string
+) => {
+  return prisma.$transaction(async (tx) => {
+    const member = await tx.organizationMember.upsert({
+      where: { organizationId_userId: { organizationId, userId } },
+      update: {},
+      create: { organizationId, userId },
+    });
+
+    await tx.user.updateMany({
+      where: { id: userId, role: UserRole.USER },
+      data: { role: UserRole.ORGANIZER },
+    });
+
+    return member;
+  });
+};
+
+/**
+ * 主催団体からメンバーを削除する
+ * どの団体にも所属しなくなった ORGANIZER は一般ユーザーに戻す
+ * @param organizationId 主催団体ID
+ * @param userId ユーザーID
+ * @returns 削除した場合は true
+ */
+export const removeOrganizationMember = async (
+  organizationId: string,
+  userId: string
+) => {
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.organizationMember.deleteMany({
+      where: { organizationId, userId },
+    });
+
+    const remaining = await tx.organizationMember.count({
+      where: { userId },
+    });
+    if (remaining === 0) {
+      await tx.user.updateMany({
+        where: { id: userId, role: UserRole.ORGANIZER },
+        data: { role: UserRole.USER },
+      });
+    }
+
+    return count > 0;
+  });
+};
+
+// 取り込み元の主催者情報
+export interface ExternalOrganizer {
+  source: string; // 取り込み元（例: "connpass"）
+  externalId: string; // 取り込み元での主催者ID
+  name: string;
+  website?: string | null;
+}
+
+/**
+ * 取り込み元の主催者に対応する主催団体を取得し、なければ作成する
+ * 取り込み元で名前やURLが変わっている場合は更新する
+ * @param organizer 取り込み元の主催者情報
+ * @returns 主催団体
+ */
+export const resolveOrganization = async (organizer: ExternalOrganizer) => {
+  const { source, externalId, name, website } = organizer;
+
+  return prisma.organization.upsert({
+    where: { source_externalId: { source, externalId } },
+    update: { name, website: website ?? undefined },
+    create: { source, externalId, name, website: website ?? null },
+  });
+};
@@ -0,0 +1,148 @@
+import { z } from "zod";
+import { RecommendationFeedback } from "@prisma/client";
+import prisma from "../config/prisma";
+import { getFilteredEvents } from "../utils/eventUtils";
+import {
+  EventFilterInput,
+  formatFilterError,
+} from "../utils/eventQueryBuilder";
+
+/**
+ * レコメンドの候補になるイベントの取得
+ * 期間の指定がない場合は今日から一定期間内に開催されるイベントに絞り込み、
+ * ユーザーがブックマーク済みのイベントと「興味なし」と回答したイベントを除く
+ */
+
+// 候補にする期間（今日から何日後まで）のデフォルトと上限
+export const DEFAULT_RECOMMENDATION_HORIZON_DAYS = 60;
+export const MAX_RECOMMENDATION_HORIZON_DAYS = 365;
+
+// 同じ主催者（またはシリーズ）のイベントを推薦結果に含める件数のデフォルト
+export const DEFAULT_MAX_EVENTS_PER_ORGANIZER = 2;
+
+export const recommendationCandidateOptionsSchema = z
+  .object({
+    horizonDays: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_RECOMMENDATION_HORIZON_DAYS)
+      .default(DEFAULT_RECOMMENDATION_HORIZON_DAYS),
+    includePast: z.boolean().default(false), // 開催済みのイベントも候補にするか
+    excludeBookmarked: z.boolean().default(true),
+    excludeDismissed: z.boolean().default(true), // 「興味なし」と回答したイベントを除くか
+    maxPerOrganizer: z.coerce
+      .number()
+      .int()
+      .min(0) // 0 の場合は制限しない
+      .default(DEFAULT_MAX_EVENTS_PER_ORGANIZER),
+  })
+  .strict();
+
+// 検証前の候補の取得条件（リクエストの指定）
+export type RecommendationCandidateOptionsInput = z.input<
+  typeof recommendationCandidateOptionsSchema
+>;
+// 検証済みの候補の取得条件
+export type RecommendationCandidateOptions = z.output<
+  typeof recommendationCandidateOptionsSchema
+>;
+
+/**
+ * 候補の取得条件を検証する
+ * @param input 取得条件（省略した項目はデフォルト値になる）
+ * @returns 検証済みの取得条件
+ * @throws 不正な値が含まれる場合
+ */
+export const parseRecommendationCandidateOptions = (
+  input: RecommendationCandidateOptionsInput = {}
+): RecommendationCandidateOptions => {
+  const result = recommendationCandidateOptionsSchema.safeParse(input);
+  if (!result.success) {
+    throw new Error(
+      `レコメンドの候補の条件が不正です（${formatFilterError(result.error)}）`
+    );
+  }
+  return result.data;
+};
+
+/**
+ * レコメンドの候補から除くイベントを取得する
+ * @param userId ユーザーID
+ * @param options 検証済みの取得条件
+ * @returns ブックマーク済み・「興味なし」と回答したイベントのID（統合されたイベントは代表のイベントIDを含む）
+ */
+const getExcludedEventIds = async (
+  userId: string,
+  options: RecommendationCandidateOptions
+) => {
+  const [bookmarks, dismissed] = await Promise.all([
+    options.excludeBookmarked
+      ? prisma.bookmark.findMany({
+          where: { userId },
+          select: { eventId: true, Event: { select: { mergedIntoId: true } } },
+        })
+      : [],
+    options.excludeDismissed
+      ? prisma.recommendationItem.findMany({
+          where: {
+            feedback: RecommendationFeedback.NOT_INTERESTED,
+            Recommendation: { userId },
+          },
+          select: { eventId: true, Event: { select: { mergedIntoId: true } } },
+        })
+      : [],
+  ]);
+
+  // 重複として統合されたイベントへの回答は代表のイベントにも適用する
+  return new Set(
+    [...bookmarks, ...dismissed].flatMap((item) =>
+      item.Event.mergedIntoId
+        ? [item.eventId, item.Event.mergedIntoId]
+        : [item.eventId]
+    )
+  );
+};
+
+/**
+ * レコメンドの候補になるイベントを取得する
+ * 検索条件に開催日の指定がない場合は、現在から horizonDays 日後までに開催されるイベントに絞り込む
+ * @param filter 検索条件（場所・形式・期間など）
+ * @param options 検証済みの取得条件
+ * @param userId ユーザーID（指定した場合はブックマーク済み・「興味なし」のイベントを除く）
+ * @returns 候補のイベント（getFilteredEvents と同じ形式）
+ * @throws 不正な条件が指定された場合
+ */
+export const getRecommendationCandidates = async (
+  filter: EventFilterInput,
+  options: RecommendationCandidateOptions,
+  userId?: string | null
+) => {
+  const now = new Date();
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+
+  // 開催日の指定がない場合は、今日すでに開始したイベントも除く
+  const fromDate = filter.fromDate ?? (options.includePast ? undefined : now);
+  let toDate = filter.toDate;
+  if (!toDate) {
+    // 開始日の指定が先の日付の場合は、その日から horizonDays 日後まで
+    toDate =
+      fromDate && new Date(fromDate) > today
+        ? new Date(fromDate)
+        : new Date(today);
+    toDate.setDate(toDate.getDate() + options.horizonDays);
+    toDate.setHours(23, 59, 59, 999);
+  }
+
+  const events = await getFilteredEvents({ ...filter, fromDate, toDate });
+  if (!userId) return events;
+
+  const excluded = await getExcludedEventIds(userId, options);
+  if (excluded.size > 0) {
+    console.log(
+      `レコメンドの候補から除外: ${excluded.size}件（ブックマーク済み・興味なし）`
+    );
+  }
+  return events.filter((event) => !excluded.has(event.id));
+};
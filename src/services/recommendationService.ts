@@ -0,0 +1,144 @@
+import {
+  Prisma,
+  RecommendationFeedback,
+  RecommendationSource,
+} from "@prisma/client";
+import prisma from "../config/prisma";
+import { KeyDataRecommendationResult } from "../utils/keyDataRecommendation";
+
+// レコメンド結果と一緒に返すイベントの項目
+const recommendationEventSelect = {
+  id: true,
+  title: true,
+  eventDate: true,
+  detailUrl: true,
+} satisfies Prisma.EventSelect;
+
+// 履歴の取得件数のデフォルトと上限
+export const DEFAULT_RECOMMENDATION_HISTORY_LIMIT = 20;
+export const MAX_RECOMMENDATION_HISTORY_LIMIT = 100;
+
+/**
+ * レコメンドの結果を保存する
+ * 候補はスコアの高い順に順位を付け、LLM の絞り込みを通過したイベントを表示済みとして記録する
+ * 保存に失敗してもレコメンドの応答は返せるよう、エラーはログに出して null を返す
+ * @param params.userId レコメンドを受けたユーザー（未ログインの場合は null）
+ * @param params.source レコメンドの呼び出し元
+ * @param params.query 興味タグまたはメッセージ
+ * @param params.result 候補と推薦結果
+ * @returns 保存したレコメンドのID（保存に失敗した場合は null）
+ */
+export const saveRecommendation = async (params: {
+  userId?: string | null;
+  source: RecommendationSource;
+  query: string;
+  result: KeyDataRecommendationResult;
+}): Promise<string | null> => {
+  const { userId, source, query, result } = params;
+
+  // 複数の設定（mode / fuse）で同じイベントが候補になった場合はスコアの高い方を残す
+  const candidates = [...result.candidates]
+    .sort((a, b) => b.score - a.score)
+    .filter(
+      (candidate, index, sorted) =>
+        sorted.findIndex((c) => c.event.id === candidate.event.id) === index
+    );
+  const shown = new Map(
+    result.recommendations.map((rec) => [rec.event.id, rec])
+  );
+
+  try {
+    const recommendation = await prisma.recommendation.create({
+      data: {
+        userId: userId || null,
+        source,
+        query,
+        RecommendationItem: {
+          create: candidates.map((candidate, index) => ({
+            eventId: candidate.event.id,
+            rank: index + 1,
+            score: candidate.score,
+            label: candidate.label,
+            reason: shown.get(candidate.event.id)?.reason || null,
+            shown: shown.has(candidate.event.id),
+          })),
+        },
+      },
+      select: { id: true },
+    });
+    return recommendation.id;
+  } catch (error) {
+    console.error("レコメンド結果の保存に失敗しました:", error);
+    return null;
+  }
+};
+
+/**
+ * レコメンドの結果を取得する
+ * @param recommendationId レコメンドID
+ * @returns 候補（順位順、イベントの概要付き）を含むレコメンド（存在しない場合は null）
+ */
+export const getRecommendation = (recommendationId: string) =>
+  prisma.recommendation.findUnique({
+    where: { id: recommendationId },
+    include: {
+      RecommendationItem: {
+        orderBy: { rank: "asc" },
+        include: { Event: { select: recommendationEventSelect } },
+      },
+    },
+  });
+
+/**
+ * ユーザーのレコメンド履歴を新しい順に取得する
+ * @param userId ユーザーID
+ * @param limit 取得件数
+ * @returns レコメンド（表示したイベントのみ含む）
+ */
+export const getUserRecommendations = (
+  userId: string,
+  limit: number = DEFAULT_RECOMMENDATION_HISTORY_LIMIT
+) =>
+  prisma.recommendation.findMany({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+    include: {
+      RecommendationItem: {
+        where: { shown: true },
+        orderBy: { rank: "asc" },
+        include: { Event: { select: recommendationEventSelect } },
+      },
+    },
+  });
+
+/**
+ * レコメンドの候補を取得する（フィードバックの記録前に、レコメンドを受けたユーザーを確認するため）
+ * @param recommendationId レコメンドID
+ * @param eventId イベントID
+ * @returns 候補とレコメンドを受けたユーザーID（見つからない場合は null）
+ */
+export const findRecommendationItem = (
+  recommendationId: string,
+  eventId: string
+) =>
+  prisma.recommendationItem.findUnique({
+    where: { recommendationId_eventId: { recommendationId, eventId } },
+    include: { Recommendation: { select: { userId: true } } },
+  });
+
+/**
+ * レコメンドしたイベントへのフィードバックを記録する
+ * 同じイベントに再度フィードバックした場合は上書きする
+ * @param itemId レコメンドの候補ID
+ * @param feedback フィードバック
+ * @returns 更新した候補
+ */
+export const setRecommendationFeedback = (
+  itemId: string,
+  feedback: RecommendationFeedback
+) =>
+  prisma.recommendationItem.update({
+    where: { id: itemId },
+    data: { feedback, feedbackAt: new Date() },
+  });
@@ -0,0 +1,161 @@
+import cron from "node-cron";
+import prisma from "../config/prisma";
+import { sendEventReminders } from "./lineService";
+import {
+  DEFAULT_REMINDER_OFFSETS_MINUTES,
+  getNextReminderAt,
+  normalizeReminderOffsets,
+  ReminderSettingsError,
+} from "../utils/reminderUtils";
+
+// リマインド確認で表示する期間のデフォルト（7日先まで）と上限（90日先まで）
+export const DEFAULT_REMINDER_PREVIEW_MINUTES = 7 * 24 * 60;
+export const MAX_REMINDER_PREVIEW_MINUTES = 90 * 24 * 60;
+
+// リマインド設定として返す項目
+const reminderPreferenceSelect = {
+  remindersEnabled: true,
+  reminderOffsetsMinutes: true,
+};
+
+/**
+ * ユーザーのリマインド設定を取得する
+ * @param userId ユーザーID
+ * @returns リマインド設定（ユーザーが見つからない場合は null）
+ */
+export const getReminderPreferences = async (userId: string) => {
+  return prisma.user.findUnique({
+    where: { id: userId },
+    select: reminderPreferenceSelect,
+  });
+};
+
+/**
+ * ユーザーのリマインド設定を更新する
+ * @param userId ユーザーID
+ * @param preferences 有効/無効とタイミング（開催の何分前か）。省略した項目は変更しない
+ * @returns 更新後のリマインド設定
+ * @throws ReminderSettingsError タイミングに不正な値が含まれる場合
+ */
+export const updateReminderPreferences = async (
+  userId: string,
+  preferences: {
+    remindersEnabled?: boolean;
+    reminderOffsetsMinutes?: unknown[];
+  }
+) => {
+  const reminderOffsetsMinutes = preferences.reminderOffsetsMinutes
+    ? normalizeReminderOffsets(preferences.reminderOffsetsMinutes)
+    : undefined;
+
+  if (reminderOffsetsMinutes && reminderOffsetsMinutes.length === 0) {
+    throw new ReminderSettingsError(
+      "リマインドのタイミングを1つ以上指定してください"
+    );
+  }
+
+  return prisma.user.update({
+    where: { id: userId },
+    data: {
+      remindersEnabled: preferences.remindersEnabled,
+      reminderOffsetsMinutes,
+    },
+    select: reminderPreferenceSelect,
+  });
+};
+
+/**
+ * ユーザーがブックマークした、指定期間内に開催されるイベントを取得する
+ * 他のユーザーには何も送信しない（「リマインド」コマンドやプロフィール画面での確認用）
+ * @param userId ユーザーID
+ * @param horizonMinutes 何分先までのイベントを対象にするか
+ * @param now 基準日時
+ * @returns リマインド設定とイベント一覧（ユーザーが見つからない場合は null）
+ */
+export const getUpcomingBookmarkedEvents = async (
+  userId: string,
+  horizonMinutes: number = DEFAULT_REMINDER_PREVIEW_MINUTES,
+  now: Date = new Date()
+) => {
+  const preferences = await getReminderPreferences(userId);
+  if (!preferences) return null;
+
+  const until = new Date(
+    now.getTime() +
+      Math.min(horizonMinutes, MAX_REMINDER_PREVIEW_MINUTES) * 60 * 1000
+  );
+
+  const bookmarks = await prisma.bookmark.findMany({
+    where: {
+      userId,
+      Event: {
+        eventDate: {
+          gt: now,
+          lte: until,
+        },
+      },
+    },
+    include: {
+      Event: true,
+    },
+    orderBy: {
+      Event: {
+        eventDate: "asc",
+      },
+    },
+  });
+
+  const offsets =
+    preferences.reminderOffsetsMinutes.length > 0
+      ? preferences.reminderOffsetsMinutes
+      : DEFAULT_REMINDER_OFFSETS_MINUTES;
+
+  return {
+    ...preferences,
+    until,
+    events: bookmarks.map((bookmark) => ({
+      event: bookmark.Event,
+      // リマインドを停止している場合は次回のリマインドなし
+      nextReminderAt: preferences.remindersEnabled
+        ? getNextReminderAt(bookmark.Event.eventDate, offsets, now)
+        : null,
+    })),
+  };
+};
+
+/**
+ * リマインド送信のスケジューラーを開始する
+ * 前回の送信処理が終わっていない場合はその回をスキップする
+ * @param cronExpression 実行タイミング（cron式）
+ * @param timezone cron式を解釈するタイムゾーン
+ * @returns スケジューラーを停止する関数
+ */
+export const startReminderScheduler = (
+  cronExpression: string,
+  timezone: string = "Asia/Tokyo"
+) => {
+  if (!cron.validate(cronExpression)) {
+    throw new Error(`リマインドのcron式が不正です: ${cronExpression}`);
+  }
+
+  const task = cron.schedule(
+    cronExpression,
+    async () => {
+      try {
+        const result = await sendEventReminders();
+        if (result.results.length > 0) {
+          console.log(result.message);
+        }
+      } catch (error) {
+        console.error("リマインドの定期送信に失敗しました:", error);
+      }
+    },
+    { name: "event-reminders", noOverlap: true, timezone }
+  );
+
+  console.log(`リマインドのスケジューラーを開始しました（${cronExpression}）`);
+
+  return () => {
+    task.stop();
+  };
+};
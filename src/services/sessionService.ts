@@ -0,0 +1,56 @@
+import crypto from "crypto";
+import prisma from "../config/prisma";
+
+// セッションの有効期間（30日）
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * ユーザーのセッションを作成する
+ * 発行したセッショントークンを Authorization: Bearer ヘッダーで送ることでAPIを利用できる
+ * @param userId ユーザーID
+ * @returns 作成したセッション
+ */
+export const createSession = async (userId: string) => {
+  return prisma.session.create({
+    data: {
+      id: crypto.randomUUID(),
+      userId,
+      sessionToken: crypto.randomBytes(32).toString("hex"),
+      expires: new Date(Date.now() + SESSION_TTL_MS),
+    },
+  });
+};
+
+/**
+ * セッショントークンからユーザーを取得する
+ * 期限切れのセッションは削除する
+ * @param sessionToken セッショントークン
+ * @returns ユーザー（トークンが無効な場合は null）
+ */
+export const getUserBySessionToken = async (sessionToken: string) => {
+  const session = await prisma.session.findUnique({
+    where: { sessionToken },
+    include: {
+      User: {
+        select: { id: true, role: true, lineId: true },
+      },
+    },
+  });
+
+  if (!session) return null;
+
+  if (session.expires.getTime() <= Date.now()) {
+    await prisma.session.deleteMany({ where: { id: session.id } });
+    return null;
+  }
+
+  return session.User;
+};
+
+/**
+ * セッションを削除する（ログアウト）
+ * @param sessionToken セッショントークン
+ */
+export const deleteSession = async (sessionToken: string) => {
+  await prisma.session.deleteMany({ where: { sessionToken } });
+};
@@ -0,0 +1,45 @@
+import prisma from "../config/prisma";
+
+/**
+ * 差分同期の位置を取得する
+ * @param source 取り込み元（例: "connpass"）
+ * @param scope 取り込み元の中の区分（例: 都道府県）
+ * @returns 同期の位置（初回の同期の場合は null）
+ */
+export const getSyncCursor = (source: string, scope: string = "") =>
+  prisma.syncCursor.findUnique({
+    where: { source_scope: { source, scope } },
+  });
+
+/**
+ * 差分同期の位置を更新する
+ * 最終更新日時は前回の値より新しい場合のみ進める
+ * @param source 取り込み元
+ * @param scope 取り込み元の中の区分
+ * @param data.lastUpdatedAt 今回取り込んだイベントの最終更新日時の最大値
+ * @param data.coveredUntil 今回取り込んだ開催日の終わり
+ * @returns 更新した同期の位置
+ */
+export const updateSyncCursor = async (
+  source: string,
+  scope: string,
+  data: { lastUpdatedAt?: Date | null; coveredUntil?: Date | null }
+) => {
+  const current = await getSyncCursor(source, scope);
+  const lastUpdatedAt =
+    data.lastUpdatedAt &&
+    (!current?.lastUpdatedAt || data.lastUpdatedAt > current.lastUpdatedAt)
+      ? data.lastUpdatedAt
+      : current?.lastUpdatedAt ?? null;
+  const values = {
+    lastUpdatedAt,
+    coveredUntil: data.coveredUntil ?? current?.coveredUntil ?? null,
+    lastSyncedAt: new Date(),
+  };
+
+  return prisma.syncCursor.upsert({
+    where: { source_scope: { source, scope } },
+    create: { source, scope, ...values },
+    update: values,
+  });
+};
@@ -0,0 +1,288 @@
+import { z } from "zod";
+import { Prisma, SyncRun, SyncRunStatus } from "@prisma/client";
+import prisma from "../config/prisma";
+import { formatFilterError } from "../utils/eventQueryBuilder";
+import {
+  fetchAndSaveAllPrefectureEvents,
+  fetchAndSaveLatestEvents,
+} from "./connpassService";
+import { runEventSourceAdapter } from "./eventIngestionService";
+import { deduplicateEvents } from "./eventDedupService";
+import { techPlayAdapter } from "./eventSources/techPlayAdapter";
+import { supporterzAdapter } from "./eventSources/supporterzAdapter";
+import {
+  SyncErrorReporter,
+  SyncEventError,
+  SyncSummary,
+} from "../types/syncTypes";
+
+// 取り込み元
+export const SYNC_SOURCES = ["connpass", "techplay", "supporterz"] as const;
+export type SyncSource = (typeof SYNC_SOURCES)[number];
+
+// 実行中の同期の生存確認（heartbeatAt の更新）の間隔
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+// 生存確認が途絶えた同期を停止したとみなすまでの時間
+const STALE_RUN_MS = 5 * 60 * 1000;
+// 1回の同期で記録するイベントごとのエラーの上限
+const MAX_RECORDED_ERRORS = 200;
+
+// Connpass の同期で取得する期間（日数）のデフォルトと上限
+const DEFAULT_CONNPASS_SYNC_DAYS = 30;
+const MAX_CONNPASS_SYNC_DAYS = 90;
+
+// 取り込み元ごとの同期の条件
+const syncRunParamsSchemas = {
+  connpass: z
+    .object({
+      // latest: 新着100件、prefectures: 都道府県ごとに期間内のイベント（差分同期）
+      mode: z.enum(["latest", "prefectures"]).default("latest"),
+      days: z.coerce
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_CONNPASS_SYNC_DAYS)
+        .default(DEFAULT_CONNPASS_SYNC_DAYS),
+    })
+    .strict(),
+  techplay: z.object({}).strict(),
+  supporterz: z.object({}).strict(),
+};
+
+// 検証済みの同期の条件
+export type SyncRunParams<S extends SyncSource> = z.output<
+  (typeof syncRunParamsSchemas)[S]
+>;
+
+// 取り込み元ごとの同期処理
+const SYNC_TASKS: {
+  [S in SyncSource]: (
+    params: SyncRunParams<S>,
+    reportError: SyncErrorReporter
+  ) => Promise<SyncSummary>;
+} = {
+  connpass: async (params, reportError) => {
+    const apiKey = process.env.CONNPASS_API_KEY;
+    if (!apiKey) throw new Error("CONNPASS_API_KEY is required");
+
+    return params.mode === "prefectures"
+      ? fetchAndSaveAllPrefectureEvents(apiKey, params.days, reportError)
+      : fetchAndSaveLatestEvents(apiKey, reportError);
+  },
+  techplay: (_params, reportError) =>
+    runEventSourceAdapter(techPlayAdapter, undefined, reportError),
+  supporterz: (_params, reportError) =>
+    runEventSourceAdapter(supporterzAdapter, undefined, reportError),
+};
+
+/**
+ * 取り込み元かどうかを判定する
+ * @param source 取り込み元
+ * @returns 取り込み元の場合は true
+ */
+export const isSyncSource = (source: string): source is SyncSource =>
+  (SYNC_SOURCES as readonly string[]).includes(source);
+
+/**
+ * 同期の条件を検証する
+ * @param source 取り込み元
+ * @param input 同期の条件（省略した項目はデフォルト値になる）
+ * @returns 検証済みの同期の条件
+ * @throws 不正な値が含まれる場合
+ */
+export const parseSyncRunParams = <S extends SyncSource>(
+  source: S,
+  input: unknown = {}
+): SyncRunParams<S> => {
+  const result = syncRunParamsSchemas[source].safeParse(input ?? {});
+  if (!result.success) {
+    throw new Error(
+      `同期の条件が不正です（${formatFilterError(result.error)}）`
+    );
+  }
+  return result.data as SyncRunParams<S>;
+};
+
+/**
+ * エラーをメッセージに変換する
+ * @param error エラー
+ * @returns メッセージ
+ */
+const toErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * 生存確認が途絶えた実行中の同期を失敗として終了する
+ * 異常終了などで RUNNING のまま残った同期が、次の同期の開始を妨げないようにする
+ * @param source 取り込み元
+ */
+const expireStaleSyncRuns = async (source: SyncSource) => {
+  const now = new Date();
+  const { count } = await prisma.syncRun.updateMany({
+    where: {
+      source,
+      status: SyncRunStatus.RUNNING,
+      heartbeatAt: { lt: new Date(now.getTime() - STALE_RUN_MS) },
+    },
+    data: {
+      status: SyncRunStatus.FAILED,
+      lastError: "同期が途中で停止しました",
+      finishedAt: now,
+    },
+  });
+  if (count > 0) {
+    console.warn(`停止した${source}の同期を${count}件終了しました`);
+  }
+};
+
+/**
+ * 同期を実行し、結果を保存する
+ * @param run 実行する同期
+ * @param params 検証済みの同期の条件
+ */
+const executeSyncRun = async <S extends SyncSource>(
+  run: SyncRun,
+  params: SyncRunParams<S>
+) => {
+  const source = run.source as S;
+  const errors: SyncEventError[] = [];
+  const reportError: SyncErrorReporter = (event, error) => {
+    if (errors.length < MAX_RECORDED_ERRORS) {
+      errors.push({ event, message: toErrorMessage(error) });
+    }
+  };
+
+  const heartbeat = setInterval(() => {
+    prisma.syncRun
+      .update({ where: { id: run.id }, data: { heartbeatAt: new Date() } })
+      .catch((error) =>
+        console.error(`同期 ${run.id} の生存確認の更新に失敗しました:`, error)
+      );
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    const summary = await (
+      SYNC_TASKS[source] as (
+        params: SyncRunParams<S>,
+        reportError: SyncErrorReporter
+      ) => Promise<SyncSummary>
+    )(params, reportError);
+
+    // 取り込んだイベントと他の取り込み元のイベントの重複を統合する（失敗しても同期は成功とする）
+    let merged = 0;
+    try {
+      merged = (await deduplicateEvents()).merged;
+    } catch (error) {
+      console.error(`${source}の同期後の重複の統合に失敗しました:`, error);
+      reportError("dedup", error);
+    }
+
+    await prisma.syncRun.update({
+      where: { id: run.id },
+      data: {
+        status: SyncRunStatus.SUCCEEDED,
+        fetched: summary.fetched,
+        created: summary.created,
+        updated: summary.updated,
+        unchanged: summary.unchanged,
+        failed: summary.failed,
+        merged,
+        errors: errors as unknown as Prisma.JsonArray,
+        finishedAt: new Date(),
+      },
+    });
+    console.log(
+      `${source}の同期が完了しました（${run.id}）: 取得${summary.fetched}件 登録${summary.created}件 更新${summary.updated}件 変更なし${summary.unchanged}件 失敗${summary.failed}件 重複の統合${merged}件`
+    );
+  } catch (error) {
+    console.error(`${source}の同期に失敗しました（${run.id}）:`, error);
+    await prisma.syncRun.update({
+      where: { id: run.id },
+      data: {
+        status: SyncRunStatus.FAILED,
+        lastError: toErrorMessage(error),
+        errors: errors as unknown as Prisma.JsonArray,
+        finishedAt: new Date(),
+      },
+    });
+  } finally {
+    clearInterval(heartbeat);
+  }
+};
+
+/**
+ * 同期を開始する
+ * 同期はバックグラウンドで実行し、進捗と結果は SyncRun に記録する
+ * @param source 取り込み元
+ * @param input 同期の条件
+ * @returns 開始した同期（同じ取り込み元の同期が実行中の場合は null）
+ * @throws 不正な条件が指定された場合
+ */
+export const startSyncRun = async (
+  source: SyncSource,
+  input: unknown = {}
+): Promise<SyncRun | null> => {
+  const params = parseSyncRunParams(source, input);
+  await expireStaleSyncRuns(source);
+
+  let run: SyncRun;
+  try {
+    run = await prisma.syncRun.create({
+      data: { source, params: params as Prisma.InputJsonObject },
+    });
+  } catch (error) {
+    // 実行中の同期がある（部分ユニークインデックス SyncRun_source_running_key の違反）
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return null;
+    }
+    throw error;
+  }
+
+  executeSyncRun(run, params).catch((error) =>
+    console.error(`同期 ${run.id} の結果の保存に失敗しました:`, error)
+  );
+  return run;
+};
+
+/**
+ * 実行中の同期を取得する
+ * @param source 取り込み元
+ * @returns 実行中の同期（なければ null）
+ */
+export const getRunningSyncRun = async (source: SyncSource) => {
+  return prisma.syncRun.findFirst({
+    where: { source, status: SyncRunStatus.RUNNING },
+  });
+};
+
+/**
+ * 同期の実行履歴を取得する
+ * @param options 取り込み元やステータスによる絞り込み条件
+ * @returns 同期の配列（新しい順）
+ */
+export const listSyncRuns = async (options: {
+  source?: SyncSource;
+  status?: SyncRunStatus;
+  limit?: number;
+}) => {
+  return prisma.syncRun.findMany({
+    where: {
+      source: options.source,
+      status: options.status,
+    },
+    orderBy: { startedAt: "desc" },
+    take: options.limit ?? 50,
+  });
+};
+
+/**
+ * IDを指定して同期を取得する
+ * @param runId 同期のID
+ * @returns 同期（見つからない場合は null）
+ */
+export const getSyncRunById = async (runId: string) => {
+  return prisma.syncRun.findUnique({ where: { id: runId } });
+};
@@ -0,0 +1,310 @@
+import { Prisma, WebhookJob, WebhookJobStatus } from "@prisma/client";
+import prisma from "../config/prisma";
+import { markWebhookEventReceived } from "./lineWebhookService";
+import { runWithLineDeliveryLog } from "./lineService";
+import { LineDelivery } from "../types/lineTypes";
+
+// Webhookイベントを処理する関数（webhookController から渡される）
+export type WebhookEventProcessor = (event: any) => Promise<void>;
+
+// リトライ間隔（指数バックオフ）の設定
+const RETRY_BASE_DELAY_MS = 10 * 1000; // 初回リトライまで10秒
+const RETRY_MAX_DELAY_MS = 10 * 60 * 1000; // 最大10分
+
+// 処理中のジョブの生存確認（lockedAt の更新）の間隔
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+// 生存確認が途絶えたジョブを停止したとみなすまでの時間
+const STALE_LOCK_MS = 5 * 60 * 1000;
+
+// 送信結果をJSONカラムに保存できる形に変換する
+const toJson = (deliveries: LineDelivery[]) =>
+  deliveries as unknown as Prisma.JsonArray;
+
+/**
+ * 試行回数に応じた次回実行までの待機時間を返す
+ * @param attempts これまでの試行回数
+ * @returns 待機時間（ミリ秒）
+ */
+export const getRetryDelayMs = (attempts: number) => {
+  const delay = RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1);
+  return Math.min(delay, RETRY_MAX_DELAY_MS);
+};
+
+/**
+ * LINE Webhook イベントをジョブとして登録する
+ * 再送されたイベントは登録しない
+ * @param events LINE Webhook イベントの配列
+ * @returns 登録したジョブの配列
+ */
+export const enqueueWebhookEvents = async (events: any[]) => {
+  const jobs: WebhookJob[] = [];
+
+  for (const event of events) {
+    const lineUserId = event.source?.userId;
+    if (!lineUserId) continue; // ユーザーIDがない場合は処理をスキップ
+
+    // 重複判定とジョブ登録を同一トランザクションで行い、片方だけ残らないようにする
+    const job = await prisma.$transaction(async (tx) => {
+      const isFirstDelivery = await markWebhookEventReceived(event, tx);
+      if (!isFirstDelivery) return null;
+
+      return tx.webhookJob.create({
+        data: {
+          webhookEventId: event.webhookEventId ?? null,
+          lineUserId,
+          eventType: event.type,
+          payload: event,
+        },
+      });
+    });
+
+    if (job) jobs.push(job);
+  }
+
+  return jobs;
+};
+
+/**
+ * 実行可能なジョブを1件取得してロックする
+ * 複数のワーカーが同時に動いても同じジョブを二重に処理しないよう、
+ * ステータスが PENDING のままの場合のみ PROCESSING に更新する
+ * @returns ロックしたジョブ（なければ null）
+ */
+const claimNextJob = async () => {
+  const now = new Date();
+
+  // 異常終了などで処理中のまま残ったジョブのうち、最大試行回数に達したものは DEAD にし、
+  // それ以外は再実行対象に戻す（処理中のジョブは生存確認で lockedAt を更新し続ける）
+  const staleLock = {
+    status: WebhookJobStatus.PROCESSING,
+    lockedAt: { lt: new Date(now.getTime() - STALE_LOCK_MS) },
+  };
+  await prisma.webhookJob.updateMany({
+    where: {
+      ...staleLock,
+      attempts: { gte: prisma.webhookJob.fields.maxAttempts },
+    },
+    data: {
+      status: WebhookJobStatus.DEAD,
+      lockedAt: null,
+      lastError: "処理が途中で停止しました",
+      completedAt: now,
+    },
+  });
+  await prisma.webhookJob.updateMany({
+    where: staleLock,
+    data: { status: WebhookJobStatus.PENDING, lockedAt: null },
+  });
+
+  const candidate = await prisma.webhookJob.findFirst({
+    where: {
+      status: WebhookJobStatus.PENDING,
+      nextRunAt: { lte: now },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  if (!candidate) return null;
+
+  const { count } = await prisma.webhookJob.updateMany({
+    where: { id: candidate.id, status: WebhookJobStatus.PENDING },
+    data: {
+      status: WebhookJobStatus.PROCESSING,
+      lockedAt: now,
+      attempts: { increment: 1 },
+    },
+  });
+
+  // 他のワーカーに先に取得された
+  if (count === 0) return null;
+
+  return prisma.webhookJob.findUnique({ where: { id: candidate.id } });
+};
+
+/**
+ * ジョブを1件実行し、結果を保存する
+ * 失敗した場合は指数バックオフで再実行を予約し、最大試行回数に達したら DEAD にする
+ * ただし、ユーザーへのメッセージを一部でも送信した後に失敗した場合は、
+ * 再実行すると送信済みのメッセージを重複して送る（レコメンドも再度実行される）ため、再実行せず DEAD にする
+ * @param job 実行するジョブ
+ * @param processor Webhookイベントを処理する関数
+ */
+const runJob = async (job: WebhookJob, processor: WebhookEventProcessor) => {
+  const previousDeliveries = (job.deliveries as Prisma.JsonArray) ?? [];
+  const previousErrors = (job.errors as Prisma.JsonArray) ?? [];
+
+  // 処理中であることを記録し続け、他のワーカーに停止したとみなされないようにする
+  const heartbeat = setInterval(() => {
+    prisma.webhookJob
+      .updateMany({
+        where: { id: job.id, status: WebhookJobStatus.PROCESSING },
+        data: { lockedAt: new Date() },
+      })
+      .catch((error) =>
+        console.error(
+          `Webhookジョブ ${job.id} の生存確認の更新に失敗しました:`,
+          error
+        )
+      );
+  }, HEARTBEAT_INTERVAL_MS);
+
+  const deliveries: LineDelivery[] = [];
+  try {
+    await runWithLineDeliveryLog(deliveries, () => processor(job.payload));
+
+    await prisma.webhookJob.update({
+      where: { id: job.id },
+      data: {
+        status: WebhookJobStatus.SUCCEEDED,
+        lockedAt: null,
+        lastError: null,
+        deliveries: [...previousDeliveries, ...toJson(deliveries)],
+        completedAt: new Date(),
+      },
+    });
+  } catch (error) {
+    const partiallyDelivered = deliveries.some((delivery) => delivery.success);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const message = partiallyDelivered
+      ? `${errorMessage}（一部のメッセージを送信済みのため再実行しません）`
+      : errorMessage;
+    const isDead = partiallyDelivered || job.attempts >= job.maxAttempts;
+
+    console.error(
+      `Webhookジョブ ${job.id} の処理に失敗しました（${job.attempts}/${job.maxAttempts}回目）:`,
+      error
+    );
+
+    await prisma.webhookJob.update({
+      where: { id: job.id },
+      data: {
+        status: isDead ? WebhookJobStatus.DEAD : WebhookJobStatus.PENDING,
+        lockedAt: null,
+        lastError: message,
+        errors: [
+          ...previousErrors,
+          {
+            attempt: job.attempts,
+            message,
+            failedAt: new Date().toISOString(),
+          },
+        ],
+        deliveries: [...previousDeliveries, ...toJson(deliveries)],
+        nextRunAt: isDead
+          ? undefined
+          : new Date(Date.now() + getRetryDelayMs(job.attempts)),
+        completedAt: isDead ? new Date() : null,
+      },
+    });
+  } finally {
+    clearInterval(heartbeat);
+  }
+};
+
+/**
+ * 実行可能なジョブがなくなるまで順番に処理する
+ * @param processor Webhookイベントを処理する関数
+ * @param maxJobs 1回の呼び出しで処理する最大件数
+ * @returns 処理したジョブ件数
+ */
+export const processPendingWebhookJobs = async (
+  processor: WebhookEventProcessor,
+  maxJobs: number = 10
+) => {
+  let processed = 0;
+
+  while (processed < maxJobs) {
+    const job = await claimNextJob();
+    if (!job) break;
+
+    await runJob(job, processor);
+    processed++;
+  }
+
+  return processed;
+};
+
+/**
+ * Webhookジョブのワーカーループを開始する
+ * 一定間隔で実行可能なジョブを取得して処理する
+ * @param processor Webhookイベントを処理する関数
+ * @param intervalMs ポーリング間隔（ミリ秒）
+ * @returns ワーカーを停止する関数
+ */
+export const startWebhookWorker = (
+  processor: WebhookEventProcessor,
+  intervalMs: number = 1000
+) => {
+  let stopped = false;
+  let timer: NodeJS.Timeout | null = null;
+
+  const tick = async () => {
+    try {
+      await processPendingWebhookJobs(processor);
+    } catch (error) {
+      console.error("Webhookワーカーの実行中にエラーが発生しました:", error);
+    }
+
+    if (!stopped) {
+      timer = setTimeout(tick, intervalMs);
+    }
+  };
+
+  console.log(`Webhookワーカーを開始しました（間隔: ${intervalMs}ms）`);
+  timer = setTimeout(tick, 0);
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+  };
+};
+
+/**
+ * Webhookジョブの一覧を取得する
+ * @param options ステータスやLINEユーザーIDによる絞り込み条件
+ * @returns ジョブの配列（新しい順）
+ */
+export const listWebhookJobs = async (options: {
+  status?: WebhookJobStatus;
+  lineUserId?: string;
+  limit?: number;
+}) => {
+  return prisma.webhookJob.findMany({
+    where: {
+      status: options.status,
+      lineUserId: options.lineUserId,
+    },
+    orderBy: { createdAt: "desc" },
+    take: options.limit ?? 50,
+  });
+};
+
+/**
+ * IDを指定してWebhookジョブを取得する
+ * @param jobId ジョブID
+ * @returns ジョブ（見つからない場合は null）
+ */
+export const getWebhookJobById = async (jobId: string) => {
+  return prisma.webhookJob.findUnique({ where: { id: jobId } });
+};
+
+/**
+ * DEAD になったジョブを再実行対象に戻す
+ * @param jobId ジョブID
+ * @returns 更新後のジョブ（DEAD のジョブが見つからない場合は null）
+ */
+export const retryWebhookJob = async (jobId: string) => {
+  const { count } = await prisma.webhookJob.updateMany({
+    where: { id: jobId, status: WebhookJobStatus.DEAD },
+    data: {
+      status: WebhookJobStatus.PENDING,
+      attempts: 0,
+      nextRunAt: new Date(),
+      completedAt: null,
+    },
+  });
+
+  if (count === 0) return null;
+
+  return prisma.webhookJob.findUnique({ where: { id: jobId } });
+};
@@ -0,0 +1,163 @@
+/// <reference types="jest" />
+import {
+  DedupCandidate,
+  clusterDuplicateEvents,
+  scoreDuplicate,
+} from "../utils/eventDedup";
+
+/**
+ * 重複を判定するイベントを作成する
+ * @param overrides 既定値から変更する項目
+ * @returns イベント
+ */
+const createCandidate = (
+  overrides: Partial<DedupCandidate> & { id: string }
+): DedupCandidate => {
+  const source = overrides.source === undefined ? "connpass" : overrides.source;
+  return {
+    title: "Go言語もくもく会 vol.5",
+    eventDate: new Date("2026-11-10T10:00:00Z"), // 日本時間 19:00
+    venue: "渋谷ヒカリエ 11F",
+    detailUrl: null,
+    createdAt: new Date("2026-10-01T00:00:00Z"),
+    isCanonical: false,
+    ...overrides,
+    source,
+    sources: overrides.sources ?? (source ? [source] : []),
+  };
+};
+
+describe("scoreDuplicate", () => {
+  it("Connpass と TechPlay に掲載された同じイベントを重複と判定する", () => {
+    const connpass = createCandidate({
+      id: "connpass_1",
+      detailUrl: "https://gdg.connpass.com/event/1/",
+    });
+    const techplay = createCandidate({
+      id: "techplay_1",
+      source: "techplay",
+      title: "【オンライン】Go言語もくもく会 vol.5",
+      eventDate: new Date("2026-11-10T10:15:00Z"), // 開始時刻の差は30分以内
+      detailUrl: "https://techplay.jp/event/1",
+    });
+
+    // タイトル 1 + 開始日時の一致 0.2 + 会場の一致 0.2
+    expect(scoreDuplicate(connpass, techplay)).toBeCloseTo(1.4);
+  });
+
+  it("詳細URLが一致する場合はタイトルや会場によらず重複と判定する", () => {
+    const a = createCandidate({
+      id: "a",
+      detailUrl: "https://gdg.connpass.com/event/1/",
+    });
+    const b = createCandidate({
+      id: "b",
+      source: "techplay",
+      title: "まったく別のタイトル",
+      venue: "オンライン",
+      detailUrl: "http://www.gdg.connpass.com/event/1?utm_source=techplay",
+    });
+
+    expect(scoreDuplicate(a, b)).toBe(2);
+  });
+
+  it("開催日（日本時間）が異なる場合は重複と判定しない", () => {
+    const a = createCandidate({ id: "a" });
+    const b = createCandidate({
+      id: "b",
+      source: "techplay",
+      eventDate: new Date("2026-11-10T15:30:00Z"), // 日本時間では翌日 0:30
+    });
+
+    expect(scoreDuplicate(a, b)).toBeNull();
+  });
+
+  it("どちらもオンライン開催の場合は会場名が異なっても会場が一致するとみなす", () => {
+    const a = createCandidate({
+      id: "a",
+      title: "TypeScript勉強会 #12",
+      venue: "オンライン",
+    });
+    const b = createCandidate({
+      id: "b",
+      source: "techplay",
+      title: "TypeScript勉強会 #12 LT大会",
+      eventDate: new Date("2026-11-10T12:00:00Z"), // 開始時刻が2時間異なる
+      venue: "YouTube Live",
+    });
+
+    // タイトルの類似度（0.875）だけでは重複としない値だが、会場が一致する
+    expect(scoreDuplicate(a, b)).toBeCloseTo(0.875 + 0.2);
+  });
+
+  it("タイトルが似ていても開始日時・会場が異なる場合は重複と判定しない", () => {
+    const a = createCandidate({
+      id: "a",
+      title: "TypeScript勉強会 #12",
+      venue: "渋谷ヒカリエ 11F",
+    });
+    const b = createCandidate({
+      id: "b",
+      source: "techplay",
+      title: "TypeScript勉強会 #12 LT大会",
+      eventDate: new Date("2026-11-10T12:00:00Z"),
+      venue: "梅田スカイビル",
+    });
+
+    expect(scoreDuplicate(a, b)).toBeNull();
+  });
+});
+
+describe("clusterDuplicateEvents", () => {
+  it("取り込み元の優先順で代表のイベントを選ぶ", () => {
+    const clusters = clusterDuplicateEvents([
+      createCandidate({
+        id: "techplay_1",
+        source: "techplay",
+        createdAt: new Date("2026-09-01T00:00:00Z"), // 先に登録されている
+      }),
+      createCandidate({ id: "connpass_1" }),
+    ]);
+
+    expect(clusters).toEqual([
+      { canonicalId: "connpass_1", duplicateIds: ["techplay_1"], score: 1.4 },
+    ]);
+  });
+
+  it("同じ取り込み元のイベントどうしはまとめない", () => {
+    const clusters = clusterDuplicateEvents([
+      createCandidate({ id: "connpass_1" }),
+      createCandidate({ id: "connpass_2" }),
+    ]);
+
+    expect(clusters).toEqual([]);
+  });
+
+  it("統合済みのイベントの取り込み元と同じ取り込み元のイベントはまとめない", () => {
+    const clusters = clusterDuplicateEvents([
+      createCandidate({
+        id: "connpass_1",
+        sources: ["connpass", "techplay"],
+        isCanonical: true,
+      }),
+      createCandidate({ id: "techplay_2", source: "techplay" }),
+    ]);
+
+    expect(clusters).toEqual([]);
+  });
+
+  it("同じ取り込み元の2件は、別の取り込み元のイベントと類似度の高い方だけをまとめる", () => {
+    const clusters = clusterDuplicateEvents([
+      createCandidate({ id: "connpass_1" }),
+      createCandidate({
+        id: "connpass_2",
+        eventDate: new Date("2026-11-10T12:00:00Z"), // 開始時刻が2時間異なる
+      }),
+      createCandidate({ id: "techplay_1", source: "techplay" }),
+    ]);
+
+    expect(clusters).toEqual([
+      { canonicalId: "connpass_1", duplicateIds: ["techplay_1"], score: 1.4 },
+    ]);
+  });
+});
@@ -0,0 +1,150 @@
+/// <reference types="jest" />
+import { EventFormat, EventType } from "@prisma/client";
+import {
+  buildEventWhere,
+  buildUserPlaceFilter,
+  hasEventFilterConditions,
+  parseEventFilter,
+  parseEventFilterQuery,
+} from "../utils/eventQueryBuilder";
+
+describe("buildEventWhere", () => {
+  it("キーワードと開催場所をそれぞれの OR の AND にする", () => {
+    const where = buildEventWhere(
+      parseEventFilter({ keyword: "React", location: "東京" })
+    );
+
+    expect(where).toEqual({
+      mergedIntoId: null,
+      AND: [
+        {
+          OR: [
+            { title: { contains: "React", mode: "insensitive" } },
+            { description: { contains: "React", mode: "insensitive" } },
+          ],
+        },
+        {
+          OR: [
+            { location: { contains: "東京", mode: "insensitive" } },
+            { venue: { contains: "東京", mode: "insensitive" } },
+            { address: { contains: "東京", mode: "insensitive" } },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("開催場所が「不明」のイベントを含める場合は開催場所の OR に加える", () => {
+    const where = buildEventWhere(
+      parseEventFilter(buildUserPlaceFilter("大阪"))
+    );
+
+    expect(where.AND).toEqual([
+      {
+        OR: [
+          { location: { contains: "大阪", mode: "insensitive" } },
+          { venue: { contains: "大阪", mode: "insensitive" } },
+          { address: { contains: "大阪", mode: "insensitive" } },
+          { location: "不明" },
+        ],
+      },
+    ]);
+  });
+
+  it("条件がない場合は統合されたイベントの除外のみにする", () => {
+    const where = buildEventWhere(parseEventFilter({}));
+
+    expect(where).toEqual({ mergedIntoId: null });
+    expect(hasEventFilterConditions(where)).toBe(false);
+  });
+
+  it("参加費の範囲を1つの条件にする", () => {
+    const where = buildEventWhere(
+      parseEventFilter({ minPrice: 0, maxPrice: 1000 })
+    );
+
+    expect(where.AND).toEqual([{ price: { gte: 0, lte: 1000 } }]);
+    expect(hasEventFilterConditions(where)).toBe(true);
+  });
+});
+
+describe("parseEventFilterQuery", () => {
+  it("従来のパラメータ名（startDate / endDate / categories）を受け付ける", () => {
+    const filter = parseEventFilterQuery({
+      startDate: "2026-11-01",
+      endDate: "2026-11-30",
+      categories: ["category-1", "category-2"],
+    });
+
+    expect(filter.fromDate).toEqual(new Date("2026-11-01"));
+    expect(filter.toDate).toEqual(new Date("2026-11-30"));
+    expect(filter.categoryIds).toEqual(["category-1", "category-2"]);
+  });
+
+  it("新しいパラメータ名を従来のパラメータ名より優先する", () => {
+    const filter = parseEventFilterQuery({
+      fromDate: "2026-12-01",
+      startDate: "2026-11-01",
+      categoryIds: "category-3",
+      categories: "category-1",
+    });
+
+    expect(filter.fromDate).toEqual(new Date("2026-12-01"));
+    expect(filter.categoryIds).toEqual(["category-3"]);
+  });
+
+  it("日本語のイベントタイプを列挙値にする", () => {
+    expect(parseEventFilterQuery({ eventType: "ハッカソン" }).eventType).toBe(
+      EventType.HACKATHON
+    );
+    expect(parseEventFilterQuery({ eventType: "LT会" }).eventType).toBe(
+      EventType.LIGHTNING_TALK
+    );
+    expect(parseEventFilterQuery({ eventType: "WORKSHOP" }).eventType).toBe(
+      EventType.WORKSHOP
+    );
+    expect(parseEventFilterQuery({ eventType: "すべて" }).eventType).toBe(
+      undefined
+    );
+  });
+
+  it("空文字のパラメータは未指定として扱う", () => {
+    const filter = parseEventFilterQuery({ keyword: "", format: "" });
+
+    expect(filter.keyword).toBeUndefined();
+    expect(filter.format).toBeUndefined();
+  });
+
+  it("最低価格が最高価格より大きい場合はエラーにする", () => {
+    expect(() =>
+      parseEventFilterQuery({ minPrice: "2000", maxPrice: "1000" })
+    ).toThrow("最低価格は最高価格以下の値を指定してください");
+  });
+
+  it("開始日が終了日より後の場合はエラーにする", () => {
+    expect(() =>
+      parseEventFilterQuery({ fromDate: "2026-12-01", toDate: "2026-11-01" })
+    ).toThrow("開始日は終了日以前の日付を指定してください");
+  });
+
+  it("不明なイベントタイプ・形式はエラーにする", () => {
+    expect(() => parseEventFilterQuery({ eventType: "セミナー" })).toThrow(
+      "検索条件が不正です（eventType:"
+    );
+    expect(() => parseEventFilterQuery({ format: "OUTDOOR" })).toThrow(
+      "検索条件が不正です（format:"
+    );
+  });
+});
+
+describe("buildUserPlaceFilter", () => {
+  it("居住地が online の場合はオンライン開催に絞り込む", () => {
+    expect(buildUserPlaceFilter("Online")).toEqual({
+      format: EventFormat.ONLINE,
+    });
+  });
+
+  it("居住地がない場合は絞り込まない", () => {
+    expect(buildUserPlaceFilter(null)).toEqual({});
+  });
+});
@@ -0,0 +1,59 @@
+/// <reference types="jest" />
+import {
+  createLineSignature,
+  verifyLineSignature,
+} from "../utils/lineSignature";
+
+// LINE Webhook のリクエストボディのフィクスチャ
+const CHANNEL_SECRET = "test-channel-secret";
+const body = JSON.stringify({
+  destination: "U0000000000000000000000000000000",
+  events: [
+    {
+      type: "message",
+      webhookEventId: "01HXXXXXXXXXXXXXXXXXXXXXXX",
+      timestamp: 1700000000000,
+      replyToken: "reply-token",
+      source: { type: "user", userId: "U1111111111111111111111111111111" },
+      message: { type: "text", id: "1", text: "レコメンド" },
+      deliveryContext: { isRedelivery: false },
+    },
+  ],
+});
+
+describe("verifyLineSignature", () => {
+  it("正しい署名を受け入れる", () => {
+    const signature = createLineSignature(body, CHANNEL_SECRET);
+    expect(verifyLineSignature(body, signature, CHANNEL_SECRET)).toBe(true);
+  });
+
+  it("文字列とバッファのどちらのボディでも同じ署名になる", () => {
+    const signature = createLineSignature(body, CHANNEL_SECRET);
+    expect(
+      verifyLineSignature(Buffer.from(body), signature, CHANNEL_SECRET)
+    ).toBe(true);
+  });
+
+  it("改ざんされたボディを拒否する", () => {
+    const signature = createLineSignature(body, CHANNEL_SECRET);
+    const tampered = body.replace("レコメンド", "ブックマーク");
+    expect(verifyLineSignature(tampered, signature, CHANNEL_SECRET)).toBe(
+      false
+    );
+  });
+
+  it("署名がない場合は拒否する", () => {
+    expect(verifyLineSignature(body, undefined, CHANNEL_SECRET)).toBe(false);
+    expect(verifyLineSignature(body, null, CHANNEL_SECRET)).toBe(false);
+    expect(verifyLineSignature(body, "", CHANNEL_SECRET)).toBe(false);
+  });
+
+  it("別のチャネルシークレットで作成した署名を拒否する", () => {
+    const signature = createLineSignature(body, "wrong-channel-secret");
+    expect(verifyLineSignature(body, signature, CHANNEL_SECRET)).toBe(false);
+  });
+
+  it("長さの異なる署名を例外なく拒否する", () => {
+    expect(verifyLineSignature(body, "short", CHANNEL_SECRET)).toBe(false);
+  });
+});
@@ -0,0 +1,121 @@
+/// <reference types="jest" />
+import { NextFunction, Request, Response } from "express";
+import { verifyLineWebhookSignature } from "../middleware/lineSignature";
+import { createLineSignature } from "../utils/lineSignature";
+
+const CHANNEL_SECRET = "test-channel-secret";
+const body = JSON.stringify({
+  destination: "U0000000000000000000000000000000",
+  events: [
+    {
+      type: "postback",
+      timestamp: 1700000000000,
+      source: { type: "user", userId: "U1111111111111111111111111111111" },
+      postback: { data: "action=bookmark&eventId=connpass_12345" },
+    },
+  ],
+});
+
+/**
+ * Webhook のリクエストを作成する（express.json の verify で保持した生のボディを rawBody に持つ）
+ * @param rawBody 生のリクエストボディ
+ * @param signature X-Line-Signature ヘッダーの値
+ */
+const createRequest = (rawBody: string, signature?: string) => {
+  const headers: Record<string, string | undefined> = {
+    "x-line-signature": signature,
+  };
+  return {
+    rawBody: Buffer.from(rawBody),
+    body: JSON.parse(rawBody),
+    get: (name: string) => headers[name.toLowerCase()],
+  } as unknown as Request;
+};
+
+// ステータスコードとレスポンスを記録するレスポンス
+const createResponse = () => {
+  const res = {
+    status: jest.fn(),
+    json: jest.fn(),
+  };
+  res.status.mockReturnValue(res);
+  res.json.mockReturnValue(res);
+  return res;
+};
+
+describe("verifyLineWebhookSignature", () => {
+  const originalSecret = process.env.LINE_CHANNEL_SECRET;
+  let next: jest.Mock;
+
+  beforeEach(() => {
+    process.env.LINE_CHANNEL_SECRET = CHANNEL_SECRET;
+    next = jest.fn();
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    process.env.LINE_CHANNEL_SECRET = originalSecret;
+    jest.restoreAllMocks();
+  });
+
+  const run = (req: Request) => {
+    const res = createResponse();
+    verifyLineWebhookSignature(
+      req,
+      res as unknown as Response,
+      next as NextFunction
+    );
+    return res;
+  };
+
+  it("正しい署名のリクエストは次の処理に進む", () => {
+    const res = run(
+      createRequest(body, createLineSignature(body, CHANNEL_SECRET))
+    );
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it("改ざんされたボディは 401 を返す", () => {
+    const signature = createLineSignature(body, CHANNEL_SECRET);
+    const tampered = body.replace("connpass_12345", "connpass_99999");
+    const res = run(createRequest(tampered, signature));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({ success: false, message: "署名が不正です" })
+    );
+  });
+
+  it("署名ヘッダーがない場合は 401 を返す", () => {
+    const res = run(createRequest(body));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({ success: false, message: "署名がありません" })
+    );
+  });
+
+  it("別のチャネルシークレットで署名したリクエストは 401 を返す", () => {
+    const res = run(
+      createRequest(body, createLineSignature(body, "wrong-channel-secret"))
+    );
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+
+  it("チャネルシークレットが設定されていない場合は 500 を返す", () => {
+    delete process.env.LINE_CHANNEL_SECRET;
+    const res = run(
+      createRequest(body, createLineSignature(body, CHANNEL_SECRET))
+    );
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(500);
+  });
+});
@@ -0,0 +1,113 @@
+/// <reference types="jest" />
+import path from "path";
+import { HumanMessage } from "@langchain/core/messages";
+import {
+  getChatModel,
+  getLlmUsage,
+  hashLlmPrompt,
+  messageContentToText,
+  resetLlmUsage,
+  setLlmRecordings,
+  setLlmTaskConfig,
+} from "../services/llmClient";
+import { extractKeywordsFromQuery } from "../utils/queryRecommendation";
+
+const FIXTURE_FILE = path.join(__dirname, "fixtures", "llmRecordings.json");
+
+describe("replay プロバイダー", () => {
+  const originalReplayFile = process.env.LLM_REPLAY_FILE;
+
+  beforeEach(() => {
+    process.env.LLM_REPLAY_FILE = FIXTURE_FILE;
+    setLlmRecordings(null);
+    setLlmTaskConfig("ragAnswer", { provider: "replay" });
+    setLlmTaskConfig("queryKeywordExtraction", { provider: "replay" });
+    resetLlmUsage();
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    setLlmTaskConfig("ragAnswer", null);
+    setLlmTaskConfig("queryKeywordExtraction", null);
+    if (originalReplayFile === undefined) {
+      delete process.env.LLM_REPLAY_FILE;
+    } else {
+      process.env.LLM_REPLAY_FILE = originalReplayFile;
+    }
+    jest.restoreAllMocks();
+  });
+
+  it("記録ファイルの応答をタスクの呼び出し順に再生する", async () => {
+    const model = getChatModel("ragAnswer");
+
+    const first = await model.invoke("おすすめのイベントは？");
+    const second = await model.invoke("ほかには？");
+
+    expect(messageContentToText(first.content)).toBe(
+      "東京で開催される React のハンズオンがおすすめです。"
+    );
+    expect(messageContentToText(second.content)).toBe("2回目の回答です。");
+  });
+
+  it("プロンプトのハッシュが一致する記録を優先する", async () => {
+    const prompt = "React のイベントは？";
+    setLlmRecordings({
+      ragAnswer: [
+        { response: "順番に再生する応答" },
+        {
+          promptHash: hashLlmPrompt([new HumanMessage(prompt)]),
+          response: "プロンプトに対応する応答",
+        },
+      ],
+    });
+
+    const result = await getChatModel("ragAnswer").invoke(prompt);
+
+    expect(messageContentToText(result.content)).toBe(
+      "プロンプトに対応する応答"
+    );
+  });
+
+  it("再生できる記録がない場合はエラーにする", async () => {
+    setLlmRecordings({});
+
+    await expect(getChatModel("ragAnswer").invoke("質問")).rejects.toThrow(
+      "LLMの応答の記録がありません"
+    );
+  });
+
+  it("記録した応答でタスクの処理全体を実行し、使用量を集計する", async () => {
+    const keywords = await extractKeywordsFromQuery(
+      "東京でReactのハンズオンに参加したい"
+    );
+
+    expect(keywords).toEqual([
+      "React",
+      "Next.js",
+      "ハンズオン",
+      "東京",
+      "渋谷",
+    ]);
+    expect(getLlmUsage()).toEqual([
+      expect.objectContaining({
+        task: "queryKeywordExtraction",
+        provider: "replay",
+        calls: 1,
+        failures: 0,
+        estimatedCostUsd: 0,
+      }),
+    ]);
+  });
+});
+
+describe("messageContentToText", () => {
+  it("テキスト以外の要素を除いて連結する", () => {
+    expect(
+      messageContentToText([
+        { type: "text", text: "React " },
+        { type: "image_url", image_url: "https://example.com/image.png" },
+        { type: "text", text: "ハンズオン" },
+      ])
+    ).toBe("React ハンズオン");
+  });
+});
@@ -0,0 +1,114 @@
+/// <reference types="jest" />
+import {
+  averageRankingMetrics,
+  evaluateRanking,
+  ndcgAtK,
+  precisionAtK,
+  recallAtK,
+  reciprocalRankAtK,
+} from "../utils/rankingMetrics";
+
+// 2位と4位が関連イベントで、ランキングにない関連イベント（x）が1件ある
+const RANKED = ["a", "b", "c", "d", "e"];
+const RELEVANT = new Set(["b", "d", "x"]);
+
+describe("precisionAtK", () => {
+  it("上位k件に含まれる関連イベントの割合を返す", () => {
+    expect(precisionAtK(RANKED, RELEVANT, 3)).toBeCloseTo(1 / 3);
+    expect(precisionAtK(RANKED, RELEVANT, 5)).toBeCloseTo(2 / 5);
+  });
+
+  it("ランキングがk件未満でも分母はkとする", () => {
+    expect(precisionAtK(["a", "b"], new Set(["a"]), 10)).toBeCloseTo(0.1);
+  });
+
+  it("関連イベントがない場合・k が0以下の場合は0を返す", () => {
+    expect(precisionAtK(RANKED, new Set(), 3)).toBe(0);
+    expect(precisionAtK(RANKED, RELEVANT, 0)).toBe(0);
+  });
+});
+
+describe("recallAtK", () => {
+  it("関連イベントのうち上位k件に含まれる割合を返す", () => {
+    expect(recallAtK(RANKED, RELEVANT, 3)).toBeCloseTo(1 / 3);
+    expect(recallAtK(RANKED, RELEVANT, 5)).toBeCloseTo(2 / 3);
+  });
+
+  it("k がランキングの件数より大きい場合はランキング全体で計算する", () => {
+    expect(recallAtK(["a", "b"], new Set(["a"]), 10)).toBe(1);
+  });
+
+  it("関連イベントがない場合は0を返す", () => {
+    expect(recallAtK(RANKED, new Set(), 3)).toBe(0);
+  });
+});
+
+describe("ndcgAtK", () => {
+  it("関連イベントの順位に応じて割り引いた利得を理想のランキングで正規化する", () => {
+    // DCG@3 = 1/log2(3)（2位）、理想は3件の関連イベントが1〜3位
+    expect(ndcgAtK(RANKED, RELEVANT, 3)).toBeCloseTo(
+      1 / Math.log2(3) / (1 + 1 / Math.log2(3) + 1 / Math.log2(4))
+    );
+    // DCG@5 = 1/log2(3) + 1/log2(5)（2位・4位）、理想は3件の関連イベントが1〜3位
+    expect(ndcgAtK(RANKED, RELEVANT, 5)).toBeCloseTo(
+      (1 / Math.log2(3) + 1 / Math.log2(5)) /
+        (1 + 1 / Math.log2(3) + 1 / Math.log2(4))
+    );
+  });
+
+  it("関連イベントがすべて上位に並んでいる場合は1を返す", () => {
+    expect(ndcgAtK(["a", "b", "c"], new Set(["a", "b"]), 3)).toBeCloseTo(1);
+  });
+
+  it("k がランキングの件数より大きい場合は理想のランキングも関連イベントの件数までとする", () => {
+    expect(ndcgAtK(["a", "b"], new Set(["a"]), 10)).toBeCloseTo(1);
+    expect(ndcgAtK(["a", "b"], new Set(["b"]), 10)).toBeCloseTo(
+      1 / Math.log2(3)
+    );
+  });
+
+  it("関連イベントがない場合は0を返す", () => {
+    expect(ndcgAtK(RANKED, new Set(), 3)).toBe(0);
+  });
+});
+
+describe("reciprocalRankAtK", () => {
+  it("最初に関連イベントが現れた順位の逆数を返す", () => {
+    expect(reciprocalRankAtK(RANKED, RELEVANT, 3)).toBeCloseTo(1 / 2);
+  });
+
+  it("上位k件に関連イベントがない場合は0を返す", () => {
+    expect(reciprocalRankAtK(RANKED, RELEVANT, 1)).toBe(0);
+    expect(reciprocalRankAtK(RANKED, new Set(), 5)).toBe(0);
+  });
+
+  it("k がランキングの件数より大きい場合はランキング全体から探す", () => {
+    expect(reciprocalRankAtK(["a", "b"], new Set(["b"]), 10)).toBeCloseTo(
+      1 / 2
+    );
+  });
+});
+
+describe("averageRankingMetrics", () => {
+  it("クエリごとの指標を平均する", () => {
+    const metrics = averageRankingMetrics([
+      evaluateRanking(["a", "b"], new Set(["a"]), 2),
+      evaluateRanking(["a", "b"], new Set(["c"]), 2),
+    ]);
+
+    // 1件目: precision 1/2, recall 1, nDCG 1, MRR 1 / 2件目: すべて0
+    expect(metrics.precision).toBeCloseTo(1 / 4);
+    expect(metrics.recall).toBeCloseTo(1 / 2);
+    expect(metrics.ndcg).toBeCloseTo(1 / 2);
+    expect(metrics.mrr).toBeCloseTo(1 / 2);
+  });
+
+  it("クエリがない場合はすべて0を返す", () => {
+    expect(averageRankingMetrics([])).toEqual({
+      precision: 0,
+      recall: 0,
+      ndcg: 0,
+      mrr: 0,
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { DifficultyLevel, EventFormat, EventType } from "@prisma/client";
+import { ExternalOrganizer } from "../services/organizationService";
+
+// 取り込み元のイベントを共通の形式に変換したもの（取り込み元ごとのアダプターが作成する）
+export interface NormalizedEvent {
+  source: string; // 取り込み元（例: "connpass"）
+  externalId: string; // 取り込み元でのイベントID
+  title: string;
+  description: string;
+  eventDate: Date;
+  startTime: string;
+  endTime?: string | null;
+  venue: string;
+  address?: string | null;
+  location?: string | null; // 省略した場合は venue・address から判定する
+  detailUrl: string;
+  image?: string | null;
+  format: EventFormat;
+  eventType?: EventType;
+  difficulty?: DifficultyLevel;
+  price?: number;
+  organizer?: ExternalOrganizer | null; // 主催者（主催団体として登録する）
+  sourceUpdatedAt?: Date | null; // 取り込み元での最終更新日時（ない場合は内容で変更を判定する）
+  rawPayload: unknown; // 取り込み元から取得した元データ
+}
+
+/**
+ * 取り込み元ごとのアダプター
+ * fetch で取得した元データを normalize で共通の形式に変換し、
+ * 登録（重複の判定・開催地の判定・キーデータの抽出・検索用データの更新）は eventIngestionService で共通に行う
+ */
+export interface EventSourceAdapter<TRaw = unknown, TParams = void> {
+  source: string;
+  // 取り込み元からイベントの元データを取得する
+  fetch: (params: TParams) => Promise<TRaw[]>;
+  // 元データを共通の形式に変換する（必須項目が不足している場合は例外を投げる）
+  normalize: (raw: TRaw) => NormalizedEvent;
+  // エラーの記録に使う元データの識別子（URL・タイトルなど）
+  describe: (raw: TRaw) => string;
+}
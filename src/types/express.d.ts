@@ -0,0 +1,19 @@
+import { UserRole } from "@prisma/client";
+
+// Express の Request 型を拡張する
+declare global {
+  namespace Express {
+    interface Request {
+      // 署名検証用に保持する受信したままのリクエストボディ
+      rawBody?: Buffer;
+      // authenticate ミドルウェアで設定されるログイン中のユーザー
+      user?: {
+        id: string;
+        role: UserRole;
+        lineId: string | null;
+      };
+    }
+  }
+}
+
+export {};
@@ -7,4 +7,44 @@ export type EventWithBookmark = Event & { Bookmark?: Bookmark[] };
 export type EventWithBookmarkStatus = Omit<EventWithBookmark, "Bookmark"> & {
   isBookmarked: boolean;
 };
+
+// LINE Messaging API への送信結果（Webhookジョブごとに記録する）
+export interface LineDelivery {
+  method: "push" | "reply";
+  to?: string;
+  messageCount: number;
+  success: boolean;
+  status?: number;
+  requestId?: string;
+  error?: string;
+  sentAt: string;
+}
+
+// Flexメッセージのコンポーネント（このプロジェクトで使う項目のみ定義）
+export interface FlexText {
+  type: "text";
+  text: string;
+  weight?: "regular" | "bold";
+  size?: string;
+  color?: string;
+  wrap?: boolean;
+  margin?: string;
+  action?: { type: "uri"; uri: string };
+}
+
+export interface FlexSeparator {
+  type: "separator";
+  margin?: string;
+}
+
+export interface FlexBox {
+  type: "box";
+  layout: "horizontal" | "vertical" | "baseline";
+  margin?: string;
+  spacing?: string;
+  contents: FlexComponent[];
+}
+
+export type FlexComponent = FlexBox | FlexText | FlexSeparator;
+
 // 他のLINE関連の共有型があればここに追加できます
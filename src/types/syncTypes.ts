@@ -0,0 +1,17 @@
+// イベントの取り込み（同期）の結果の件数（同期の実行ごとに SyncRun に記録する）
+export interface SyncSummary {
+  fetched: number; // 取り込み元から取得した件数
+  created: number; // 新しく登録した件数
+  updated: number; // 更新した件数
+  unchanged: number; // 登録済みで変更のなかった件数
+  failed: number; // 保存に失敗した件数
+}
+
+// イベントごとの取り込みエラー
+export interface SyncEventError {
+  event: string; // イベントの識別子（ID・URL・タイトルなど）
+  message: string;
+}
+
+// イベントごとの取り込みエラーを記録する関数（同期の実行から渡される）
+export type SyncErrorReporter = (event: string, error: unknown) => void;
@@ -4,6 +4,10 @@ import {
   ConnpassEventV2,
   ConnpassSearchParamsV2,
 } from "../services/connpassService";
+import {
+  ExternalOrganizer,
+  resolveOrganization,
+} from "../services/organizationService";
 import { getDateRangeWithDefaults } from "./dateUtils";
 import { convertPrefectureToCode } from "./prefectureUtils";
 
@@ -72,11 +76,13 @@ const PREF_SHORTS = Object.keys(PREF_MAP);
  * レコメンド情報に必要な最小限のフィールドのみを設定
  * @param connpassEvent Connpass APIから取得したイベント
  * @param locationOverride 都道府県名を直接指定してlocationを上書きする場合に使用
+ * @param organizationId 主催団体ID（resolveConnpassOrganizationIds で取得したもの）
  * @returns Prisma Event型に変換されたイベント
  */
 export const convertConnpassEventToPrismaEvent = (
   connpassEvent: ConnpassEventV2,
-  locationOverride?: string
+  locationOverride?: string,
+  organizationId: string | null = null
 ): Event => {
   // イベントタイプの判定（タイトルやタグから推測）
   let eventType: EventType = EventType.WORKSHOP; // デフォルト値
@@ -185,7 +191,7 @@ export const convertConnpassEventToPrismaEvent = (
     address: address,
     location: location,
     detailUrl: connpassEvent.url,
-    organizationId: "cm8h2ibpv0000rycorzgynzp4",
+    organizationId: organizationId,
     createdAt: new Date(),
     updatedAt: new Date(),
     image: null,
@@ -193,9 +199,79 @@ export const convertConnpassEventToPrismaEvent = (
     difficulty: DifficultyLevel.FOR_EVERYONE,
     price: 0,
     eventType: eventType,
+    sourceUpdatedAt: connpassEvent.updated_at
+      ? new Date(connpassEvent.updated_at)
+      : null,
   } as Event;
 };
 
+/**
+ * Connpassイベントの主催者情報を取得する
+ * グループ主催のイベントはグループを、それ以外は管理者（owner）を主催者とする
+ * @param connpassEvent Connpass APIから取得したイベント
+ * @returns 主催者情報（どちらもない場合は null）
+ */
+export const getConnpassOrganizer = (
+  connpassEvent: ConnpassEventV2
+): ExternalOrganizer | null => {
+  if (connpassEvent.group?.id) {
+    return {
+      source: "connpass",
+      externalId: `group:${connpassEvent.group.id}`,
+      name: connpassEvent.group.title,
+      website: connpassEvent.group.url,
+    };
+  }
+
+  if (connpassEvent.owner?.id) {
+    return {
+      source: "connpass",
+      externalId: `owner:${connpassEvent.owner.id}`,
+      name: connpassEvent.owner.display_name || connpassEvent.owner.nickname,
+      website: connpassEvent.owner.nickname
+        ? `https://connpass.com/user/${connpassEvent.owner.nickname}/`
+        : null,
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Connpassイベントの主催者に対応する主催団体を取得・作成する
+ * 同じ主催者のイベントが複数あっても主催団体の登録は1回だけ行う
+ * @param connpassEvents Connpass APIから取得したイベント
+ * @returns ConnpassイベントIDから主催団体IDへのMap
+ */
+export const resolveConnpassOrganizationIds = async (
+  connpassEvents: ConnpassEventV2[]
+): Promise<Map<number, string>> => {
+  const organizationIds = new Map<number, string>();
+  const resolved = new Map<string, string>();
+
+  for (const connpassEvent of connpassEvents) {
+    const organizer = getConnpassOrganizer(connpassEvent);
+    if (!organizer) continue;
+
+    try {
+      let organizationId = resolved.get(organizer.externalId);
+      if (!organizationId) {
+        organizationId = (await resolveOrganization(organizer)).id;
+        resolved.set(organizer.externalId, organizationId);
+      }
+      organizationIds.set(connpassEvent.id, organizationId);
+    } catch (error) {
+      // 主催団体が登録できなくてもイベント自体は取り込む
+      console.error(
+        `主催団体の登録に失敗しました（${organizer.externalId}）:`,
+        error
+      );
+    }
+  }
+
+  return organizationIds;
+};
+
 /**
  * Connpass APIからイベントを取得し、PrismaのEvent型に変換する
  * @param userProfile ユーザープロファイル
@@ -283,8 +359,15 @@ export const fetchAndConvertConnpassEvents = async (
     );
 
     // フィルタリングしたイベントをPrismaのEvent型に変換
+    const organizationIds = await resolveConnpassOrganizationIds(
+      filteredEvents
+    );
     const events = filteredEvents.map((event) =>
-      convertConnpassEventToPrismaEvent(event)
+      convertConnpassEventToPrismaEvent(
+        event,
+        undefined,
+        organizationIds.get(event.id)
+      )
     );
     return events;
   } catch (error) {
@@ -354,8 +437,15 @@ export const fetchConnpassEventsByKeywords = async (
     );
 
     // 取得したイベントをPrismaのEvent型に変換
+    const organizationIds = await resolveConnpassOrganizationIds(
+      apiResponse.events
+    );
     const events = apiResponse.events.map((event) =>
-      convertConnpassEventToPrismaEvent(event)
+      convertConnpassEventToPrismaEvent(
+        event,
+        undefined,
+        organizationIds.get(event.id)
+      )
     );
     return events;
   } catch (error) {
@@ -46,3 +46,73 @@ export const getDateRangeWithDefaults = (
   
   return [fromDate || defaultFromDate, toDate || defaultToDate];
 };
+
+/**
+ * 「今日」「来週」などの期間を表すキーワードを日付範囲に変換する
+ * LINEのコマンド引数（例: 「レコメンド 東京 来週」）の解析に使用する
+ * @param keyword 期間を表すキーワード
+ * @param now 基準日時（デフォルト: 現在）
+ * @returns 日付範囲、キーワードに該当しない場合はnull
+ */
+export const getDateRangeFromKeyword = (
+  keyword: string,
+  now: Date = new Date()
+): { fromDate: Date; toDate: Date } | null => {
+  const startOfDay = (date: Date) => {
+    const d = new Date(date);
+    d.setHours(0, 0, 0, 0);
+    return d;
+  };
+  const endOfDay = (date: Date) => {
+    const d = new Date(date);
+    d.setHours(23, 59, 59, 999);
+    return d;
+  };
+  const addDays = (date: Date, days: number) => {
+    const d = new Date(date);
+    d.setDate(d.getDate() + days);
+    return d;
+  };
+
+  // 月曜始まりで今週の日曜日までの日数
+  const daysUntilSunday = (7 - now.getDay()) % 7;
+
+  switch (keyword) {
+    case "今日":
+      return { fromDate: now, toDate: endOfDay(now) };
+    case "明日":
+      return {
+        fromDate: startOfDay(addDays(now, 1)),
+        toDate: endOfDay(addDays(now, 1)),
+      };
+    case "今週":
+      return { fromDate: now, toDate: endOfDay(addDays(now, daysUntilSunday)) };
+    case "週末": {
+      const saturday = addDays(now, (6 - now.getDay() + 7) % 7);
+      const sunday = addDays(now, daysUntilSunday);
+      return {
+        fromDate: now > startOfDay(saturday) ? now : startOfDay(saturday),
+        toDate: endOfDay(sunday),
+      };
+    }
+    case "来週": {
+      const nextMonday = addDays(now, daysUntilSunday + 1);
+      return {
+        fromDate: startOfDay(nextMonday),
+        toDate: endOfDay(addDays(nextMonday, 6)),
+      };
+    }
+    case "今月":
+      return {
+        fromDate: now,
+        toDate: endOfDay(new Date(now.getFullYear(), now.getMonth() + 1, 0)),
+      };
+    case "来月":
+      return {
+        fromDate: new Date(now.getFullYear(), now.getMonth() + 1, 1),
+        toDate: endOfDay(new Date(now.getFullYear(), now.getMonth() + 2, 0)),
+      };
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,277 @@
+/**
+ * 取り込み元をまたいだ重複イベントの判定
+ * 同じ勉強会が Connpass と TechPlay などに掲載されている場合に、
+ * タイトル・開始日時・会場・詳細URLの近さから同じイベントのまとまり（クラスタ）を作る
+ */
+
+// 重複の判定に使うイベントの項目
+export interface DedupCandidate {
+  id: string;
+  source: string | null; // 手動で登録したイベントは null
+  sources: string[]; // 統合済みのイベントを含む取り込み元（同じ取り込み元のイベントどうしは統合しない）
+  title: string;
+  eventDate: Date;
+  venue: string;
+  detailUrl: string | null;
+  createdAt: Date;
+  isCanonical: boolean; // 他のイベントが統合済みの代表のイベントか
+}
+
+// 重複と判定したイベントのまとまり
+export interface DuplicateCluster {
+  canonicalId: string; // 代表のイベント
+  duplicateIds: string[]; // 代表のイベントに統合するイベント
+  score: number; // まとまりの中で最も低い組の類似度
+}
+
+// 開始日時が同じとみなす差（取り込み元によって開始時刻の精度が異なるため幅を持たせる）
+const START_TIME_TOLERANCE_MS = 30 * 60 * 1000;
+// 比較する開催日の範囲（これより離れたイベントは比較しない）
+const MAX_DATE_DIFF_MS = 24 * 60 * 60 * 1000;
+// タイトルのみで重複と判定する類似度
+const TITLE_ONLY_THRESHOLD = 0.9;
+// 開始日時または会場が一致する場合に重複と判定するタイトルの類似度
+const TITLE_THRESHOLD = 0.7;
+// 会場が一致するとみなす類似度
+const VENUE_THRESHOLD = 0.6;
+
+// 代表のイベントを選ぶ際の取り込み元の優先順（手動で登録したイベントを最優先）
+const SOURCE_PRIORITY = ["connpass", "techplay", "supporterz"];
+
+// タイトルの比較で無視する記号・空白
+const IGNORED_CHARS =
+  /[\s!-/:-@[-`{-~、。・「」『』（）［］【】〈〉《》〔〕…〜～！？：；，．｜]/g;
+// タイトルの比較で無視する隅付き括弧の注記（例: 【オンライン】）
+const BRACKET_NOTE = /【[^】]*】|［[^］]*］/g;
+// オンライン開催を表す会場名
+const ONLINE_VENUE = /online|オンライン|zoom|youtube|teams|discord/;
+
+/**
+ * 比較用に文字列を正規化する（全角・半角の統一、小文字化、記号・空白の除去）
+ * @param text 文字列
+ * @returns 正規化した文字列
+ */
+const normalizeText = (text: string) =>
+  text.normalize("NFKC").toLowerCase().replace(IGNORED_CHARS, "");
+
+/**
+ * 比較用にタイトルを正規化する
+ * 取り込み元ごとに付けられる【】の注記は除く（注記のみのタイトルは注記を残す）
+ * @param title タイトル
+ * @returns 正規化したタイトル
+ */
+export const normalizeTitle = (title: string) => {
+  const normalized = normalizeText(title.replace(BRACKET_NOTE, ""));
+  return normalized || normalizeText(title);
+};
+
+/**
+ * 比較用に詳細URLを正規化する（プロトコル・www・クエリ・末尾のスラッシュを除く）
+ * @param url 詳細URL
+ * @returns 正規化したURL（URLでない場合は null）
+ */
+export const normalizeUrl = (url: string | null) => {
+  if (!url) return null;
+  try {
+    const parsed = new URL(url);
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, "");
+    return `${host}${parsed.pathname.replace(/\/+$/, "")}`;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 文字のバイグラムの集合を作る
+ * @param text 正規化した文字列
+ * @returns バイグラムの集合
+ */
+const toBigrams = (text: string) => {
+  const bigrams = new Set<string>();
+  for (let i = 0; i < text.length - 1; i++) {
+    bigrams.add(text.slice(i, i + 2));
+  }
+  return bigrams;
+};
+
+/**
+ * 正規化した文字列どうしの類似度（バイグラムのダイス係数）を計算する
+ * @param a 正規化した文字列
+ * @param b 正規化した文字列
+ * @returns 類似度（0〜1）
+ */
+export const textSimilarity = (a: string, b: string) => {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const bigramsA = toBigrams(a);
+  const bigramsB = toBigrams(b);
+  let shared = 0;
+  bigramsA.forEach((bigram) => {
+    if (bigramsB.has(bigram)) shared++;
+  });
+  return (2 * shared) / (bigramsA.size + bigramsB.size);
+};
+
+/**
+ * 会場の類似度を計算する（どちらもオンラインの場合は一致とみなす）
+ * @param a 会場
+ * @param b 会場
+ * @returns 類似度（0〜1）
+ */
+const venueSimilarity = (a: string, b: string) => {
+  const venueA = normalizeText(a);
+  const venueB = normalizeText(b);
+  if (ONLINE_VENUE.test(venueA) && ONLINE_VENUE.test(venueB)) return 1;
+  return textSimilarity(venueA, venueB);
+};
+
+/**
+ * 日本時間での日付を返す
+ * @param date 日時
+ * @returns 日付（YYYY-MM-DD）
+ */
+const toJstDate = (date: Date) =>
+  new Date(date.getTime() + 9 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+/**
+ * 2つのイベントが同じイベントかを判定し、類似度を返す
+ * - 詳細URLが一致する場合は同じイベント
+ * - 開催日（日本時間）が同じで、タイトルがほぼ一致するか、
+ *   タイトルが似ていて開始日時または会場が一致する場合は同じイベント
+ * @param a イベント
+ * @param b イベント
+ * @returns 類似度（同じイベントでない場合は null）
+ */
+export const scoreDuplicate = (
+  a: DedupCandidate,
+  b: DedupCandidate
+): number | null => {
+  const urlA = normalizeUrl(a.detailUrl);
+  if (urlA && urlA === normalizeUrl(b.detailUrl)) return 2;
+
+  if (toJstDate(a.eventDate) !== toJstDate(b.eventDate)) return null;
+
+  const titleSim = textSimilarity(
+    normalizeTitle(a.title),
+    normalizeTitle(b.title)
+  );
+  if (titleSim < TITLE_THRESHOLD) return null;
+
+  const timeMatches =
+    Math.abs(a.eventDate.getTime() - b.eventDate.getTime()) <=
+    START_TIME_TOLERANCE_MS;
+  const venueSim = venueSimilarity(a.venue, b.venue);
+
+  if (
+    titleSim >= TITLE_ONLY_THRESHOLD ||
+    timeMatches ||
+    venueSim >= VENUE_THRESHOLD
+  ) {
+    return titleSim + (timeMatches ? 0.2 : 0) + 0.2 * venueSim;
+  }
+  return null;
+};
+
+/**
+ * 代表のイベントを選ぶ際の順位（小さいほど優先）を比較する
+ * 統合済みの代表のイベント、取り込み元の優先順、登録の早いものの順に優先する
+ * @param a イベント
+ * @param b イベント
+ * @returns a を優先する場合は負の値
+ */
+const compareCanonical = (a: DedupCandidate, b: DedupCandidate) => {
+  if (a.isCanonical !== b.isCanonical) return a.isCanonical ? -1 : 1;
+
+  const priority = (event: DedupCandidate) =>
+    event.source === null
+      ? -1
+      : SOURCE_PRIORITY.indexOf(event.source) === -1
+      ? SOURCE_PRIORITY.length
+      : SOURCE_PRIORITY.indexOf(event.source);
+  return (
+    priority(a) - priority(b) || a.createdAt.getTime() - b.createdAt.getTime()
+  );
+};
+
+/**
+ * 重複するイベントをまとめる
+ * 開催日の近いイベントどうしを比較し、類似度の高い組から順にまとめる。
+ * 同じ取り込み元のイベント（手動で登録したイベントどうしを含む）は同じまとまりにしない
+ * @param candidates 重複を判定するイベント（統合されていないもの）
+ * @returns 2件以上のイベントを含むまとまり
+ */
+export const clusterDuplicateEvents = (
+  candidates: DedupCandidate[]
+): DuplicateCluster[] => {
+  const events = [...candidates].sort(
+    (a, b) => a.eventDate.getTime() - b.eventDate.getTime()
+  );
+
+  // 開催日の近いイベントの組ごとに類似度を計算する
+  const pairs: { a: number; b: number; score: number }[] = [];
+  for (let i = 0; i < events.length; i++) {
+    for (let j = i + 1; j < events.length; j++) {
+      if (
+        events[j].eventDate.getTime() - events[i].eventDate.getTime() >
+        MAX_DATE_DIFF_MS
+      ) {
+        break;
+      }
+      const score = scoreDuplicate(events[i], events[j]);
+      if (score !== null) pairs.push({ a: i, b: j, score });
+    }
+  }
+  pairs.sort((x, y) => y.score - x.score);
+
+  // 類似度の高い組から順にまとめる（Union-Find）
+  const parent = events.map((_, index) => index);
+  const members = events.map((_, index) => [index]);
+  const minScores = events.map(() => Infinity);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const sourcesOf = (root: number) =>
+    members[root].flatMap((index) => events[index].sources);
+  const isManual = (root: number) =>
+    members[root].some((index) => events[index].source === null);
+
+  for (const { a, b, score } of pairs) {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA === rootB) continue;
+
+    // 同じ取り込み元のイベントを含むまとまりどうしはまとめない
+    const sourcesA = new Set(sourcesOf(rootA));
+    if (
+      sourcesOf(rootB).some((source) => sourcesA.has(source)) ||
+      (isManual(rootA) && isManual(rootB))
+    ) {
+      continue;
+    }
+
+    parent[rootB] = rootA;
+    members[rootA] = members[rootA].concat(members[rootB]);
+    minScores[rootA] = Math.min(minScores[rootA], minScores[rootB], score);
+  }
+
+  const clusters: DuplicateCluster[] = [];
+  events.forEach((_, index) => {
+    if (find(index) !== index || members[index].length < 2) return;
+
+    const [canonical, ...duplicates] = members[index]
+      .map((member) => events[member])
+      .sort(compareCanonical);
+    clusters.push({
+      canonicalId: canonical.id,
+      duplicateIds: duplicates.map((event) => event.id),
+      score: minScores[index],
+    });
+  });
+  return clusters;
+};
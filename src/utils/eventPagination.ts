@@ -0,0 +1,202 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../config/prisma";
+
+/**
+ * イベント一覧のページング・並び替えのユーティリティ関数
+ * カーソルには前のページの最後のイベントIDを使う
+ */
+
+// 1ページの件数のデフォルトと上限
+export const DEFAULT_EVENT_PAGE_LIMIT = 20;
+export const MAX_EVENT_PAGE_LIMIT = 100;
+
+// 並び替えに使える項目（bookmarks はブックマーク数、relevance は全文検索の関連度で q 指定時のみ）
+export const EVENT_SORT_KEYS = [
+  "eventDate",
+  "createdAt",
+  "price",
+  "bookmarks",
+  "relevance",
+] as const;
+export type EventSortKey = (typeof EVENT_SORT_KEYS)[number];
+
+export interface EventPageOptions {
+  limit: number;
+  cursor?: string;
+  sort: EventSortKey;
+  order: Prisma.SortOrder;
+  view: "list" | "full"; // list: 一覧用の軽量な項目のみ, full: すべての項目と関連データ
+}
+
+// 一覧用に返す項目（説明文・キーデータなど容量の大きい項目は含めない）
+export const eventListSelect = {
+  id: true,
+  title: true,
+  eventDate: true,
+  startTime: true,
+  endTime: true,
+  venue: true,
+  location: true,
+  detailUrl: true,
+  image: true,
+  format: true,
+  difficulty: true,
+  price: true,
+  eventType: true,
+  organizationId: true,
+  createdAt: true,
+  Organization: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  EventSkill: true,
+  EventCategory: {
+    include: {
+      Category: true,
+    },
+  },
+  _count: {
+    select: { Bookmark: true },
+  },
+} satisfies Prisma.EventSelect;
+
+// view=full のときに含める関連データ（従来の一覧と同じ）
+export const eventFullInclude = {
+  Organization: true,
+  EventSkill: true,
+  EventSpeaker: {
+    include: {
+      Speaker: true,
+    },
+  },
+  EventCategory: {
+    include: {
+      Category: true,
+    },
+  },
+} satisfies Prisma.EventInclude;
+
+/**
+ * クエリパラメータからページング・並び替えの指定を取り出す
+ * @param query リクエストのクエリパラメータ
+ * @returns ページング・並び替えの指定
+ * @throws 不正な値が指定された場合
+ */
+export const parseEventPageQuery = (query: any): EventPageOptions => {
+  const { limit, cursor, sort, order, view, q } = query;
+
+  let parsedLimit = DEFAULT_EVENT_PAGE_LIMIT;
+  if (limit !== undefined) {
+    parsedLimit = Number(limit);
+    if (
+      !Number.isInteger(parsedLimit) ||
+      parsedLimit < 1 ||
+      parsedLimit > MAX_EVENT_PAGE_LIMIT
+    ) {
+      throw new Error(
+        `limit は1〜${MAX_EVENT_PAGE_LIMIT}の整数で指定してください`
+      );
+    }
+  }
+
+  if (cursor !== undefined && (typeof cursor !== "string" || !cursor)) {
+    throw new Error("cursor が不正です");
+  }
+
+  if (sort !== undefined && !EVENT_SORT_KEYS.includes(sort)) {
+    throw new Error(
+      `sort は ${EVENT_SORT_KEYS.join(", ")} のいずれかを指定してください`
+    );
+  }
+
+  if (sort === "relevance" && !q) {
+    throw new Error("sort=relevance は q（全文検索）と一緒に指定してください");
+  }
+
+  if (order !== undefined && order !== "asc" && order !== "desc") {
+    throw new Error("order は asc または desc を指定してください");
+  }
+
+  if (view !== undefined && view !== "list" && view !== "full") {
+    throw new Error("view は list または full を指定してください");
+  }
+
+  // 全文検索では関連度順をデフォルトにする
+  const sortKey: EventSortKey = sort ?? (q ? "relevance" : "eventDate");
+
+  return {
+    limit: parsedLimit,
+    cursor,
+    sort: sortKey,
+    // 開催日は近い順、それ以外は新しい順・多い順・関連度の高い順をデフォルトにする
+    order: order ?? (sortKey === "eventDate" ? "asc" : "desc"),
+    view: view ?? "list",
+  };
+};
+
+/**
+ * 並び替えの指定を Prisma の orderBy に変換する
+ * 同じ値のイベントがあってもページの境界がずれないよう、最後にIDで並べる
+ * relevance は DB の列ではないため開催日順で代用する（関連度順は eventSearchService で並べる）
+ * @param sort 並び替えの項目
+ * @param order 昇順・降順
+ * @returns orderBy
+ */
+export const buildEventOrderBy = (
+  sort: EventSortKey,
+  order: Prisma.SortOrder
+): Prisma.EventOrderByWithRelationInput[] => {
+  const primary: Prisma.EventOrderByWithRelationInput =
+    sort === "bookmarks"
+      ? { Bookmark: { _count: order } }
+      : sort === "relevance"
+      ? { eventDate: order }
+      : { [sort]: order };
+
+  return [primary, { id: order }];
+};
+
+/**
+ * 条件に合うイベントを1ページ分取得する
+ * @param where 検索条件
+ * @param options ページング・並び替えの指定
+ * @returns イベントとページ情報（総件数・次ページのカーソル）
+ */
+export const findEventPage = async (
+  where: Prisma.EventWhereInput,
+  options: EventPageOptions
+) => {
+  const { limit, cursor, sort, order, view } = options;
+
+  const query = {
+    where,
+    orderBy: buildEventOrderBy(sort, order),
+    // 次のページがあるか判定するため1件多く取得する
+    take: limit + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+  };
+
+  const [rows, total] = await Promise.all([
+    view === "full"
+      ? prisma.event.findMany({ ...query, include: eventFullInclude })
+      : prisma.event.findMany({ ...query, select: eventListSelect }),
+    prisma.event.count({ where }),
+  ]);
+
+  const hasMore = rows.length > limit;
+  const events = hasMore ? rows.slice(0, limit) : rows;
+
+  return {
+    events,
+    pagination: {
+      total,
+      limit,
+      sort,
+      order,
+      hasMore,
+      nextCursor: hasMore ? events[events.length - 1].id : null,
+    },
+  };
+};
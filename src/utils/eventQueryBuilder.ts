@@ -0,0 +1,258 @@
+import { z } from "zod";
+import {
+  DifficultyLevel,
+  EventFormat,
+  EventType,
+  Prisma,
+} from "@prisma/client";
+
+/**
+ * イベントの検索条件を Prisma の where 句に変換するクエリビルダー
+ * 各条件は AND で組み合わせる（同じ条件内の候補のみ OR）
+ * eventController / recommendController / webhookController で共通して使う
+ */
+
+// 空でない文字列の配列
+const stringListSchema = z.array(z.string().trim().min(1)).optional();
+
+// 0以上の整数（クエリパラメータの文字列も受け付ける）
+const priceSchema = z.coerce.number().int().min(0).optional();
+
+export const eventFilterSchema = z
+  .object({
+    keyword: z.string().trim().min(1).optional(), // タイトル・説明文の部分一致
+    categoryIds: stringListSchema,
+    skills: stringListSchema,
+    location: z.string().trim().min(1).optional(), // 開催場所（都道府県名・会場名・住所）の部分一致
+    includeUnknownLocation: z.boolean().default(false), // 開催場所が「不明」のイベントも含めるか
+    fromDate: z.coerce.date().optional(),
+    toDate: z.coerce.date().optional(),
+    format: z.nativeEnum(EventFormat).optional(),
+    difficulty: z.nativeEnum(DifficultyLevel).optional(),
+    eventType: z.nativeEnum(EventType).optional(),
+    minPrice: priceSchema,
+    maxPrice: priceSchema,
+    organizationId: z.string().trim().min(1).optional(),
+    keywords: stringListSchema, // Event.keywords のいずれかを含む
+    keyPhrases: stringListSchema,
+    keySentences: stringListSchema,
+  })
+  .refine(
+    (filter) =>
+      !filter.fromDate || !filter.toDate || filter.fromDate <= filter.toDate,
+    {
+      message: "開始日は終了日以前の日付を指定してください",
+      path: ["fromDate"],
+    }
+  )
+  .refine(
+    (filter) =>
+      filter.minPrice === undefined ||
+      filter.maxPrice === undefined ||
+      filter.minPrice <= filter.maxPrice,
+    {
+      message: "最低価格は最高価格以下の値を指定してください",
+      path: ["minPrice"],
+    }
+  );
+
+// 検証前の検索条件（呼び出し側で組み立てる型）
+export type EventFilterInput = z.input<typeof eventFilterSchema>;
+// 検証済みの検索条件
+export type EventFilter = z.output<typeof eventFilterSchema>;
+
+// イベントタイプの日本語表記（フロントエンドの絞り込みで使用）
+const EVENT_TYPE_LABELS: Record<string, EventType> = {
+  ハッカソン: EventType.HACKATHON,
+  ワークショップ: EventType.WORKSHOP,
+  コンテスト: EventType.CONTEST,
+  LT会: EventType.LIGHTNING_TALK,
+};
+
+// クエリパラメータを配列にする（?skills=a&skills=b と ?skills=a の両方に対応）
+const toList = (value: unknown) =>
+  value === undefined
+    ? undefined
+    : (Array.isArray(value) ? value : [value]).map(String);
+
+// 空文字のクエリパラメータは未指定として扱う
+const toOptional = (value: unknown) =>
+  value === undefined || value === "" ? undefined : value;
+
+/**
+ * zod の検証エラーを表示用のメッセージにする
+ * @param error 検証エラー
+ * @returns 例: "format: Invalid enum value..."
+ */
+export const formatFilterError = (error: z.ZodError) =>
+  error.issues
+    .map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message
+    )
+    .join(", ");
+
+/**
+ * 検索条件を検証する
+ * @param input 検索条件
+ * @returns 検証済みの検索条件
+ * @throws 不正な値が含まれる場合
+ */
+export const parseEventFilter = (input: EventFilterInput): EventFilter => {
+  const result = eventFilterSchema.safeParse(input);
+  if (!result.success) {
+    throw new Error(`検索条件が不正です（${formatFilterError(result.error)}）`);
+  }
+  return result.data;
+};
+
+/**
+ * クエリパラメータから検索条件を取り出して検証する
+ * 従来のパラメータ名（startDate / endDate / categories、日本語のイベントタイプ）も受け付ける
+ * @param query リクエストのクエリパラメータ
+ * @returns 検証済みの検索条件
+ * @throws 不正な値が含まれる場合
+ */
+export const parseEventFilterQuery = (query: any): EventFilter => {
+  const eventType = toOptional(query.eventType);
+
+  return parseEventFilter({
+    keyword: toOptional(query.keyword),
+    categoryIds: toList(query.categoryIds ?? query.categories),
+    skills: toList(query.skills),
+    location: toOptional(query.location),
+    fromDate: toOptional(query.fromDate ?? query.startDate),
+    toDate: toOptional(query.toDate ?? query.endDate),
+    format: toOptional(query.format),
+    difficulty: toOptional(query.difficulty),
+    eventType:
+      eventType === "すべて"
+        ? undefined
+        : EVENT_TYPE_LABELS[eventType as string] ?? eventType,
+    minPrice: toOptional(query.minPrice),
+    maxPrice: toOptional(query.maxPrice),
+    organizationId: toOptional(query.organizationId),
+    keywords: toList(query.keywords),
+    keyPhrases: toList(query.keyPhrases),
+    keySentences: toList(query.keySentences),
+  } as EventFilterInput);
+};
+
+/**
+ * ユーザーの居住地から検索条件を作る
+ * 居住地が "online" の場合はオンライン開催のイベントに絞り込む
+ * @param place ユーザーの居住地
+ * @returns 検索条件（開催場所が「不明」のイベントも含める）
+ */
+export const buildUserPlaceFilter = (
+  place?: string | null
+): EventFilterInput => {
+  const locationRaw = (place || "").toString();
+  if (!locationRaw) return {};
+  if (locationRaw.toLowerCase() === "online") {
+    return { format: EventFormat.ONLINE };
+  }
+  return { location: locationRaw, includeUnknownLocation: true };
+};
+
+/**
+ * buildEventWhere で作成した where 句に、統合されたイベントの除外以外の検索条件があるかを判定する
+ * @param where where 句
+ * @returns 検索条件がある場合は true
+ */
+export const hasEventFilterConditions = (where: Prisma.EventWhereInput) =>
+  Object.keys(where).some((key) => key !== "mergedIntoId");
+
+/**
+ * 検証済みの検索条件を Prisma の where 句に変換する
+ * @param filter 検証済みの検索条件
+ * @returns where 句
+ */
+export const buildEventWhere = (
+  filter: EventFilter
+): Prisma.EventWhereInput => {
+  const conditions: Prisma.EventWhereInput[] = [];
+
+  // キーワード（タイトルまたは説明文）
+  if (filter.keyword) {
+    conditions.push({
+      OR: [
+        { title: { contains: filter.keyword, mode: "insensitive" } },
+        { description: { contains: filter.keyword, mode: "insensitive" } },
+      ],
+    });
+  }
+
+  // 開催場所（都道府県名・会場名・住所のいずれか）
+  if (filter.location) {
+    const locationConditions: Prisma.EventWhereInput[] = [
+      { location: { contains: filter.location, mode: "insensitive" } },
+      { venue: { contains: filter.location, mode: "insensitive" } },
+      { address: { contains: filter.location, mode: "insensitive" } },
+    ];
+    if (filter.includeUnknownLocation) {
+      locationConditions.push({ location: "不明" });
+    }
+    conditions.push({ OR: locationConditions });
+  }
+
+  // 開催日の範囲
+  if (filter.fromDate || filter.toDate) {
+    conditions.push({
+      eventDate: {
+        ...(filter.fromDate ? { gte: filter.fromDate } : {}),
+        ...(filter.toDate ? { lte: filter.toDate } : {}),
+      },
+    });
+  }
+
+  // カテゴリ（いずれかに該当）
+  if (filter.categoryIds && filter.categoryIds.length > 0) {
+    conditions.push({
+      EventCategory: { some: { categoryId: { in: filter.categoryIds } } },
+    });
+  }
+
+  // スキル（いずれかに該当）
+  if (filter.skills && filter.skills.length > 0) {
+    conditions.push({
+      EventSkill: { some: { name: { in: filter.skills } } },
+    });
+  }
+
+  if (filter.format) conditions.push({ format: filter.format });
+  if (filter.difficulty) conditions.push({ difficulty: filter.difficulty });
+  if (filter.eventType) conditions.push({ eventType: filter.eventType });
+
+  // 参加費の範囲
+  if (filter.minPrice !== undefined || filter.maxPrice !== undefined) {
+    conditions.push({
+      price: {
+        ...(filter.minPrice !== undefined ? { gte: filter.minPrice } : {}),
+        ...(filter.maxPrice !== undefined ? { lte: filter.maxPrice } : {}),
+      },
+    });
+  }
+
+  if (filter.organizationId) {
+    conditions.push({ organizationId: filter.organizationId });
+  }
+
+  // キーデータ（いずれかを含む）
+  if (filter.keywords && filter.keywords.length > 0) {
+    conditions.push({ keywords: { hasSome: filter.keywords } });
+  }
+  if (filter.keyPhrases && filter.keyPhrases.length > 0) {
+    conditions.push({ keyPhrases: { hasSome: filter.keyPhrases } });
+  }
+  if (filter.keySentences && filter.keySentences.length > 0) {
+    conditions.push({ keySentences: { hasSome: filter.keySentences } });
+  }
+
+  // 重複として他のイベントに統合されたイベントは除く
+  return {
+    mergedIntoId: null,
+    ...(conditions.length > 0 ? { AND: conditions } : {}),
+  };
+};
@@ -1,7 +1,3 @@
-import { ChatOpenAI } from "@langchain/openai";
-import { OpenAIEmbeddings } from "@langchain/openai";
-import { MemoryVectorStore } from "langchain/vectorstores/memory";
-import { Document } from "langchain/document";
 import {
   RunnableSequence,
   RunnablePassthrough,
@@ -13,129 +9,39 @@ import {
   StructuredOutputParser,
 } from "@langchain/core/output_parsers";
 import { z } from "zod";
-import { getAllEvents } from "./eventUtils";
 import prisma from "../config/prisma";
+import {
+  findSimilarEventIds,
+  refreshEventEmbeddings,
+} from "../services/eventEmbeddingService";
+import { getChatModel } from "../services/llmClient";
+
+// 類似度のしきい値（text-embedding-3-small のコサイン類似度は ada-002 より低めに出るため低く設定）
+const SIMILARITY_THRESHOLD = 0.35;
 
-// 埋め込みモデルの初期化
-const embeddings = new OpenAIEmbeddings();
+// 1つのクエリで取得する候補の件数
+const RETRIEVAL_LIMIT = 50;
 
 /**
- * ベクトルストアを初期化する関数
- * @param events ベクトルストアに格納するイベントのリスト
- * @returns 初期化されたベクトルストア
+ * 検索対象のイベントの埋め込みを準備する
+ * 保存済みの埋め込みを再利用し、未計算または内容が変わったイベントのみ計算する
+ * @param events 検索対象のイベントのリスト（未指定の場合はすべてのイベントが対象）
+ * @returns 検索対象のイベントID（すべてのイベントが対象の場合は undefined）
  */
-const initVectorStore = async (
-  events?: Array<{
-    id: string;
-    title: string;
-    venue?: string | null;
-    address?: string | null;
-    eventDate?: Date | string | null;
-    description?: string | null;
-    detailUrl?: string | null;
-    [key: string]: any; // その他のプロパティを許容
-  }>
-): Promise<MemoryVectorStore> => {
-  // 指定されたイベントリストがあれば、それを使用
-  if (events && events.length > 0) {
-    console.log(
-      `指定された${events.length}件のイベントでベクトルストアを初期化します`
-    );
-
-    // イベントからドキュメントを生成
-    const docs = events.map((event) => {
-      // 必要なフィールドを安全に取得
-      const venue = event.venue || "";
-      const address = event.address || "";
-      const location = venue + (address ? ` (${address})` : "");
-      const eventDate = event.eventDate
-        ? typeof event.eventDate === "string"
-          ? event.eventDate
-          : new Date(event.eventDate).toISOString().split("T")[0]
-        : "";
-      const detailUrl = event.detailUrl || "";
-
-      // ドキュメントを作成（タイトル、詳細URL、概要のみをベクトル化）
-      return new Document({
-        pageContent: `タイトル: ${event.title}
-            詳細URL: ${detailUrl}
-            概要: ${event.description || ""}`,
-        metadata: {
-          id: event.id,
-          title: event.title,
-          location: location,
-          eventDate: eventDate,
-          detailUrl: detailUrl,
-        },
-      });
-    });
-
-    // ドキュメントがない場合は空のベクトルストアを返す
-    if (docs.length === 0) {
-      console.log("ドキュメントがありません。空のベクトルストアを返します。");
-      return new MemoryVectorStore(embeddings);
-    }
-
-    // ベクトルストアの作成
-    console.log(`${docs.length}件のドキュメントからベクトルストアを作成します`);
-    return await MemoryVectorStore.fromDocuments(docs, embeddings);
+const prepareEventEmbeddings = async (
+  events?: Array<{ id: string }>
+): Promise<string[] | undefined> => {
+  if (!events || events.length === 0) {
+    console.log("イベントが指定されていないため、すべてのイベントを検索します");
+    return undefined;
   }
 
-  // イベントが指定されていない場合は、DBから全イベントを取得
-  try {
-    console.log("イベントが指定されていないため、DBから全イベントを取得します");
-    const dbEvents = await getAllEvents();
-    console.log(`DBから${dbEvents.length}件のイベントを取得しました`);
-
-    // DBから取得したイベントからドキュメントを生成
-    const docs = dbEvents.map((event) => {
-      // 必要なフィールドを安全に取得
-      const venue = event.venue || "";
-      const address = event.address || "";
-      const location = venue + (address ? ` (${address})` : "");
-      const eventDate = event.eventDate
-        ? new Date(event.eventDate).toISOString().split("T")[0]
-        : "";
-      const detailUrl = event.detailUrl || "";
-
-      return new Document({
-        pageContent: `タイトル: ${event.title}
-開催地: ${location}
-開催日: ${eventDate}
-詳細URL: ${detailUrl}
-概要: ${event.description || ""}`,
-        metadata: {
-          id: event.id,
-          title: event.title,
-          location: location,
-          eventDate: eventDate,
-          detailUrl: detailUrl,
-        },
-      });
-    });
-
-    const tempVectorStore = await MemoryVectorStore.fromDocuments(
-      docs,
-      embeddings
-    );
-    console.log(
-      `Prismaから${docs.length}件のイベントでベクトルストアを初期化しました`
-    );
-
-    // ベクトルストアを返す
-    return tempVectorStore;
-  } catch (error) {
-    console.error("Prismaからのイベント取得に失敗しました:", error);
-    // 空のベクトルストアを作成
-    const emptyVectorStore = await MemoryVectorStore.fromDocuments(
-      [],
-      embeddings
-    );
-    console.warn("空のベクトルストアを初期化しました");
-
-    // 空のベクトルストアを返す
-    return emptyVectorStore;
-  }
+  const eventIds = events.map((event) => event.id);
+  const updated = await refreshEventEmbeddings(eventIds);
+  console.log(
+    `指定された${eventIds.length}件のイベントを検索します（埋め込みを${updated}件計算）`
+  );
+  return eventIds;
 };
 
 // HyDEのフォーマット用プロンプト
@@ -241,13 +147,10 @@ export const hydeEventsForUser = async (
 
   // イベントリストに基づいてベクトルストアを初期化
   console.log(`イベント指定: ${events ? `${events.length}件` : "なし"}`);
-  const tempVectorStore = await initVectorStore(events);
+  const targetEventIds = await prepareEventEmbeddings(events);
 
   // LLMの初期化
-  const llm = new ChatOpenAI({
-    modelName: "gpt-3.5-turbo",
-    temperature: 0.7,
-  });
+  const llm = getChatModel("hydeQuery");
 
   // HyDEチェーン: ユーザー情報からクエリを生成
   const hydeChain = RunnableSequence.from([
@@ -259,28 +162,35 @@ export const hydeEventsForUser = async (
   // 検索チェーン: HyDEクエリで最近傍探索
   const retrievalChain = async (query: string) => {
     try {
-      // 類似度スコア付きで検索結果を取得
-      const resultsWithScores = await tempVectorStore.similaritySearchWithScore(
-        query,
-        50
-      );
-
-      // 類似度しきい値を設定（低めに設定してより多くのイベントをマッチさせる）
-      const SIMILARITY_THRESHOLD = 0.8;
+      // 類似度付きで検索結果を取得
+      const resultsWithScores = await findSimilarEventIds(query, {
+        limit: RETRIEVAL_LIMIT,
+        eventIds: targetEventIds,
+      });
 
       // しきい値を超える結果のみをフィルタリング
-      const filteredResults = resultsWithScores.filter(([doc, score]) => {
-        return score >= SIMILARITY_THRESHOLD;
-      });
+      const filteredResults = resultsWithScores.filter(
+        (result) => result.similarity >= SIMILARITY_THRESHOLD
+      );
 
       console.log(
         `検索結果: 合計${resultsWithScores.length}件、しきい値(${SIMILARITY_THRESHOLD})以上: ${filteredResults.length}件`
       );
 
+      // 地域での絞り込み用に開催場所を取得
+      const details = await prisma.event.findMany({
+        where: { id: { in: filteredResults.map((result) => result.id) } },
+        select: { id: true, title: true, venue: true, address: true },
+      });
+      const detailMap = new Map(details.map((event) => [event.id, event]));
+
       // 地域によるフィルタリング
       const userPlace = user.place || "";
-      const filteredByLocation = filteredResults.filter(([doc, score]) => {
-        const eventLocation = doc.metadata.location || "";
+      const filteredByLocation = filteredResults.filter((result) => {
+        const detail = detailMap.get(result.id);
+        const venue = detail?.venue || "";
+        const address = detail?.address || "";
+        const eventLocation = venue + (address ? ` (${address})` : "");
 
         // ユーザーの居住地に近いか、オンラインイベントのみを残す
         return (
@@ -298,11 +208,13 @@ export const hydeEventsForUser = async (
       );
 
       // 結果からイベントIDのリストだけを返す
-      const resultEventIds = filteredByLocation.map(([doc, score]) => {
+      const resultEventIds = filteredByLocation.map((result) => {
         console.log(
-          `イベント「${doc.metadata.title}」の類似度スコア: ${score}`
+          `イベント「${detailMap.get(result.id)?.title}」の類似度スコア: ${
+            result.similarity
+          }`
         );
-        return doc.metadata.id;
+        return result.id;
       });
 
       return resultEventIds;
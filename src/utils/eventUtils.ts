@@ -1,6 +1,12 @@
 import prisma from "../config/prisma";
 import { extractEventKeyData } from "./extractEventKeyData";
 import crypto from "crypto";
+import {
+  buildEventWhere,
+  EventFilterInput,
+  parseEventFilter,
+} from "./eventQueryBuilder";
+import { indexEvents } from "../services/eventIndexService";
 import {
   Event,
   Category,
@@ -40,6 +46,7 @@ export const getAllEvents = async (includeRelations: boolean = true) => {
     // Prismaでイベントを全件取得
     const events = await prisma.event.findMany({
       include,
+      where: { mergedIntoId: null }, // 重複として統合されたイベントは除く
       orderBy: {
         eventDate: "asc",
       },
@@ -99,98 +106,17 @@ export const getEventById = async (
 
 /**
  * 条件に基づいてイベントをフィルタリングする
+ * レコメンドの候補を取得するため、開催場所を指定した場合も「不明」のイベントを含める
  * @param options フィルタリングオプション
  * @returns フィルタリングされたイベントの配列
+ * @throws 不正な条件が指定された場合
  */
-export const getFilteredEvents = async (options: {
-  categoryIds?: string[];
-  skills?: string[];
-  location?: string;
-  fromDate?: Date;
-  toDate?: Date;
-  format?: string;
-  difficulty?: string;
-  searchTerm?: string;
-}) => {
+export const getFilteredEvents = async (options: EventFilterInput) => {
   try {
     // 検索条件を構築
-    const where: any = {};
-
-    // カテゴリでフィルタリング
-    if (options.categoryIds && options.categoryIds.length > 0) {
-      where.EventCategory = {
-        some: {
-          CategoryId: {
-            in: options.categoryIds,
-          },
-        },
-      };
-    }
-
-    // スキルでフィルタリング
-    if (options.skills && options.skills.length > 0) {
-      where.EventSkill = {
-        some: {
-          name: {
-            in: options.skills,
-          },
-        },
-      };
-    }
-
-    // 場所でフィルタリング
-    if (options.location) {
-      where.OR = [
-        {
-          location: {
-            contains: options.location,
-            mode: "insensitive",
-          },
-        },
-        {
-          location: "不明",
-        },
-      ];
-    }
-
-    // 日付範囲でフィルタリング
-    if (options.fromDate || options.toDate) {
-      where.eventDate = {};
-      if (options.fromDate) {
-        where.eventDate.gte = options.fromDate;
-      }
-      if (options.toDate) {
-        where.eventDate.lte = options.toDate;
-      }
-    }
-
-    // 形式でフィルタリング
-    if (options.format) {
-      where.format = options.format;
-    }
-
-    // 難易度でフィルタリング
-    if (options.difficulty) {
-      where.difficulty = options.difficulty;
-    }
-
-    // キーワード検索
-    if (options.searchTerm) {
-      where.OR = [
-        {
-          title: {
-            contains: options.searchTerm,
-            mode: "insensitive",
-          },
-        },
-        {
-          description: {
-            contains: options.searchTerm,
-            mode: "insensitive",
-          },
-        },
-      ];
-    }
+    const where = buildEventWhere(
+      parseEventFilter({ includeUnknownLocation: true, ...options })
+    );
 
     // Prismaでイベントを検索
     const events = await prisma.event.findMany({
@@ -266,6 +192,7 @@ export const saveOrUpdateEvents = async (events: Event[]): Promise<Event[]> => {
               address: event.address,
               location: event.location,
               detailUrl: event.detailUrl,
+              organizationId: event.organizationId ?? undefined,
               updatedAt: new Date(),
               format: event.format,
               difficulty: event.difficulty,
@@ -297,6 +224,9 @@ export const saveOrUpdateEvents = async (events: Event[]): Promise<Event[]> => {
     });
 
     console.log(`${savedEvents.length}件のイベントを保存または更新しました`);
+
+    // 全文検索用テキスト・埋め込みベクトルを更新
+    await indexEvents(savedEvents.map((event) => event.id));
     return savedEvents;
   } catch (error) {
     console.error("イベント保存エラー:", error);
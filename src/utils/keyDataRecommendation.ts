@@ -1,3 +1,4 @@
+import { DifficultyLevel, EventFormat, GoalType } from "@prisma/client";
 import {
   computeInterestWeightsFlexible,
   fuseRankings,
@@ -6,6 +7,11 @@ import {
   ScoredEvent,
   filterEventsWithLLM,
 } from "./ragUtils";
+import {
+  computePreferenceRanking,
+  filterEventsByConstraints,
+  RecommendationConstraints,
+} from "./recommendationConstraints";
 
 // イベント型（最低限 id, keyPhrases, keySentences があれば OK）
 export interface EventKeyData {
@@ -14,6 +20,13 @@ export interface EventKeyData {
   detail: string; // 詳細説明（長文可）
   keyPhrases: string[];
   keySentences: string[];
+  // 制約・優先条件の判定に使う項目（recommendationConstraints）
+  difficulty?: DifficultyLevel;
+  price?: number;
+  format?: EventFormat;
+  goals?: GoalType[];
+  skills?: string[];
+  organizationId?: string | null; // 同じ主催者のイベントの件数を制限するために使う
   // その他のフィールドは許容
   [key: string]: any;
 }
@@ -23,6 +36,18 @@ export interface RecommendationOptions {
   fuseMethods?: FuseMethod[]; // default ["weighted"]
   similarityThreshold?: number; // default 0.35
   topN?: number; // default 5
+  useLLMFilter?: boolean; // default true（false の場合は LLM による絞り込みを行わない）
+  /**
+   * 共起ブックマークによるランキング（coBookmarkService）。
+   * 指定した場合はキーフレーズ・キーセンテンスのランキングと一緒に融合する。
+   */
+  collaborativeRanking?: ScoredEvent[];
+  /**
+   * レベル・目標・参加費・開催形式・スキルによる制約と優先条件（検証済み）。
+   * 必須条件に合わないイベントは候補から除き、優先条件のランキングを融合に加える。
+   */
+  constraints?: RecommendationConstraints;
+  maxPerOrganizer?: number; // default 0（同じ主催者・シリーズの件数を制限しない）
 }
 
 export interface RecommendedEvent {
@@ -35,28 +60,104 @@ export interface RecommendedEvent {
   reason?: string;
 }
 
+export interface KeyDataRecommendationResult {
+  candidates: RecommendedEvent[]; // LLM で絞り込む前の候補（スコア付き）
+  recommendations: RecommendedEvent[]; // LLM で絞り込んだ推薦結果（推薦理由付き）
+}
+
 /**
- * keyPhrases と keySentences を用いてイベント推薦を行う関数
- * オリジナル scripts/similarityTest.ts のロジックを流用し、
- *   - キーワード → keyPhrases
- *   - スクリプト → 関数 API
- * に変更。
+ * DBのイベント（getFilteredEvents の結果）をレコメンド用の形式に変換する
+ * @param events イベント（EventGoal / EventSkill を含む）
+ * @returns レコメンド用のイベント
+ */
+export const toEventKeyData = (events: any[]): EventKeyData[] =>
+  events.map((ev: any) => ({
+    id: ev.id,
+    title: ev.title,
+    detail: ev.detail,
+    keyPhrases: ev.keyPhrases || [],
+    keySentences: ev.keySentences || [],
+    difficulty: ev.difficulty,
+    price: ev.price,
+    format: ev.format,
+    goals: (ev.EventGoal || []).map((goal: any) => goal.goalType),
+    skills: (ev.EventSkill || []).map((skill: any) => skill.name),
+    organizationId: ev.organizationId,
+  }));
+
+/**
+ * 同じ主催者またはシリーズのイベントを判別するキーを作る
+ * 主催団体があれば団体、なければ回数・括弧書きを除いたタイトルが同じものを同じシリーズとみなす
+ * @param event イベント
+ * @returns キー
+ */
+const getEventSeriesKey = (event: EventKeyData) => {
+  if (event.organizationId) return `organization:${event.organizationId}`;
+  const title = (event.title || "")
+    .replace(/【[^】]*】|\[[^\]]*\]/g, "")
+    .replace(/第\s*\d+\s*回|vol\.?\s*\d+|[#＃]\s*\d+|\d+/gi, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+  return title ? `title:${title}` : `event:${event.id}`;
+};
+
+/**
+ * 同じ主催者・シリーズのイベントが上位を占めないよう、件数を制限する
+ * @param ranked スコア順のイベント
+ * @param eventMap イベントIDとイベントの対応
+ * @param maxPerOrganizer 主催者・シリーズごとの上限（0 の場合は制限しない）
+ * @returns 上限を超えたイベントを除いたランキング
+ */
+const limitEventsPerOrganizer = (
+  ranked: ScoredEvent[],
+  eventMap: Map<string, EventKeyData>,
+  maxPerOrganizer: number
+) => {
+  if (maxPerOrganizer <= 0) return ranked;
+  const counts = new Map<string, number>();
+  return ranked.filter((item) => {
+    const event = eventMap.get(item.id);
+    if (!event) return true;
+    const key = getEventSeriesKey(event);
+    const count = counts.get(key) || 0;
+    if (count >= maxPerOrganizer) return false;
+    counts.set(key, count + 1);
+    return true;
+  });
+};
+
+/**
+ * keyPhrases と keySentences を用いてイベント推薦を行い、候補と推薦結果の両方を返す
+ * 推薦結果を保存する場合（recommendationService）に使う
  * @param userTag  ユーザーの興味・目標などを 1 文で記述したテキスト
- * @param events   keyPhrases / keySentences を含むイベント配列
+ * @param allEvents keyPhrases / keySentences を含むイベント配列（制約の適用前）
  * @param opts     オプション設定
- * @returns        推薦イベント (TopN) の配列（設定毎）
+ * @returns        候補と推薦イベント (TopN) の配列（設定毎）
  */
-export const recommendEventsWithKeyData = async (
+export const runKeyDataRecommendation = async (
   userTag: string,
-  events: EventKeyData[],
+  allEvents: EventKeyData[],
   opts: RecommendationOptions = {}
-): Promise<RecommendedEvent[]> => {
+): Promise<KeyDataRecommendationResult> => {
   // ===== オプション解決 =====
   // 引数で明示されない場合は 1 通りのみ実行する（デフォルト: concat + weighted）
   const interestModes = opts.interestModes ?? ["concat"];
   const fuseMethods = opts.fuseMethods ?? ["weighted"];
   const similarityThreshold = opts.similarityThreshold ?? 0.35;
   const topN = opts.topN ?? 5;
+  const useLLMFilter = opts.useLLMFilter ?? true;
+  const collaborativeRanking = opts.collaborativeRanking ?? [];
+  const maxPerOrganizer = opts.maxPerOrganizer ?? 0;
+
+  // 必須条件で候補を絞り込む
+  const events = opts.constraints
+    ? filterEventsByConstraints(allEvents, opts.constraints)
+    : allEvents;
+  const preferenceRanking = opts.constraints
+    ? computePreferenceRanking(events, opts.constraints)
+    : [];
+  const eventMap = new Map(events.map((ev) => [ev.id, ev]));
 
   console.log("=== レコメンデーション開始 ===");
   console.log(`ユーザータグ: ${userTag}`);
@@ -66,7 +167,11 @@ export const recommendEventsWithKeyData = async (
       ", "
     )}`
   );
-  console.log(`イベント数: ${events.length}`);
+  console.log(
+    `イベント数: ${allEvents.length} → 制約の適用後: ${events.length}`
+  );
+  console.log(`共起ブックマークのランキング: ${collaborativeRanking.length}件`);
+  console.log(`優先条件のランキング: ${preferenceRanking.length}件`);
 
   // keyPhrases / keySentences を EventElement 形式に変換
   const phraseEvents = events.map((ev) => ({
@@ -120,6 +225,8 @@ export const recommendEventsWithKeyData = async (
       const fused: ScoredEvent[] = fuseRankings(fMethod, [
         phraseRank,
         sentenceRank,
+        ...(collaborativeRanking.length > 0 ? [collaborativeRanking] : []),
+        ...(preferenceRanking.length > 0 ? [preferenceRanking] : []),
       ]);
 
       // 融合結果のデバッグ出力
@@ -144,12 +251,26 @@ export const recommendEventsWithKeyData = async (
         `  フィルタ前: ${fused.length}件 → フィルタ後: ${strictCandidates.length}件`
       );
 
-      const top = strictCandidates.slice(0, topN);
+      // 同じ主催者・シリーズのイベントは maxPerOrganizer 件まで
+      const diversified = limitEventsPerOrganizer(
+        strictCandidates,
+        eventMap,
+        maxPerOrganizer
+      );
+      if (diversified.length < strictCandidates.length) {
+        console.log(
+          `  主催者ごとの上限 (${maxPerOrganizer}件) により ${
+            strictCandidates.length - diversified.length
+          }件を除外`
+        );
+      }
+
+      const top = diversified.slice(0, topN);
       const label = `[mode:${iMode}][fuse:${fMethod}]`;
 
       // 結果を整形
       for (const evScore of top) {
-        const evObj = events.find((ev) => ev.id === evScore.id);
+        const evObj = eventMap.get(evScore.id);
         if (evObj) {
           results.push({ event: evObj, score: evScore.score, label });
         }
@@ -166,6 +287,11 @@ export const recommendEventsWithKeyData = async (
     }
   }
 
+  // オフライン評価など、類似度のみのランキングを見る場合は LLM を呼ばない
+  if (!useLLMFilter) {
+    return { candidates: results, recommendations: results };
+  }
+
   // LLMによる最終フィルタリング
   console.log("\n=== LLMによる最終フィルタリング開始 ===");
   const filteredResults = await filterEventsWithLLM(userTag, results);
@@ -174,5 +300,23 @@ export const recommendEventsWithKeyData = async (
     `  フィルタ前: ${results.length}件 → フィルタ後: ${filteredResults.length}件`
   );
 
-  return filteredResults;
+  return { candidates: results, recommendations: filteredResults };
 };
+
+/**
+ * keyPhrases と keySentences を用いてイベント推薦を行う関数
+ * オリジナル scripts/similarityTest.ts のロジックを流用し、
+ *   - キーワード → keyPhrases
+ *   - スクリプト → 関数 API
+ * に変更。
+ * @param userTag  ユーザーの興味・目標などを 1 文で記述したテキスト
+ * @param events   keyPhrases / keySentences を含むイベント配列
+ * @param opts     オプション設定
+ * @returns        推薦イベント (TopN) の配列（設定毎）
+ */
+export const recommendEventsWithKeyData = async (
+  userTag: string,
+  events: EventKeyData[],
+  opts: RecommendationOptions = {}
+): Promise<RecommendedEvent[]> =>
+  (await runKeyDataRecommendation(userTag, events, opts)).recommendations;
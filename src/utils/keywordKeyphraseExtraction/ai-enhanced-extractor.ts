@@ -1,4 +1,4 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { getChatModel, messageContentToText } from "../../services/llmClient";
 
 // AI強化設定インターフェース
 interface AIEnhancementConfig {
@@ -37,20 +37,6 @@ const DEFAULT_CONFIG: AIEnhancementConfig = {
 // 簡易キャッシュ実装（本番環境ではRedis等を使用）
 const cache = new Map<string, CacheEntry>();
 
-// Gemini API初期化
-let genAI: GoogleGenerativeAI | null = null;
-
-const initializeGeminiAPI = (): GoogleGenerativeAI => {
-  if (!genAI) {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error("GEMINI_API_KEY環境変数が設定されていません");
-    }
-    genAI = new GoogleGenerativeAI(apiKey);
-  }
-  return genAI;
-};
-
 /**
  * キャッシュからの取得
  */
@@ -129,13 +115,12 @@ const enhanceWithGemini = async (
   try {
     console.log("🤖 Gemini APIでキーフレーズ強化開始...");
 
-    const genAI = initializeGeminiAPI();
-    const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash-exp" });
+    const model = getChatModel("keyDataExtraction");
 
     const prompt = generateEnhancementPrompt(originalText, textRankResults);
 
     // タイムアウト制御
-    const enhancePromise = model.generateContent(prompt);
+    const enhancePromise = model.invoke(prompt);
     const timeoutPromise = new Promise((_, reject) =>
       setTimeout(
         () => reject(new Error("AI API タイムアウト")),
@@ -147,7 +132,7 @@ const enhanceWithGemini = async (
       enhancePromise,
       timeoutPromise,
     ])) as any;
-    const responseText = result.response.text();
+    const responseText = messageContentToText(result.content);
 
     console.log("📝 Gemini API レスポンス受信");
 
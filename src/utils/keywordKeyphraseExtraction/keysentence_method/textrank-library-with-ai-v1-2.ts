@@ -1,7 +1,10 @@
 import dotenv from "dotenv";
 dotenv.config();
 
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import {
+  getChatModel,
+  messageContentToText,
+} from "../../../services/llmClient";
 
 interface KuromojiToken {
   surface_form: string;
@@ -65,7 +68,6 @@ interface TextRankConfig {
 }
 
 let tokenizer: KuromojiTokenizer | null = null;
-let genAI: GoogleGenerativeAI | null = null;
 
 const DEFAULT_CONFIG: TextRankConfig = {
   dampingFactor: 0.85,
@@ -94,17 +96,6 @@ const DEFAULT_AI_SENTENCE_CONFIG: AISentenceConfig = {
   similarityThreshold: 0.8,
 };
 
-const initializeGeminiAPI = (): GoogleGenerativeAI => {
-  if (!genAI) {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error("GEMINI_API_KEY環境変数が設定されていません");
-    }
-    genAI = new GoogleGenerativeAI(apiKey);
-  }
-  return genAI;
-};
-
 const detectSentenceType = (
   sentence: string
 ): "summary" | "technical" | "contextual" | "actionable" => {
@@ -681,8 +672,7 @@ const generateKeySentencesWithGemini = async (
   try {
     console.log("🤖 Gemini APIでキーセンテンス生成開始...");
 
-    const genAI = initializeGeminiAPI();
-    const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash-exp" });
+    const model = getChatModel("keyDataExtraction");
 
     const prompt = generateSentenceRefinementPrompt(
       originalText,
@@ -690,7 +680,7 @@ const generateKeySentencesWithGemini = async (
       config
     );
 
-    const generatePromise = model.generateContent(prompt);
+    const generatePromise = model.invoke(prompt);
     const timeoutPromise = new Promise((_, reject) =>
       setTimeout(
         () => reject(new Error("AI API タイムアウト")),
@@ -702,7 +692,7 @@ const generateKeySentencesWithGemini = async (
       generatePromise,
       timeoutPromise,
     ])) as any;
-    const responseText = result.response.text();
+    const responseText = messageContentToText(result.content);
 
     console.log("📝 Gemini API レスポンス受信");
 
@@ -1,7 +1,10 @@
 import dotenv from "dotenv";
 dotenv.config();
 
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import {
+  getChatModel,
+  messageContentToText,
+} from "../../../services/llmClient";
 
 // 基本インターフェース
 interface KuromojiToken {
@@ -77,7 +80,6 @@ interface TextRankConfig {
 
 // グローバル変数
 let tokenizer: KuromojiTokenizer | null = null;
-let genAI: GoogleGenerativeAI | null = null;
 
 // デフォルト設定
 const DEFAULT_CONFIG: TextRankConfig = {
@@ -109,20 +111,6 @@ const DEFAULT_AI_KEYWORD_CONFIG: AIKeywordConfig = {
   similarityThreshold: 0.8, // 単語レベルなので厳格に
 };
 
-/**
- * Gemini API初期化
- */
-const initializeGeminiAPI = (): GoogleGenerativeAI => {
-  if (!genAI) {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error("GEMINI_API_KEY環境変数が設定されていません");
-    }
-    genAI = new GoogleGenerativeAI(apiKey);
-  }
-  return genAI;
-};
-
 /**
  * キーワードのカテゴリ自動検出
  */
@@ -777,8 +765,7 @@ const refineKeywordsWithGemini = async (
   try {
     console.log("🤖 Gemini APIでキーワード精製開始...");
 
-    const genAI = initializeGeminiAPI();
-    const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash-exp" });
+    const model = getChatModel("keyDataExtraction");
 
     const prompt = generateKeywordRefinementPrompt(
       originalText,
@@ -786,7 +773,7 @@ const refineKeywordsWithGemini = async (
       config
     );
 
-    const refinePromise = model.generateContent(prompt);
+    const refinePromise = model.invoke(prompt);
     const timeoutPromise = new Promise((_, reject) =>
       setTimeout(
         () => reject(new Error("AI API タイムアウト")),
@@ -795,7 +782,7 @@ const refineKeywordsWithGemini = async (
     );
 
     const result = (await Promise.race([refinePromise, timeoutPromise])) as any;
-    const responseText = result.response.text();
+    const responseText = messageContentToText(result.content);
 
     console.log("📝 Gemini API レスポンス受信");
 
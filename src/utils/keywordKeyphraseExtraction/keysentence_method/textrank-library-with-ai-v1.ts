@@ -2,8 +2,11 @@
 import dotenv from "dotenv";
 dotenv.config();
 
-// Gemini APIのimport追加
-import { GoogleGenerativeAI } from "@google/generative-ai";
+// LLMクライアントのimport
+import {
+  getChatModel,
+  messageContentToText,
+} from "../../../services/llmClient";
 
 // kuromoji.jsの型定義（既存ライブラリから流用）
 interface KuromojiToken {
@@ -73,9 +76,8 @@ interface TextRankConfig {
   minSentenceLength: number; // 最小文字数制限
 }
 
-// グローバルにtokenizerとGemini APIを保持（初期化コストを削減）
+// グローバルにtokenizerを保持（初期化コストを削減）
 let tokenizer: KuromojiTokenizer | null = null;
-let genAI: GoogleGenerativeAI | null = null;
 
 // デフォルト設定（日本語最適化）
 const DEFAULT_CONFIG: TextRankConfig = {
@@ -107,20 +109,6 @@ const DEFAULT_AI_CONFIG: AIRefinementConfig = {
   similarityThreshold: 0.75, // 重複判定を少し厳しくして品質維持
 };
 
-/**
- * Gemini API初期化
- */
-const initializeGeminiAPI = (): GoogleGenerativeAI => {
-  if (!genAI) {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error("GEMINI_API_KEY環境変数が設定されていません");
-    }
-    genAI = new GoogleGenerativeAI(apiKey);
-  }
-  return genAI;
-};
-
 /**
  * キーフレーズのカテゴリを自動検出
  */
@@ -777,8 +765,7 @@ const refineWithGemini = async (
   try {
     console.log("🤖 Gemini APIでキーフレーズ精製開始...");
 
-    const genAI = initializeGeminiAPI();
-    const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash-exp" });
+    const model = getChatModel("keyDataExtraction");
 
     const prompt = generateRefinementPrompt(
       originalText,
@@ -787,7 +774,7 @@ const refineWithGemini = async (
     );
 
     // タイムアウト制御
-    const refinePromise = model.generateContent(prompt);
+    const refinePromise = model.invoke(prompt);
     const timeoutPromise = new Promise((_, reject) =>
       setTimeout(
         () => reject(new Error("AI API タイムアウト")),
@@ -796,7 +783,7 @@ const refineWithGemini = async (
     );
 
     const result = (await Promise.race([refinePromise, timeoutPromise])) as any;
-    const responseText = result.response.text();
+    const responseText = messageContentToText(result.content);
 
     console.log("📝 Gemini API レスポンス受信");
 
@@ -1,5 +1,9 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { textrankKeyphraseExtractor } from "./textrank-library";
+import {
+  getChatModel,
+  getLlmTaskConfig,
+  messageContentToText,
+} from "../../../services/llmClient";
 import dotenv from "dotenv";
 dotenv.config();
 
@@ -8,7 +12,6 @@ interface GeminiSummaryConfig {
   maxLength: number; // 最大文字数
   focus: string[]; // 重視する要素
   removeNoise: string[]; // 除外する要素
-  model: string; // 使用モデル
   preserveTechTerms: boolean; // 技術用語強制保持
   structuredOutput: boolean; // 構造化出力
   minSentences: number; // 最小文数
@@ -34,7 +37,6 @@ const DEFAULT_GEMINI_CONFIG: GeminiSummaryConfig = {
     "参加者の感想",
     "詳細なタイムスケジュール",
   ],
-  model: "gemini-2.0-flash-exp",
   preserveTechTerms: true, // 技術用語強制保持を有効
   structuredOutput: true, // 構造化出力を有効
   minSentences: 4, // 最小4文は確保
@@ -49,9 +51,6 @@ const TECH_TERMS_PATTERNS = [
   /プログラミング|コーディング|開発|エンジニア|システム/gi,
 ];
 
-// グローバルにGemini AIインスタンスを保持
-let genAI: GoogleGenerativeAI | null = null;
-
 /**
  * テキストから技術用語を抽出
  */
@@ -69,26 +68,6 @@ const extractTechTerms = (text: string): string[] => {
   return [...new Set(techTerms.map((term) => term.toLowerCase()))];
 };
 
-/**
- * Gemini AIの初期化
- */
-const initializeGeminiAI = (): GoogleGenerativeAI => {
-  if (genAI) {
-    return genAI;
-  }
-
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    throw new Error("GEMINI_API_KEY environment variable is not set");
-  }
-
-  console.log("🚀 Gemini AI を初期化中...");
-  genAI = new GoogleGenerativeAI(apiKey);
-  console.log("✅ Gemini AI 初期化完了");
-
-  return genAI;
-};
-
 /**
  * 改善されたGemini AIを使用したテキスト要約
  */
@@ -115,8 +94,7 @@ const summarizeWithGemini = async (
     const techTerms = extractTechTerms(text);
     console.log(`🔧 検出された技術用語: ${techTerms.join(", ")}`);
 
-    const ai = initializeGeminiAI();
-    const model = ai.getGenerativeModel({ model: config.model });
+    const model = getChatModel("keyDataExtraction");
 
     const structuredPrompt = config.structuredOutput
       ? `
@@ -161,9 +139,8 @@ ${text}
 【要約文】
 `;
 
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    let summary = response.text();
+    const result = await model.invoke(prompt);
+    let summary = messageContentToText(result.content);
 
     if (!summary || summary.trim().length === 0) {
       console.log("⚠️ Gemini API から有効な要約が取得できませんでした");
@@ -209,7 +186,11 @@ export const geminiSummaryToTextRankExtractor = async (
 ): Promise<string[]> => {
   try {
     console.log("\n🎯 改善版 Gemini AI要約 + TextRank キーフレーズ抽出開始");
-    console.log(`📊 処理モード: ${config.model} (精度重視設定)`);
+    console.log(
+      `📊 処理モード: ${
+        getLlmTaskConfig("keyDataExtraction").model
+      } (精度重視設定)`
+    );
 
     if (!text || typeof text !== "string" || text.trim().length === 0) {
       console.log("⚠️ 入力テキストが無効です");
@@ -1,8 +1,11 @@
-// Gemini APIのimport追加
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import dotenv from "dotenv";
 dotenv.config();
 
+import {
+  getChatModel,
+  messageContentToText,
+} from "../../../services/llmClient";
+
 // kuromoji.jsの型定義（既存ライブラリから流用）
 interface KuromojiToken {
   surface_form: string;
@@ -43,9 +46,8 @@ interface TextRankConfig {
   minPhraseLength: number;
 }
 
-// グローバルにtokenizerとGemini AIを保持（初期化コストを削減）
+// グローバルにtokenizerを保持（初期化コストを削減）
 let tokenizer: KuromojiTokenizer | null = null;
-let genAI: GoogleGenerativeAI | null = null;
 
 // デフォルト設定（AI主導型最適化）
 const DEFAULT_CONFIG: TextRankConfig = {
@@ -56,22 +58,6 @@ const DEFAULT_CONFIG: TextRankConfig = {
   minPhraseLength: 2,
 };
 
-/**
- * Gemini API初期化
- */
-const initializeGeminiAI = (): GoogleGenerativeAI => {
-  if (!genAI) {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error("GEMINI_API_KEY環境変数が設定されていません");
-    }
-    console.log("🚀 Gemini AI を初期化中...");
-    genAI = new GoogleGenerativeAI(apiKey);
-    console.log("✅ Gemini AI 初期化完了");
-  }
-  return genAI;
-};
-
 /**
  * 日本語形態素解析器の初期化
  */
@@ -106,9 +92,7 @@ const extractKeyphrasesWithAI = async (
   try {
     console.log("🤖 Gemini AI によるキーフレーズ抽出開始...");
 
-    // Gemini AI を初期化
-    const genAI = initializeGeminiAI();
-    const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash-exp" });
+    const model = getChatModel("keyDataExtraction");
 
     const prompt = `
 あなたは技術イベントの内容分析専門家です。以下のイベント説明文から、最も重要なキーフレーズを抽出してください。
@@ -145,9 +129,8 @@ JSON形式で回答してください：
 ${text}
 `;
 
-    const geminiResult = await model.generateContent(prompt);
-    const geminiResponse = await geminiResult.response;
-    const content = geminiResponse.text();
+    const geminiResult = await model.invoke(prompt);
+    const content = messageContentToText(geminiResult.content);
 
     if (!content) {
       throw new Error("Gemini AIから有効な応答を取得できませんでした");
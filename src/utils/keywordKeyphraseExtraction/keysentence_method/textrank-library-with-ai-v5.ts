@@ -1,4 +1,7 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import {
+  getChatModel,
+  messageContentToText,
+} from "../../../services/llmClient";
 
 // kuromoji.jsの型定義（既存ライブラリから流用）
 interface KuromojiToken {
@@ -43,11 +46,8 @@ interface EnhancedResult {
   };
 }
 
-// AI処理設定インターフェース
+// AI処理設定インターフェース（モデル・温度は LLM クライアントの keyDataExtraction の設定を使う）
 interface AIConfig {
-  model: string;
-  maxTokens: number;
-  temperature: number;
   enabled: boolean;
 }
 
@@ -73,34 +73,9 @@ const DEFAULT_TEXTRANK_CONFIG: TextRankConfig = {
 };
 
 const DEFAULT_AI_CONFIG: AIConfig = {
-  model: "gemini-2.0-flash-exp", // より安定したモデルに変更
-  maxTokens: 1000,
-  temperature: 0.3, // 安定した出力のため低めに設定
   enabled: true,
 };
 
-// Gemini AI インスタンス
-let geminiAI: GoogleGenerativeAI | null = null;
-
-/**
- * Gemini AI の初期化
- */
-const initializeGeminiAI = async (): Promise<GoogleGenerativeAI> => {
-  if (geminiAI) {
-    return geminiAI;
-  }
-
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    throw new Error("GEMINI_API_KEY 環境変数が設定されていません");
-  }
-
-  console.log("🚀 Gemini AI を初期化中...");
-  geminiAI = new GoogleGenerativeAI(apiKey);
-  console.log("✅ Gemini AI 初期化完了");
-  return geminiAI;
-};
-
 /**
  * 日本語形態素解析器の初期化
  */
@@ -129,27 +104,17 @@ const initializeTokenizer = async (): Promise<KuromojiTokenizer> => {
 /**
  * Gemini AI API呼び出し
  */
-const callAIAPI = async (prompt: string, config: AIConfig): Promise<string> => {
+const callAIAPI = async (prompt: string): Promise<string> => {
   try {
     console.log("🤖 Gemini AI API 呼び出し中...");
 
-    const genAI = await initializeGeminiAI();
-    const model = genAI.getGenerativeModel({
-      model: config.model,
-      generationConfig: {
-        temperature: config.temperature,
-        maxOutputTokens: config.maxTokens,
-      },
-    });
+    const model = getChatModel("keyDataExtraction");
 
-    const result = await model.generateContent([
-      {
-        text: `あなたは日本語のイベント説明文を分析し、キーフレーズ抽出を支援するAIアシスタントです。正確で簡潔な回答を心がけてください。\n\n${prompt}`,
-      },
-    ]);
+    const result = await model.invoke(
+      `あなたは日本語のイベント説明文を分析し、キーフレーズ抽出を支援するAIアシスタントです。正確で簡潔な回答を心がけてください。\n\n${prompt}`
+    );
 
-    const response = await result.response;
-    const content = response.text() || "";
+    const content = messageContentToText(result.content);
 
     console.log("✅ Gemini AI API 呼び出し完了");
     return content.trim();
@@ -208,7 +173,7 @@ ${text}
 最適化後のテキスト：`;
 
   try {
-    const result = await callAIAPI(prompt, config);
+    const result = await callAIAPI(prompt);
     console.log("✅ 前処理AI完了");
     return result.trim();
   } catch (error) {
@@ -244,7 +209,7 @@ ${keyphrases.map((phrase, index) => `${index + 1}. ${phrase}`).join("\n")}
 最適化後のキーフレーズ（カンマ区切りで出力）：`;
 
   try {
-    const result = await callAIAPI(prompt, config);
+    const result = await callAIAPI(prompt);
     const optimizedPhrases = result
       .split(",")
       .map((phrase) => phrase.trim())
@@ -1,5 +1,4 @@
 import { Event } from "@prisma/client";
-import { ChatOpenAI } from "@langchain/openai";
 import { StructuredOutputParser } from "@langchain/core/output_parsers";
 import { z } from "zod";
 import {
@@ -8,6 +7,7 @@ import {
 } from "./connpassEventUtils";
 import { getDateRangeWithDefaults } from "./dateUtils";
 import { saveOrUpdateEvents } from "./eventUtils";
+import { getChatModel } from "../services/llmClient";
 
 /**
  * ユーザー情報の基本型
@@ -62,10 +62,7 @@ export const generateKeywordsAndFetchEvents = async (
     };
 
     // LLMを使用してキーワードを生成
-    const llm = new ChatOpenAI({
-      modelName: "gpt-3.5-turbo",
-      temperature: 0.7,
-    });
+    const llm = getChatModel("keywordGeneration");
 
     // 構造化出力パーサーを定義
     const outputParser = StructuredOutputParser.fromZodSchema(
@@ -374,10 +371,7 @@ URL: ${event.detailUrl || ""}
       .join("\n");
 
     // LLMを使用してイベントを選択
-    const llm = new ChatOpenAI({
-      modelName: "gpt-3.5-turbo",
-      temperature: 0.3,
-    });
+    const llm = getChatModel("eventSelection");
 
     // 構造化出力パーサーを定義
     const outputParser = StructuredOutputParser.fromZodSchema(
@@ -0,0 +1,172 @@
+import { LineResponder } from "../services/lineService";
+
+/**
+ * LINEのテキストコマンドを振り分けるルーター
+ * 各コマンドは名前・別名・引数の書式・説明を宣言して登録する
+ * 「ヘルプ」コマンドは登録されたコマンドから自動生成される
+ */
+
+// コマンド実行時に渡される情報
+export interface LineCommandContext {
+  lineUserId: string;
+  text: string; // 受信したテキスト全体
+  event: any; // LINE Webhook イベント
+  responder: LineResponder; // 返信するメッセージの送信先
+}
+
+// テキストコマンドの定義
+export interface LineCommand<TArgs = string[]> {
+  name: string;
+  aliases?: string[];
+  usage?: string; // 引数の書式（例: "[場所] [期間]"）
+  description: string;
+  // 引数を解析する（不正な引数の場合は Error を投げる）
+  parseArgs?: (args: string[]) => TArgs;
+  // 引数を解析できない場合に、エラーを返さずフォールバック処理に渡すか
+  // （コマンド名で始まる文章をコマンドとして扱わないため）
+  fallbackOnInvalidArgs?: boolean;
+  handler: (context: LineCommandContext, args: TArgs) => Promise<void>;
+}
+
+export interface LineCommandRouterOptions {
+  // どのコマンドにも該当しない場合の処理
+  fallback: (context: LineCommandContext) => Promise<void>;
+}
+
+// ヘルプコマンドの名前と別名
+const HELP_COMMAND_NAME = "ヘルプ";
+const HELP_COMMAND_ALIASES = ["help", "使い方"];
+
+/**
+ * 受信したテキストをコマンド名と引数に分割する
+ * 全角スペースも区切り文字として扱う
+ * @param text 受信したテキスト
+ * @returns コマンド名と引数の配列
+ */
+export const tokenizeCommandText = (text: string) => {
+  const [commandName = "", ...args] = text.trim().split(/\s+/);
+  return { commandName, args };
+};
+
+// コマンド名の比較用に正規化する（英字の大文字・小文字を区別しない）
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+/**
+ * コマンドの書式を表示用の文字列にする
+ * @param command コマンド定義
+ * @returns 例: "レコメンド [場所] [期間]"
+ */
+export const formatCommandUsage = (command: LineCommand<any>) =>
+  command.usage ? `${command.name} ${command.usage}` : command.name;
+
+/**
+ * LINEテキストコマンドのルーターを作成する
+ * @param options フォールバック処理
+ * @returns コマンドの登録・実行を行うルーター
+ */
+export const createLineCommandRouter = (options: LineCommandRouterOptions) => {
+  const commands: LineCommand<any>[] = [];
+  const commandsByName = new Map<string, LineCommand<any>>();
+
+  /**
+   * コマンドを登録する
+   * 名前・別名が既存のコマンドと重複する場合はエラーを投げる
+   * @param command コマンド定義
+   */
+  const register = <TArgs>(command: LineCommand<TArgs>) => {
+    const names = [command.name, ...(command.aliases ?? [])].map(normalizeName);
+
+    for (const name of names) {
+      if (commandsByName.has(name)) {
+        throw new Error(`コマンド名「${name}」は既に登録されています`);
+      }
+    }
+
+    commands.push(command);
+    names.forEach((name) => commandsByName.set(name, command));
+  };
+
+  /**
+   * 登録されたコマンドからヘルプメッセージを生成する
+   * @returns ヘルプメッセージ
+   */
+  const buildHelpText = () => {
+    const lines = commands.map((command) => {
+      const aliases = command.aliases?.length
+        ? `（別名: ${command.aliases.join(", ")}）`
+        : "";
+      return `・${formatCommandUsage(command)}${aliases}\n  ${
+        command.description
+      }`;
+    });
+
+    return [
+      "使えるコマンド一覧です。",
+      ...lines,
+      "上記以外のメッセージを送ると、内容に合ったイベントをおすすめします。",
+    ].join("\n");
+  };
+
+  /**
+   * テキストに対応するコマンドを取得する
+   * @param text 受信したテキスト
+   * @returns コマンドと引数（該当しない場合は null）
+   */
+  const resolve = (text: string) => {
+    const { commandName, args } = tokenizeCommandText(text);
+    const command = commandsByName.get(normalizeName(commandName));
+    return command ? { command, args } : null;
+  };
+
+  /**
+   * テキストに対応するコマンドを実行する
+   * 該当するコマンドがない場合や、fallbackOnInvalidArgs のコマンドの引数を解析できない場合は
+   * フォールバック処理を実行する
+   * @param context コマンド実行時の情報
+   */
+  const dispatch = async (context: LineCommandContext) => {
+    const resolved = resolve(context.text);
+
+    if (!resolved) {
+      await options.fallback(context);
+      return;
+    }
+
+    const { command, args } = resolved;
+
+    let parsedArgs: unknown = args;
+    if (command.parseArgs) {
+      try {
+        parsedArgs = command.parseArgs(args);
+      } catch (error) {
+        if (command.fallbackOnInvalidArgs) {
+          await options.fallback(context);
+          return;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        context.responder.text(
+          `${message}\n使い方: ${formatCommandUsage(command)}`
+        );
+        return;
+      }
+    }
+
+    console.log(
+      `ユーザー ${context.lineUserId} からコマンド「${command.name}」を受信しました`
+    );
+    await command.handler(context, parsedArgs);
+  };
+
+  register({
+    name: HELP_COMMAND_NAME,
+    aliases: HELP_COMMAND_ALIASES,
+    description: "使えるコマンドの一覧を表示します",
+    handler: async (context) => {
+      context.responder.text(buildHelpText());
+    },
+  });
+
+  return { register, resolve, dispatch, buildHelpText };
+};
+
+export type LineCommandRouter = ReturnType<typeof createLineCommandRouter>;
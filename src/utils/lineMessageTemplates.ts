@@ -1,15 +1,49 @@
 import { Event, Bookmark } from "@prisma/client";
-import { EventWithBookmarkStatus } from "../types/lineTypes";
+import {
+  EventWithBookmarkStatus,
+  FlexBox,
+  FlexComponent,
+} from "../types/lineTypes";
+
+/**
+ * レコメンドへのフィードバック（興味あり・興味なし）ボタンを生成する
+ * @param recommendationId レコメンドID
+ * @param eventId イベントID
+ * @returns ボタンを横に並べたボックス
+ */
+const createRecommendationFeedbackButtons = (
+  recommendationId: string,
+  eventId: string
+) => ({
+  type: "box",
+  layout: "horizontal",
+  spacing: "sm",
+  contents: [
+    { label: "興味あり", feedback: "INTERESTED" },
+    { label: "興味なし", feedback: "NOT_INTERESTED" },
+  ].map(({ label, feedback }) => ({
+    type: "button",
+    style: "link",
+    height: "sm",
+    action: {
+      type: "postback",
+      label,
+      data: `action=feedback&feedback=${feedback}&recommendationId=${recommendationId}&eventId=${eventId}`,
+    },
+  })),
+});
 
 /**
  * イベントカルーセルメッセージを生成する
  * @param events イベント配列（ブックマーク情報付き）
  * @param userId ユーザーID
+ * @param recommendationId レコメンドID（指定した場合はフィードバックボタンを表示）
  * @returns カルーセルメッセージオブジェクト
  */
 export const createEventRecommendlMessage = (
   events: EventWithBookmarkStatus[],
-  userId: string
+  userId: string,
+  recommendationId?: string | null
 ) => {
   // イベントごとにバブルを作成
   const bubbles = events.map((event) => {
@@ -150,6 +184,9 @@ export const createEventRecommendlMessage = (
               data: bookmarkData,
             },
           },
+          ...(recommendationId
+            ? [createRecommendationFeedbackButtons(recommendationId, event.id)]
+            : []),
           {
             type: "box",
             layout: "horizontal",
@@ -232,12 +269,17 @@ export const createEventRecommendlMessage = (
  * イベントリマインドメッセージを生成する
  * @param event イベント
  * @param eventDate イベント日付（表示用）
+ * @param timeUntilLabel 開催までの残り時間（例: 「1日後」）
  * @returns リマインドメッセージオブジェクト
  */
-export const createEventReminderMessage = (event: Event, eventDate: Date) => {
+export const createEventReminderMessage = (
+  event: Event,
+  eventDate: Date,
+  timeUntilLabel: string = "1週間後"
+) => {
   const reminderMessage = {
     type: "flex",
-    altText: `【イベントリマインド】「${event.title}」が1週間後に開催されます`,
+    altText: `【イベントリマインド】「${event.title}」が${timeUntilLabel}に開催されます`,
     contents: {
       type: "bubble",
       header: {
@@ -379,3 +421,111 @@ export const createEventReminderMessage = (event: Event, eventDate: Date) => {
 
   return reminderMessage;
 };
+
+// 開催予定一覧に表示する最大件数
+const MAX_UPCOMING_EVENT_ROWS = 10;
+
+// 日時を「10/18 19:00」の形式で表示する
+const formatShortDateTime = (date: Date) =>
+  date.toLocaleString("ja-JP", {
+    timeZone: "Asia/Tokyo",
+    month: "numeric",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+/**
+ * ブックマークした開催予定のイベント一覧メッセージを生成する
+ * @param items イベントと次回のリマインド日時の配列（開催日順）
+ * @param periodLabel 対象期間の表示（例: 「7日以内」）
+ * @returns Flexメッセージオブジェクト
+ */
+export const createUpcomingEventsMessage = (
+  items: { event: Event; nextReminderAt: Date | null }[],
+  periodLabel: string
+) => {
+  const upcoming = items.slice(0, MAX_UPCOMING_EVENT_ROWS);
+  const rows = upcoming.flatMap((item, i): FlexComponent[] => {
+    const row: FlexBox = {
+      type: "box",
+      layout: "vertical",
+      margin: "md",
+      spacing: "xs",
+      contents: [
+        {
+          type: "text",
+          text: item.event.title,
+          weight: "bold",
+          size: "sm",
+          wrap: true,
+          ...(item.event.detailUrl
+            ? { action: { type: "uri", uri: item.event.detailUrl } }
+            : {}),
+        },
+        {
+          type: "text",
+          text: `${formatShortDateTime(item.event.eventDate)}〜 ${
+            item.event.venue
+          }`,
+          color: "#666666",
+          size: "xs",
+          wrap: true,
+        },
+        {
+          type: "text",
+          text: item.nextReminderAt
+            ? `次のリマインド: ${formatShortDateTime(item.nextReminderAt)}`
+            : "リマインド予定なし",
+          color: "#aaaaaa",
+          size: "xs",
+        },
+      ],
+    };
+
+    return i === 0 ? [row] : [{ type: "separator", margin: "md" }, row];
+  });
+
+  const remaining = items.length - MAX_UPCOMING_EVENT_ROWS;
+  if (remaining > 0) {
+    rows.push({
+      type: "text",
+      text: `ほか${remaining}件`,
+      color: "#aaaaaa",
+      size: "xs",
+      margin: "md",
+    });
+  }
+
+  return {
+    type: "flex",
+    altText: `【開催予定のイベント】${periodLabel}に${items.length}件のブックマークしたイベントがあります`,
+    contents: {
+      type: "bubble",
+      header: {
+        type: "box",
+        layout: "vertical",
+        contents: [
+          {
+            type: "text",
+            text: `開催予定のブックマーク（${periodLabel}）`,
+            weight: "bold",
+            color: "#FFFFFF",
+            size: "md",
+            wrap: true,
+          },
+        ],
+        backgroundColor: "#FF5551",
+        paddingTop: "12px",
+        paddingBottom: "12px",
+        paddingStart: "16px",
+        paddingEnd: "16px",
+      },
+      body: {
+        type: "box",
+        layout: "vertical",
+        contents: rows,
+      },
+    },
+  };
+};
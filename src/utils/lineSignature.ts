@@ -0,0 +1,42 @@
+import crypto from "crypto";
+
+/**
+ * LINE Webhook の署名（X-Line-Signature）を生成する
+ * チャネルシークレットをキーにリクエストボディの HMAC-SHA256 を計算し、Base64 で返す
+ * テストではこの関数でフィクスチャのペイロードに署名できる
+ * @param body リクエストボディ（受信したままの文字列またはバッファ）
+ * @param channelSecret チャネルシークレット
+ * @returns Base64 エンコードされた署名
+ */
+export const createLineSignature = (
+  body: string | Buffer,
+  channelSecret: string
+): string => {
+  return crypto
+    .createHmac("sha256", channelSecret)
+    .update(body)
+    .digest("base64");
+};
+
+/**
+ * LINE Webhook の署名を検証する
+ * @param body リクエストボディ（受信したままの文字列またはバッファ）
+ * @param signature X-Line-Signature ヘッダーの値
+ * @param channelSecret チャネルシークレット
+ * @returns 署名が一致すれば true
+ */
+export const verifyLineSignature = (
+  body: string | Buffer,
+  signature: string | undefined | null,
+  channelSecret: string
+): boolean => {
+  if (!signature) return false;
+
+  const expected = Buffer.from(createLineSignature(body, channelSecret));
+  const actual = Buffer.from(signature);
+
+  // 長さが異なる場合 timingSafeEqual は例外を投げるため先に判定する
+  if (expected.length !== actual.length) return false;
+
+  return crypto.timingSafeEqual(expected, actual);
+};
@@ -1,4 +1,3 @@
-import { ChatOpenAI } from "@langchain/openai";
 import { StructuredOutputParser } from "langchain/output_parsers";
 import { z } from "zod";
 import { Event } from "@prisma/client";
@@ -7,6 +6,7 @@ import { getDateRangeWithDefaults } from "./dateUtils";
 import { rankEventsByKeywordMatch } from "./keywordRecommendation";
 import { getUserById } from "./userUtils";
 import { RankedEvent } from "./keywordRecommendation";
+import { getChatModel } from "../services/llmClient";
 
 /**
  * ユーザー情報の型定義
@@ -38,10 +38,7 @@ export const extractKeywordsFromQuery = async (
 ): Promise<string[]> => {
   try {
     // LLMを使ってキーワード抽出
-    const llm = new ChatOpenAI({
-      modelName: "gpt-3.5-turbo",
-      temperature: 0.2,
-    });
+    const llm = getChatModel("queryKeywordExtraction");
 
     // 構造化出力パーサーを定義
     const outputParser = StructuredOutputParser.fromZodSchema(
@@ -306,10 +303,7 @@ URL: ${event.detailUrl || ""}
       .join("\n");
 
     // LLMを使用してイベントを選択
-    const llm = new ChatOpenAI({
-      modelName: "gpt-3.5-turbo",
-      temperature: 0.3,
-    });
+    const llm = getChatModel("eventSelection");
 
     // 構造化出力パーサーを定義
     const outputParser = StructuredOutputParser.fromZodSchema(
@@ -2,24 +2,19 @@
   similarityUtils.ts
   ユーザーの興味タグとイベント要素（キーワード）との類似度を計算し、
   距離（コサイン類似度）に基づいて 0〜1 の重み（スコア）を付与するユーティリティ関数群。
-  実際の埋め込みモデルではなく、ハッシュベースの疑似ベクトルを使ってモック実装している。
-  本番環境では OpenAIEmbeddings などに置き換えて使用することを想定。
+  埋め込みモデルは embeddingProvider で設定されたもの（OpenAI / Gemini / ローカルのハッシュベクトル）を使う。
+  EMBEDDING_PROVIDER=local にすると API キーなしで同じ結果を再現できる。
+  ベクトルは EmbeddingCache に保存し、同じテキストは再度 API を呼ばずに再利用する。
 */
 
-// OpenAI Embeddings を利用するため、ハッシュベースの stringToVector は不要になりました。
-import { OpenAIEmbeddings } from "@langchain/openai";
 import {
   ChatPromptTemplate,
   HumanMessagePromptTemplate,
   SystemMessagePromptTemplate,
 } from "@langchain/core/prompts";
-import { ChatOpenAI } from "@langchain/openai";
 import { RecommendedEvent } from "./keyDataRecommendation";
-
-// 高速・低コストモデルをデフォルトで使用（必要に応じて変更可能）
-const embeddings = new OpenAIEmbeddings({
-  modelName: "text-embedding-3-small",
-});
+import { embedTextMapWithCache } from "../services/embeddingCacheService";
+import { getChatModel, messageContentToText } from "../services/llmClient";
 
 /** コサイン類似度を計算する */
 const cosineSimilarity = (a: number[], b: number[]): number => {
@@ -35,6 +30,19 @@ const cosineSimilarity = (a: number[], b: number[]): number => {
   return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
 };
 
+/**
+ * ベクトル化済みのテキストとユーザータグのコサイン類似度を返す
+ * 空文字などベクトルがないテキストは 0 とする
+ */
+const similarityInMap = (
+  vectorMap: Map<string, number[]>,
+  userVector: number[] | undefined,
+  text: string
+): number => {
+  const vector = vectorMap.get(text);
+  return userVector && vector ? cosineSimilarity(userVector, vector) : 0;
+};
+
 export interface EventElement {
   id: string; // イベントID
   keywords: string[]; // 抽出されたキーワードや要素
@@ -67,10 +75,14 @@ export const computeInterestWeightsFlexible = async (
 ): Promise<ScoredEvent[]> => {
   const { mode = "concat", agg = "max" } = options;
 
-  // ユーザータグ埋め込みを 1 度だけ取得
-  const userVector = await embeddings.embedQuery(userTag);
-
   if (mode === "per_keyword") {
+    // ユーザータグとすべてのキーワードをまとめてベクトル化（キャッシュ済みのものは API を呼ばない）
+    const vectorMap = await embedTextMapWithCache([
+      userTag,
+      ...events.flatMap((ev) => ev.keywords),
+    ]);
+    const userVector = vectorMap.get(userTag);
+
     // イベントごとにキーワード単位でスコア → 集約
     const scored: ScoredEvent[] = [];
     for (const ev of events) {
@@ -80,9 +92,9 @@ export const computeInterestWeightsFlexible = async (
         continue;
       }
 
-      // 各キーワードを個別にベクトル化
-      const kwVectors = await embeddings.embedDocuments(ev.keywords);
-      const sims = kwVectors.map((vec) => cosineSimilarity(userVector, vec));
+      const sims = ev.keywords.map((kw) =>
+        similarityInMap(vectorMap, userVector, kw)
+      );
 
       let score = 0;
       if (agg === "mean") {
@@ -99,27 +111,13 @@ export const computeInterestWeightsFlexible = async (
   }
 
   // ===== concat モード =====
-  // 空文字列イベントを除外して Embeddings を呼び出す
-  const nonEmptyTexts: string[] = [];
-  const nonEmptyIdx: number[] = [];
-  events.forEach((ev, idx) => {
-    const txt = ev.keywords.join(" ").trim();
-    if (txt.length > 0) {
-      nonEmptyTexts.push(txt);
-      nonEmptyIdx.push(idx);
-    }
-  });
-
-  const vectors =
-    nonEmptyTexts.length > 0
-      ? await embeddings.embedDocuments(nonEmptyTexts)
-      : [];
+  // 空文字列のテキストはベクトル化せずスコア 0 とする
+  const eventTexts = events.map((ev) => ev.keywords.join(" ").trim());
+  const vectorMap = await embedTextMapWithCache([userTag, ...eventTexts]);
+  const userVector = vectorMap.get(userTag);
 
   const scored: ScoredEvent[] = events.map((ev, idx) => {
-    // nonEmptyIdx でベクトルが計算されている場合のみ類似度を計算
-    const vecIdx = nonEmptyIdx.indexOf(idx);
-    const sim =
-      vecIdx !== -1 ? cosineSimilarity(userVector, vectors[vecIdx]) : 0; // 空テキストはスコア 0
+    const sim = similarityInMap(vectorMap, userVector, eventTexts[idx]);
     return { id: ev.id, score: Math.max(0, sim) };
   });
   return scored.sort((a, b) => b.score - a.score);
@@ -141,15 +139,13 @@ export const computeInterestWeightsLegacy = async (
   userTag: string,
   events: EventElement[]
 ): Promise<ScoredEvent[]> => {
-  // ユーザータグを単一クエリとして埋め込み
-  const userVector = await embeddings.embedQuery(userTag);
-
-  // イベントキーワードをまとめてベクトル化（バッチ処理）
+  // ユーザータグとイベントキーワードをまとめてベクトル化（バッチ処理）
   const eventTexts = events.map((ev) => ev.keywords.join(" "));
-  const eventVectors = await embeddings.embedDocuments(eventTexts);
+  const vectorMap = await embedTextMapWithCache([userTag, ...eventTexts]);
+  const userVector = vectorMap.get(userTag);
 
   const scored: ScoredEvent[] = events.map((ev, idx) => {
-    const sim = cosineSimilarity(userVector, eventVectors[idx]);
+    const sim = similarityInMap(vectorMap, userVector, eventTexts[idx]);
     return { id: ev.id, score: Math.max(0, sim) }; // 負は 0
   });
 
@@ -242,21 +238,6 @@ export const fuseRankings = (
   }
 };
 
-/** ユーザータグとテキストの類似度を返す */
-const similarityToTag = async (
-  userTag: string,
-  text: string
-): Promise<number> => {
-  // 空文字列の場合は類似度 0 とする
-  if (!text || text.trim().length === 0) return 0;
-
-  const [tagVec, txtVec] = await Promise.all([
-    embeddings.embedQuery(userTag),
-    embeddings.embedQuery(text),
-  ]);
-  return Math.max(0, cosineSimilarity(tagVec, txtVec));
-};
-
 /**
  * RRF (Reciprocal Rank Fusion) でイベントをリランキング
  * keySentences の最大類似度と keywords の類似度の 2 ランクを統合
@@ -278,19 +259,24 @@ export const rerankEventsRRF = async (
   const keyRank: { id: string; sim: number }[] = [];
   const kwRank: { id: string; sim: number }[] = [];
 
+  // ユーザータグとすべての keySentence / keyword をまとめてベクトル化
+  const vectorMap = await embedTextMapWithCache([
+    userTag,
+    ...events.flatMap((ev) => [...ev.keySentences, ...ev.keywords]),
+  ]);
+  const userVector = vectorMap.get(userTag);
+  const similarityToTag = (text: string) =>
+    Math.max(0, similarityInMap(vectorMap, userVector, text));
+
   // 各イベントの類似度を計算
   for (const ev of events) {
     // keySentences の最大類似度
-    const keySims = await Promise.all(
-      ev.keySentences.map((s) => similarityToTag(userTag, s))
-    );
+    const keySims = ev.keySentences.map(similarityToTag);
     const maxKeySim = keySims.length > 0 ? Math.max(...keySims) : 0;
     keyRank.push({ id: ev.id, sim: maxKeySim });
 
     // keywords の類似度平均
-    const kwSims = await Promise.all(
-      ev.keywords.map((kw) => similarityToTag(userTag, kw))
-    );
+    const kwSims = ev.keywords.map(similarityToTag);
     const avgKwSim =
       kwSims.length > 0 ? kwSims.reduce((a, b) => a + b, 0) / kwSims.length : 0;
     kwRank.push({ id: ev.id, sim: avgKwSim });
@@ -390,11 +376,7 @@ export const filterEventsWithLLM = async (
   topK: number = 10
 ): Promise<RecommendedEvent[]> => {
   if (rankedEvents.length === 0) return [];
-  const llm = new ChatOpenAI({
-    // modelName: "gpt-3.5-turbo",
-    modelName: "ft:gpt-3.5-turbo-0125:personal::BpC4PRxL",
-    temperature: 0,
-  });
+  const llm = getChatModel("eventFilter");
 
   // 上位候補のみ渡す（スコアしきい値フィルタリングをコメントアウト）
   const candidates = rankedEvents
@@ -425,7 +407,7 @@ export const filterEventsWithLLM = async (
 
   try {
     const response = await prompt.pipe(llm).invoke({});
-    const parsed = JSON.parse(response.content as string) as {
+    const parsed = JSON.parse(messageContentToText(response.content)) as {
       id: string;
       reason?: string;
     }[];
@@ -0,0 +1,127 @@
+// レコメンドのランキングを評価する指標（関連あり・なしの2値で判定する）
+
+export interface RankingMetrics {
+  precision: number; // precision@k
+  recall: number; // recall@k
+  ndcg: number; // nDCG@k
+  mrr: number; // 最初に関連イベントが現れた順位の逆数（上位k件まで）
+}
+
+/**
+ * precision@k を計算する（上位k件に含まれる関連イベントの割合）
+ * 返したイベントがk件未満でも分母はkとする
+ * @param rankedIds 順位順のイベントID
+ * @param relevantIds 関連イベントのID
+ * @param k 評価する件数
+ * @returns precision@k（0〜1）
+ */
+export const precisionAtK = (
+  rankedIds: string[],
+  relevantIds: Set<string>,
+  k: number
+) => {
+  if (k <= 0) return 0;
+  const hits = rankedIds.slice(0, k).filter((id) => relevantIds.has(id));
+  return hits.length / k;
+};
+
+/**
+ * recall@k を計算する（関連イベントのうち上位k件に含まれる割合）
+ * @param rankedIds 順位順のイベントID
+ * @param relevantIds 関連イベントのID
+ * @param k 評価する件数
+ * @returns recall@k（0〜1、関連イベントがない場合は 0）
+ */
+export const recallAtK = (
+  rankedIds: string[],
+  relevantIds: Set<string>,
+  k: number
+) => {
+  if (relevantIds.size === 0) return 0;
+  const hits = rankedIds.slice(0, k).filter((id) => relevantIds.has(id));
+  return hits.length / relevantIds.size;
+};
+
+/**
+ * nDCG@k を計算する
+ * 理想のランキングは関連イベントをすべて上位に並べたもの
+ * @param rankedIds 順位順のイベントID
+ * @param relevantIds 関連イベントのID
+ * @param k 評価する件数
+ * @returns nDCG@k（0〜1、関連イベントがない場合は 0）
+ */
+export const ndcgAtK = (
+  rankedIds: string[],
+  relevantIds: Set<string>,
+  k: number
+) => {
+  const dcg = rankedIds
+    .slice(0, k)
+    .reduce(
+      (sum, id, index) =>
+        relevantIds.has(id) ? sum + 1 / Math.log2(index + 2) : sum,
+      0
+    );
+
+  let idealDcg = 0;
+  for (let i = 0; i < Math.min(relevantIds.size, k); i++) {
+    idealDcg += 1 / Math.log2(i + 2);
+  }
+
+  return idealDcg === 0 ? 0 : dcg / idealDcg;
+};
+
+/**
+ * 最初に関連イベントが現れた順位の逆数を計算する（MRR の1クエリ分）
+ * @param rankedIds 順位順のイベントID
+ * @param relevantIds 関連イベントのID
+ * @param k 評価する件数
+ * @returns 逆順位（上位k件に関連イベントがない場合は 0）
+ */
+export const reciprocalRankAtK = (
+  rankedIds: string[],
+  relevantIds: Set<string>,
+  k: number
+) => {
+  const index = rankedIds.slice(0, k).findIndex((id) => relevantIds.has(id));
+  return index === -1 ? 0 : 1 / (index + 1);
+};
+
+/**
+ * 1クエリ分のランキングを評価する
+ * @param rankedIds 順位順のイベントID
+ * @param relevantIds 関連イベントのID
+ * @param k 評価する件数
+ * @returns 各指標
+ */
+export const evaluateRanking = (
+  rankedIds: string[],
+  relevantIds: Set<string>,
+  k: number
+): RankingMetrics => ({
+  precision: precisionAtK(rankedIds, relevantIds, k),
+  recall: recallAtK(rankedIds, relevantIds, k),
+  ndcg: ndcgAtK(rankedIds, relevantIds, k),
+  mrr: reciprocalRankAtK(rankedIds, relevantIds, k),
+});
+
+/**
+ * 複数クエリの評価結果を平均する
+ * @param metrics クエリごとの指標
+ * @returns 各指標の平均（クエリがない場合はすべて 0）
+ */
+export const averageRankingMetrics = (
+  metrics: RankingMetrics[]
+): RankingMetrics => {
+  const mean = (key: keyof RankingMetrics) =>
+    metrics.length === 0
+      ? 0
+      : metrics.reduce((sum, m) => sum + m[key], 0) / metrics.length;
+
+  return {
+    precision: mean("precision"),
+    recall: mean("recall"),
+    ndcg: mean("ndcg"),
+    mrr: mean("mrr"),
+  };
+};
@@ -0,0 +1,282 @@
+import { z } from "zod";
+import { DifficultyLevel, EventFormat, GoalType } from "@prisma/client";
+import { ScoredEvent } from "./ragUtils";
+import { formatFilterError } from "./eventQueryBuilder";
+
+/**
+ * レコメンドの制約と優先条件
+ * - 必須条件（候補から除外する）: レベルと難易度の対応、参加費の上限、開催形式（strictFormat の場合）
+ * - 優先条件（ランキングに加える）: 難易度の一致、目標、開催形式、スキルの重なり
+ * ユーザーのプロフィールから作成し、リクエストごとに上書きできる
+ */
+
+// レベルごとに参加できる難易度（初心者は上級者向け、上級者は初心者向けのイベントを除く）
+const COMPATIBLE_DIFFICULTIES: Record<DifficultyLevel, DifficultyLevel[]> = {
+  BEGINNER: [
+    DifficultyLevel.FOR_EVERYONE,
+    DifficultyLevel.BEGINNER,
+    DifficultyLevel.INTERMEDIATE,
+  ],
+  INTERMEDIATE: [
+    DifficultyLevel.FOR_EVERYONE,
+    DifficultyLevel.BEGINNER,
+    DifficultyLevel.INTERMEDIATE,
+    DifficultyLevel.ADVANCED,
+  ],
+  ADVANCED: [
+    DifficultyLevel.FOR_EVERYONE,
+    DifficultyLevel.INTERMEDIATE,
+    DifficultyLevel.ADVANCED,
+  ],
+  FOR_EVERYONE: Object.values(DifficultyLevel),
+};
+
+// User.level の日本語表記
+const LEVEL_LABELS: Record<string, DifficultyLevel> = {
+  初心者: DifficultyLevel.BEGINNER,
+  初級: DifficultyLevel.BEGINNER,
+  中級: DifficultyLevel.INTERMEDIATE,
+  上級: DifficultyLevel.ADVANCED,
+};
+
+// User.goal の日本語表記（部分一致）
+const GOAL_LABELS: [string, GoalType][] = [
+  ["スキル", GoalType.IMPROVE_SKILLS],
+  ["チーム開発", GoalType.EXPERIENCE_TEAM_DEV],
+  ["ポートフォリオ", GoalType.CREATE_PORTFOLIO],
+];
+
+// 優先条件の重みのデフォルト
+const DEFAULT_PREFERENCE_WEIGHTS = {
+  level: 1,
+  goal: 1,
+  format: 0.5,
+  skill: 1,
+};
+
+const weightSchema = z.number().min(0);
+
+export const recommendationConstraintsSchema = z
+  .object({
+    level: z.nativeEnum(DifficultyLevel).optional(), // ユーザーのレベル
+    enforceLevel: z.boolean().default(true), // レベルに合わない難易度のイベントを除外するか
+    goals: z.array(z.nativeEnum(GoalType)).optional(),
+    maxPrice: z.coerce.number().int().min(0).optional(),
+    formats: z.array(z.nativeEnum(EventFormat)).optional(), // 希望する開催形式
+    strictFormat: z.boolean().default(false), // 希望以外の開催形式を除外するか
+    skills: z.array(z.string().trim().min(1)).optional(),
+    weights: z
+      .object({
+        level: weightSchema,
+        goal: weightSchema,
+        format: weightSchema,
+        skill: weightSchema,
+      })
+      .partial()
+      .optional(),
+  })
+  .strict();
+
+// 検証前の制約（呼び出し側で組み立てる型）
+export type RecommendationConstraintsInput = z.input<
+  typeof recommendationConstraintsSchema
+>;
+// 検証済みの制約
+export type RecommendationConstraints = z.output<
+  typeof recommendationConstraintsSchema
+>;
+
+// 制約の判定に使うイベントの項目
+export interface ConstrainableEvent {
+  id: string;
+  difficulty?: DifficultyLevel;
+  price?: number;
+  format?: EventFormat;
+  goals?: GoalType[];
+  skills?: string[];
+}
+
+/**
+ * 制約を検証する
+ * @param input 制約
+ * @returns 検証済みの制約
+ * @throws 不正な値が含まれる場合
+ */
+export const parseRecommendationConstraints = (
+  input: RecommendationConstraintsInput
+): RecommendationConstraints => {
+  const result = recommendationConstraintsSchema.safeParse(input);
+  if (!result.success) {
+    throw new Error(
+      `レコメンドの条件が不正です（${formatFilterError(result.error)}）`
+    );
+  }
+  return result.data;
+};
+
+/**
+ * User.level をレベルに変換する（"INTERMEDIATE" などの値と日本語表記に対応）
+ * @param level ユーザーのレベル
+ * @returns レベル（判別できない場合は undefined）
+ */
+const parseUserLevel = (level?: string | null) => {
+  if (!level) return undefined;
+  const upper = level.trim().toUpperCase();
+  if (upper in DifficultyLevel) return upper as DifficultyLevel;
+  const label = Object.keys(LEVEL_LABELS).find((key) => level.includes(key));
+  return label ? LEVEL_LABELS[label] : undefined;
+};
+
+/**
+ * User.goal を目標に変換する（"IMPROVE_SKILLS" などの値と日本語表記に対応）
+ * @param goals ユーザーの目標
+ * @returns 目標（判別できないものは除く）
+ */
+const parseUserGoals = (goals?: string[] | null) =>
+  Array.from(
+    new Set(
+      (goals || [])
+        .map((goal) => {
+          const upper = goal.trim().toUpperCase();
+          if (upper in GoalType) return upper as GoalType;
+          return GOAL_LABELS.find(([label]) => goal.includes(label))?.[1];
+        })
+        .filter((goal): goal is GoalType => Boolean(goal))
+    )
+  );
+
+/**
+ * ユーザーのプロフィールから制約を作成する
+ * @param user ユーザー（level, goal, stack）
+ * @returns 制約（リクエストの指定で上書きしてから parseRecommendationConstraints で検証する）
+ */
+export const buildUserRecommendationConstraints = (user: {
+  level?: string | null;
+  goal?: string[] | null;
+  stack?: string[] | null;
+}): RecommendationConstraintsInput => {
+  const goals = parseUserGoals(user.goal);
+  const skills = (user.stack || []).filter((skill) => skill.trim());
+
+  return {
+    level: parseUserLevel(user.level),
+    ...(goals.length > 0 ? { goals } : {}),
+    ...(skills.length > 0 ? { skills } : {}),
+  };
+};
+
+/**
+ * 必須条件に合わないイベントを除外する
+ * 難易度・参加費・開催形式が不明なイベントは除外しない
+ * @param events イベント
+ * @param constraints 検証済みの制約
+ * @returns 条件に合うイベント
+ */
+export const filterEventsByConstraints = <T extends ConstrainableEvent>(
+  events: T[],
+  constraints: RecommendationConstraints
+): T[] =>
+  events.filter((event) => {
+    if (
+      constraints.enforceLevel &&
+      constraints.level &&
+      event.difficulty &&
+      !COMPATIBLE_DIFFICULTIES[constraints.level].includes(event.difficulty)
+    ) {
+      return false;
+    }
+    if (
+      constraints.maxPrice !== undefined &&
+      event.price !== undefined &&
+      event.price > constraints.maxPrice
+    ) {
+      return false;
+    }
+    if (
+      constraints.strictFormat &&
+      constraints.formats?.length &&
+      event.format &&
+      !constraints.formats.includes(event.format)
+    ) {
+      return false;
+    }
+    return true;
+  });
+
+/**
+ * 優先条件に合うイベントのランキングを作る
+ * 条件ごとの一致度（0〜1）を重み付き平均したものをスコアとし、
+ * fuseRankings でテキスト類似度のランキングと融合できるようにする
+ * - 難易度: レベルと一致 1、誰でも向け 0.5
+ * - 目標: ユーザーの目標のうちイベントの目標に含まれる割合
+ * - 開催形式: 希望する形式なら 1
+ * - スキル: ユーザーのスキルのうちイベントのスキルに含まれる割合（大文字小文字を区別しない）
+ * @param events イベント
+ * @param constraints 検証済みの制約
+ * @returns スコアの高い順のランキング（どの条件にも一致しないイベントは含まない）
+ */
+export const computePreferenceRanking = (
+  events: ConstrainableEvent[],
+  constraints: RecommendationConstraints
+): ScoredEvent[] => {
+  const weights = { ...DEFAULT_PREFERENCE_WEIGHTS, ...constraints.weights };
+  const userSkills = new Set(
+    (constraints.skills || []).map((skill) => skill.toLowerCase())
+  );
+
+  // ユーザーが指定している条件のみ評価する
+  const features: {
+    weight: number;
+    match: (e: ConstrainableEvent) => number;
+  }[] = [];
+  if (constraints.level && constraints.level !== DifficultyLevel.FOR_EVERYONE) {
+    features.push({
+      weight: weights.level,
+      match: (e) =>
+        e.difficulty === constraints.level
+          ? 1
+          : e.difficulty === DifficultyLevel.FOR_EVERYONE
+          ? 0.5
+          : 0,
+    });
+  }
+  if (constraints.goals?.length) {
+    features.push({
+      weight: weights.goal,
+      match: (e) =>
+        constraints.goals.filter((goal) => e.goals?.includes(goal)).length /
+        constraints.goals.length,
+    });
+  }
+  if (constraints.formats?.length && !constraints.strictFormat) {
+    features.push({
+      weight: weights.format,
+      match: (e) =>
+        e.format && constraints.formats.includes(e.format) ? 1 : 0,
+    });
+  }
+  if (userSkills.size > 0) {
+    features.push({
+      weight: weights.skill,
+      match: (e) =>
+        new Set(
+          (e.skills || [])
+            .map((skill) => skill.toLowerCase())
+            .filter((skill) => userSkills.has(skill))
+        ).size / userSkills.size,
+    });
+  }
+
+  const totalWeight = features.reduce((sum, f) => sum + f.weight, 0);
+  if (totalWeight === 0) return [];
+
+  return events
+    .map((event) => ({
+      id: event.id,
+      score:
+        features.reduce((sum, f) => sum + f.weight * f.match(event), 0) /
+        totalWeight,
+    }))
+    .filter((item) => item.score > 0)
+    .sort((a, b) => b.score - a.score);
+};
@@ -0,0 +1,160 @@
+/**
+ * リマインド設定のユーティリティ関数
+ */
+
+// リマインドのデフォルト（開催1週間前）
+export const DEFAULT_REMINDER_OFFSETS_MINUTES = [7 * 24 * 60];
+
+// 設定できるリマインドの数と、開催の何分前まで指定できるか
+export const MAX_REMINDER_OFFSETS = 5;
+export const MAX_REMINDER_OFFSET_MINUTES = 30 * 24 * 60;
+
+/**
+ * リマインド設定の値が不正な場合のエラー（メッセージはそのままユーザーに表示できる）
+ */
+export class ReminderSettingsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReminderSettingsError";
+  }
+}
+
+// 単位ごとの分数
+const UNIT_MINUTES: { [unit: string]: number } = {
+  週間: 7 * 24 * 60,
+  週: 7 * 24 * 60,
+  w: 7 * 24 * 60,
+  日: 24 * 60,
+  d: 24 * 60,
+  時間: 60,
+  h: 60,
+  分: 1,
+  m: 1,
+};
+
+/**
+ * 「7日」「2時間」「30分」のような文字列を分数に変換する
+ * 「前」が付いていても解釈する（例: 「1日前」）
+ * @param text リマインドのタイミングを表す文字列
+ * @returns 分数（解釈できない場合は null）
+ */
+export const parseReminderOffset = (text: string): number | null => {
+  const normalized = text
+    .trim()
+    .replace(/[０-９]/g, (c) => String.fromCharCode(c.charCodeAt(0) - 0xfee0))
+    .replace(/前$/, "")
+    .toLowerCase();
+
+  const match = normalized.match(/^(\d+)(週間|週|w|日|d|時間|h|分|m)$/);
+  if (!match) return null;
+
+  const minutes = parseInt(match[1], 10) * UNIT_MINUTES[match[2]];
+  return minutes > 0 ? minutes : null;
+};
+
+/**
+ * 分数を「7日」「2時間」のような表示用の文字列に変換する
+ * @param minutes 開催の何分前か
+ * @returns 表示用の文字列
+ */
+export const formatReminderOffset = (minutes: number): string => {
+  if (minutes % (24 * 60) === 0) return `${minutes / (24 * 60)}日`;
+  if (minutes % 60 === 0) return `${minutes / 60}時間`;
+  return `${minutes}分`;
+};
+
+/**
+ * リマインドのタイミングを検証し、重複を除いて早い順（開催から遠い順）に並べる
+ * @param offsets 開催の何分前かの配列
+ * @returns 正規化した配列
+ * @throws ReminderSettingsError 不正な値が含まれる場合
+ */
+export const normalizeReminderOffsets = (offsets: unknown[]): number[] => {
+  for (const offset of offsets) {
+    if (
+      typeof offset !== "number" ||
+      !Number.isInteger(offset) ||
+      offset <= 0 ||
+      offset > MAX_REMINDER_OFFSET_MINUTES
+    ) {
+      throw new ReminderSettingsError(
+        `リマインドのタイミングは1分〜${formatReminderOffset(
+          MAX_REMINDER_OFFSET_MINUTES
+        )}前の範囲で指定してください`
+      );
+    }
+  }
+
+  const unique = Array.from(new Set(offsets as number[])).sort((a, b) => b - a);
+
+  if (unique.length > MAX_REMINDER_OFFSETS) {
+    throw new ReminderSettingsError(
+      `リマインドは${MAX_REMINDER_OFFSETS}件まで設定できます`
+    );
+  }
+
+  return unique;
+};
+
+/**
+ * 現在送るべきリマインドのタイミングを返す
+ * 送信時刻を過ぎたタイミングのうち、開催に最も近いものだけを返す
+ * （スケジューラーが止まっていた場合や、開催直前にブックマークした場合に
+ *   古いタイミングのリマインドをまとめて送らないようにするため）
+ * @param eventDate 開催日時
+ * @param offsets 開催の何分前かの配列
+ * @param now 基準日時
+ * @returns 送るべきタイミング（分）、なければ null
+ */
+export const getDueReminderOffset = (
+  eventDate: Date,
+  offsets: number[],
+  now: Date = new Date()
+): number | null => {
+  if (eventDate.getTime() <= now.getTime()) return null;
+
+  const due = offsets.filter(
+    (offset) => eventDate.getTime() - offset * 60 * 1000 <= now.getTime()
+  );
+
+  return due.length > 0 ? Math.min(...due) : null;
+};
+
+/**
+ * 開催までの残り時間を「7日後」「2時間後」のような表示用の文字列にする
+ * @param eventDate 開催日時
+ * @param now 基準日時
+ * @returns 表示用の文字列
+ */
+export const formatTimeUntilEvent = (
+  eventDate: Date,
+  now: Date = new Date()
+): string => {
+  const minutes = Math.max(
+    0,
+    Math.round((eventDate.getTime() - now.getTime()) / (60 * 1000))
+  );
+
+  if (minutes >= 24 * 60) return `${Math.round(minutes / (24 * 60))}日後`;
+  if (minutes >= 60) return `${Math.round(minutes / 60)}時間後`;
+  return `${minutes}分後`;
+};
+
+/**
+ * 次にリマインドが送られる日時を返す
+ * @param eventDate 開催日時
+ * @param offsets 開催の何分前かの配列
+ * @param now 基準日時
+ * @returns 次のリマインド日時（送るリマインドが残っていない場合は null）
+ */
+export const getNextReminderAt = (
+  eventDate: Date,
+  offsets: number[],
+  now: Date = new Date()
+): Date | null => {
+  const upcoming = offsets
+    .map((offset) => eventDate.getTime() - offset * 60 * 1000)
+    .filter((time) => time > now.getTime());
+
+  return upcoming.length > 0 ? new Date(Math.min(...upcoming)) : null;
+};
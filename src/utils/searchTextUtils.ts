@@ -0,0 +1,193 @@
+/**
+ * 全文検索用のテキスト処理ユーティリティ関数
+ * kuromoji で形態素解析した語をスペース区切りにして、PostgreSQL の tsvector（simple 設定）で検索できるようにする
+ */
+
+// kuromoji.jsの型定義
+interface KuromojiToken {
+  surface_form: string;
+  pos: string;
+  basic_form: string;
+}
+
+interface KuromojiTokenizer {
+  tokenize(text: string): KuromojiToken[];
+}
+
+// 検索語として使わない品詞
+const IGNORED_POS = new Set(["助詞", "助動詞", "記号", "接続詞", "連体詞"]);
+
+// tsquery で特別な意味を持つ文字
+const TSQUERY_SPECIAL_CHARS = /[&|!():*'\\<>\s]/g;
+
+// tokenizer は初期化コストが高いため1度だけ作成する
+let tokenizerPromise: Promise<KuromojiTokenizer> | null = null;
+
+/**
+ * 形態素解析器を取得する（初回のみ初期化）
+ * @returns kuromoji の tokenizer
+ */
+const getTokenizer = (): Promise<KuromojiTokenizer> => {
+  if (!tokenizerPromise) {
+    const kuromoji = require("kuromoji");
+    tokenizerPromise = new Promise((resolve, reject) => {
+      kuromoji
+        .builder({ dicPath: "node_modules/kuromoji/dict" })
+        .build((err: any, tokenizer: KuromojiTokenizer) => {
+          if (err) {
+            // 次回の呼び出しで再度初期化を試みる
+            tokenizerPromise = null;
+            reject(err);
+          } else {
+            resolve(tokenizer);
+          }
+        });
+    });
+  }
+  return tokenizerPromise;
+};
+
+/**
+ * 検索用にテキストを正規化する（全角英数の半角化・小文字化）
+ * @param text 正規化するテキスト
+ * @returns 正規化したテキスト
+ */
+export const normalizeSearchText = (text: string): string =>
+  text.normalize("NFKC").toLowerCase();
+
+/**
+ * HTMLタグを除去して空白をまとめる
+ * @param text HTMLを含む可能性のあるテキスト
+ * @returns プレーンテキスト
+ */
+export const stripHtml = (text: string): string =>
+  text
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&[a-z]+;/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+/**
+ * テキストを検索語に分割する
+ * 助詞・記号などを除き、活用する語は基本形にする
+ * @param text 分割するテキスト
+ * @returns 検索語の配列（出現順）
+ */
+export const tokenizeForSearch = async (text: string): Promise<string[]> => {
+  const normalized = normalizeSearchText(stripHtml(text || ""));
+  if (!normalized) return [];
+
+  const tokenizer = await getTokenizer();
+
+  return tokenizer
+    .tokenize(normalized)
+    .filter((token) => !IGNORED_POS.has(token.pos))
+    .map((token) =>
+      token.basic_form && token.basic_form !== "*"
+        ? token.basic_form
+        : token.surface_form
+    )
+    .map((word) => word.trim())
+    .filter((word) => word.length > 0 && !/^[ぁ-ん]$/.test(word));
+};
+
+/**
+ * 検索語を tsquery の文字列にする
+ * いずれかの語を含むイベントを前方一致で検索する（多く含むほど順位が高くなる）
+ * @param terms 検索語
+ * @returns tsquery の文字列（検索語がない場合は null）
+ */
+export const buildPrefixTsQuery = (terms: string[]): string | null => {
+  const sanitized = Array.from(
+    new Set(
+      terms
+        .map((term) => term.replace(TSQUERY_SPECIAL_CHARS, ""))
+        .filter(Boolean)
+    )
+  );
+  if (sanitized.length === 0) return null;
+  return sanitized.map((term) => `'${term}':*`).join(" | ");
+};
+
+// ハイライト表示用に HTML の特殊文字をエスケープする
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+// 正規化の単位（1文字と、続く結合文字・半角の濁点と半濁点）
+const NORMALIZE_UNIT = /[\s\S][\u0300-\u036f\u3099\u309a\uff9e\uff9f]*/gu;
+
+/**
+ * テキストを検索用に正規化し、正規化後の各文字が元のテキストのどの範囲に当たるかを記録する
+ * 正規化で文字数が変わる場合（半角カナの濁点の結合など）もハイライトの位置がずれないようにする
+ * @param text 元のテキスト
+ * @returns 正規化したテキストと、正規化後の各文字に対応する元のテキストの開始・終了位置
+ */
+const normalizeWithOffsets = (text: string) => {
+  let normalized = "";
+  const starts: number[] = [];
+  const ends: number[] = [];
+
+  let offset = 0;
+  for (const unit of text.match(NORMALIZE_UNIT) ?? []) {
+    const normalizedUnit = normalizeSearchText(unit);
+    for (let i = 0; i < normalizedUnit.length; i++) {
+      starts.push(offset);
+      ends.push(offset + unit.length);
+    }
+    normalized += normalizedUnit;
+    offset += unit.length;
+  }
+
+  return { normalized, starts, ends };
+};
+
+/**
+ * 検索語の周辺を切り出し、検索語を <mark> で囲んだスニペットを作成する
+ * 検索と同じく全角・半角や大文字・小文字の違いを無視して検索語を探す
+ * @param text 切り出し元のテキスト（説明文など）
+ * @param terms 検索語
+ * @param maxLength スニペットの最大文字数
+ * @returns スニペット（テキストが空の場合は空文字）
+ */
+export const buildSearchSnippet = (
+  text: string,
+  terms: string[],
+  maxLength: number = 120
+): string => {
+  const plain = stripHtml(text || "");
+  if (!plain) return "";
+
+  const { normalized, starts, ends } = normalizeWithOffsets(plain);
+  const normalizedTerms = Array.from(
+    new Set(terms.map((term) => normalizeSearchText(term)).filter(Boolean))
+  ).sort((a, b) => b.length - a.length);
+
+  // 最初に検索語が現れる位置の少し前から切り出す
+  const positions = normalizedTerms
+    .map((term) => normalized.indexOf(term))
+    .filter((position) => position >= 0);
+  const firstMatch = positions.length > 0 ? starts[Math.min(...positions)] : 0;
+  const start = Math.max(0, firstMatch - Math.floor(maxLength / 4));
+  const end = Math.min(plain.length, start + maxLength);
+
+  // 正規化後のテキスト上で検索語を探し、元のテキストの対応する範囲を出力する
+  let snippet = "";
+  let index = starts.findIndex((position) => position >= start);
+  if (index < 0) index = normalized.length;
+  while (index < normalized.length && starts[index] < end) {
+    const matched = normalizedTerms.find((term) =>
+      normalized.startsWith(term, index)
+    );
+    const from = starts[index];
+    const to = Math.min(
+      end,
+      ends[matched ? index + matched.length - 1 : index]
+    );
+    snippet += matched
+      ? `<mark>${escapeHtml(plain.slice(from, to))}</mark>`
+      : escapeHtml(plain.slice(from, to));
+    while (index < normalized.length && starts[index] < to) index++;
+  }
+
+  return `${start > 0 ? "…" : ""}${snippet}${end < plain.length ? "…" : ""}`;
+};